@@ -15,6 +15,8 @@ async function createTables() {
           title VARCHAR(255) NOT NULL,
           description TEXT,
           available BOOLEAN DEFAULT TRUE,
+          -- мягкое удаление: книга скрыта из каталога, но история выдач сохраняется
+          deleted_at TIMESTAMP,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         );
@@ -26,6 +28,18 @@ async function createTables() {
           email VARCHAR(255) UNIQUE NOT NULL,
           password_hash VARCHAR(255) NOT NULL,
           role VARCHAR(50) DEFAULT 'user',
+          email_verified_at TIMESTAMP,
+          -- active | suspended (до suspended_until) | deactivated
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          status_reason TEXT,
+          suspended_until TIMESTAMP,
+          deleted_at TIMESTAMP,
+          -- персональные данные заменены заглушками; займы и штрафы остаются привязаны к этой строке
+          anonymized_at TIMESTAMP,
+          -- читатель попросил хранить историю чтения: политика хранения не отвязывает его займы
+          keep_loan_history BOOLEAN NOT NULL DEFAULT false,
+          -- сколько займов политика хранения уже отвязала от пользователя (для статистики)
+          unlinked_loans_count INT NOT NULL DEFAULT 0,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         );
@@ -35,6 +49,7 @@ async function createTables() {
           id SERIAL PRIMARY KEY,
           name VARCHAR(255) NOT NULL,
           bio TEXT,
+          deleted_at TIMESTAMP,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         );
@@ -49,25 +64,275 @@ async function createTables() {
         );
 
 
+        CREATE TABLE IF NOT EXISTS book_copies (
+          id SERIAL PRIMARY KEY,
+          book_id INT NOT NULL,
+          barcode VARCHAR(64) UNIQUE NOT NULL,
+          condition VARCHAR(50) DEFAULT 'good',
+          shelf_location VARCHAR(100),
+          acquired_at DATE DEFAULT CURRENT_DATE,
+          deleted_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+        );
+
+
         CREATE TABLE IF NOT EXISTS book_loans (
           id SERIAL PRIMARY KEY,
           book_id INT NOT NULL,
-          user_id INT NOT NULL,
+          copy_id INT NOT NULL,
+          -- NULL — старый возвращённый займ отвязан от читателя политикой хранения
+          user_id INT,
           taken_at TIMESTAMP NOT NULL,
+          due_at TIMESTAMP NOT NULL,
           returned_at TIMESTAMP,
-          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
-          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+          renewals_count INT NOT NULL DEFAULT 0,
+          -- сотрудник, оформивший выдачу/возврат за читателя (NULL — читатель сам)
+          checked_out_by INT,
+          returned_by INT,
+          -- история выдач не должна пропадать вместе с книгой или пользователем:
+          -- их удаляют мягко (deleted_at), а физическое удаление с займами запрещено
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE RESTRICT,
+          FOREIGN KEY (copy_id) REFERENCES book_copies(id) ON DELETE RESTRICT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE RESTRICT,
+          FOREIGN KEY (checked_out_by) REFERENCES users(id) ON DELETE SET NULL,
+          FOREIGN KEY (returned_by) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+        -- один экземпляр не может одновременно находиться в двух открытых займах
+        CREATE UNIQUE INDEX IF NOT EXISTS book_loans_open_copy_idx
+          ON book_loans (copy_id) WHERE returned_at IS NULL;
+
+
+        -- status: waiting (в очереди) | ready (экземпляр отложен до expires_at) | fulfilled | cancelled | expired
+        CREATE TABLE IF NOT EXISTS holds (
+          id SERIAL PRIMARY KEY,
+          book_id INT NOT NULL,
+          user_id INT NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          ready_at TIMESTAMP,
+          expires_at TIMESTAMP,
+          closed_at TIMESTAMP,
+          FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE RESTRICT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE RESTRICT
+        );
+
+        -- у пользователя может быть только одна активная бронь на книгу
+        CREATE UNIQUE INDEX IF NOT EXISTS holds_active_user_book_idx
+          ON holds (book_id, user_id) WHERE status IN ('waiting', 'ready');
+
+
+        -- status: open (есть задолженность) | paid | waived (списан администратором)
+        CREATE TABLE IF NOT EXISTS fines (
+          id SERIAL PRIMARY KEY,
+          loan_id INT UNIQUE NOT NULL,
+          -- NULL — закрытый штраф отвязан от читателя вместе с займом политикой хранения
+          user_id INT,
+          days_overdue INT NOT NULL,
+          amount NUMERIC(10, 2) NOT NULL,
+          paid_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+          status VARCHAR(20) NOT NULL DEFAULT 'open',
+          waived_by INT,
+          waived_at TIMESTAMP,
+          waive_reason TEXT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (loan_id) REFERENCES book_loans(id) ON DELETE RESTRICT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE RESTRICT,
+          FOREIGN KEY (waived_by) REFERENCES users(id) ON DELETE SET NULL
         );
 
 
+        CREATE TABLE IF NOT EXISTS fine_payments (
+          id SERIAL PRIMARY KEY,
+          fine_id INT NOT NULL,
+          amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+          received_by INT,
+          paid_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (fine_id) REFERENCES fines(id) ON DELETE CASCADE,
+          FOREIGN KEY (received_by) REFERENCES users(id) ON DELETE SET NULL
+        );
+
+
+        -- храним только sha256 от refresh-токена; все токены одной сессии (устройства)
+        -- образуют семейство family_id, при ротации старый токен помечается rotated_at
         CREATE TABLE IF NOT EXISTS refresh_tokens (
           id SERIAL PRIMARY KEY,
           user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-          token TEXT NOT NULL UNIQUE,
+          family_id UUID NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          user_agent TEXT,
+          ip VARCHAR(64),
+          expires_at TIMESTAMP NOT NULL,
+          rotated_at TIMESTAMP,
+          -- сессия открыта с подтверждением второго фактора (TOTP или код восстановления)
+          two_factor_verified BOOLEAN NOT NULL DEFAULT false,
+          created_at TIMESTAMP DEFAULT now()
+        );
+
+        CREATE INDEX IF NOT EXISTS refresh_tokens_user_idx ON refresh_tokens(user_id);
+        CREATE INDEX IF NOT EXISTS refresh_tokens_family_idx ON refresh_tokens(family_id);
+
+        -- в семействе может быть только один действующий (не ротированный) токен
+        CREATE UNIQUE INDEX IF NOT EXISTS refresh_tokens_active_family_idx
+          ON refresh_tokens(family_id)
+          WHERE rotated_at IS NULL;
+
+        CREATE TABLE IF NOT EXISTS security_events (
+          id SERIAL PRIMARY KEY,
+          user_id INT REFERENCES users(id) ON DELETE SET NULL,
+          event_type VARCHAR(50) NOT NULL,
+          details JSONB NOT NULL DEFAULT '{}',
+          ip VARCHAR(64),
+          user_agent TEXT,
+          created_at TIMESTAMP DEFAULT now()
+        );
+
+        CREATE INDEX IF NOT EXISTS security_events_user_idx ON security_events(user_id);
+
+        -- одноразовые ссылки сброса пароля; храним только sha256 от токена
+        CREATE TABLE IF NOT EXISTS password_reset_tokens (
+          id SERIAL PRIMARY KEY,
+          user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          token_hash TEXT NOT NULL UNIQUE,
           expires_at TIMESTAMP NOT NULL,
+          used_at TIMESTAMP,
           created_at TIMESTAMP DEFAULT now()
         );
 
+        -- токены подтверждения email; email — адрес, который подтверждается этим токеном
+        CREATE TABLE IF NOT EXISTS email_verification_tokens (
+          id SERIAL PRIMARY KEY,
+          user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          email VARCHAR(255) NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          expires_at TIMESTAMP NOT NULL,
+          used_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT now()
+        );
+
+        -- журнал попыток входа; username храним как введённый, даже если такого пользователя нет
+        CREATE TABLE IF NOT EXISTS login_attempts (
+          id SERIAL PRIMARY KEY,
+          username VARCHAR(255) NOT NULL,
+          user_id INT REFERENCES users(id) ON DELETE SET NULL,
+          ip VARCHAR(64),
+          user_agent TEXT,
+          success BOOLEAN NOT NULL,
+          reason VARCHAR(50) NOT NULL,
+          created_at TIMESTAMP DEFAULT now()
+        );
+
+        CREATE INDEX IF NOT EXISTS login_attempts_username_idx ON login_attempts(username, created_at);
+        CREATE INDEX IF NOT EXISTS login_attempts_ip_idx ON login_attempts(ip, created_at);
+
+        -- журнал назначения ролей; old_role = NULL — роль назначена при создании пользователя
+        CREATE TABLE IF NOT EXISTS role_changes (
+          id SERIAL PRIMARY KEY,
+          user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          old_role VARCHAR(50),
+          new_role VARCHAR(50) NOT NULL,
+          changed_by INT REFERENCES users(id) ON DELETE SET NULL,
+          reason TEXT,
+          changed_at TIMESTAMP DEFAULT now()
+        );
+
+        CREATE INDEX IF NOT EXISTS role_changes_user_idx ON role_changes(user_id);
+
+        -- журнал смены статуса учётной записи; changed_by = NULL — статус изменён автоматически (истекла блокировка)
+        CREATE TABLE IF NOT EXISTS user_status_changes (
+          id SERIAL PRIMARY KEY,
+          user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          old_status VARCHAR(20) NOT NULL,
+          new_status VARCHAR(20) NOT NULL,
+          reason TEXT,
+          suspended_until TIMESTAMP,
+          changed_by INT REFERENCES users(id) ON DELETE SET NULL,
+          changed_at TIMESTAMP DEFAULT now()
+        );
+
+        CREATE INDEX IF NOT EXISTS user_status_changes_user_idx ON user_status_changes(user_id);
+
+        -- TOTP-секрет пользователя; пока confirmed_at пуст, 2FA не включена
+        CREATE TABLE IF NOT EXISTS user_two_factor (
+          user_id INT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+          secret VARCHAR(64) NOT NULL,
+          confirmed_at TIMESTAMP,
+          -- последний принятый временной шаг: один и тот же код нельзя использовать дважды
+          last_used_step BIGINT,
+          created_at TIMESTAMP DEFAULT now()
+        );
+
+        -- одноразовые коды восстановления 2FA; храним только sha256
+        CREATE TABLE IF NOT EXISTS user_recovery_codes (
+          id SERIAL PRIMARY KEY,
+          user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          code_hash TEXT NOT NULL,
+          used_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT now()
+        );
+
+        CREATE INDEX IF NOT EXISTS user_recovery_codes_user_idx ON user_recovery_codes(user_id);
+
+        -- настройки, которые администратор меняет во время работы (например, роли с обязательной 2FA)
+        CREATE TABLE IF NOT EXISTS app_settings (
+          key VARCHAR(100) PRIMARY KEY,
+          value JSONB NOT NULL,
+          updated_by INT REFERENCES users(id) ON DELETE SET NULL,
+          updated_at TIMESTAMP DEFAULT now()
+        );
+
+        -- API-ключи для интеграций (киоск, скрипты отчётов); сам ключ не храним — только sha256.
+        -- Ключ действует от имени создавшего его администратора и только в пределах permissions
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id SERIAL PRIMARY KEY,
+          name VARCHAR(100) NOT NULL,
+          key_prefix VARCHAR(16) NOT NULL UNIQUE,
+          key_hash TEXT NOT NULL UNIQUE,
+          permissions TEXT[] NOT NULL,
+          created_by INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          expires_at TIMESTAMP,
+          last_used_at TIMESTAMP,
+          revoked_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT now()
+        );
+
+        -- внешние учётные записи (OIDC): subject провайдера, привязанный к пользователю
+        CREATE TABLE IF NOT EXISTS user_identities (
+          id SERIAL PRIMARY KEY,
+          user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          provider VARCHAR(50) NOT NULL,
+          subject VARCHAR(255) NOT NULL,
+          email VARCHAR(255),
+          created_at TIMESTAMP DEFAULT now(),
+          last_login_at TIMESTAMP,
+          UNIQUE (provider, subject)
+        );
+
+        CREATE INDEX IF NOT EXISTS user_identities_user_idx ON user_identities(user_id);
+
+        -- незавершённые входы через OIDC: state (хэш), PKCE code_verifier и nonce до возврата с провайдера
+        CREATE TABLE IF NOT EXISTS oidc_auth_requests (
+          state_hash TEXT PRIMARY KEY,
+          code_verifier TEXT NOT NULL,
+          nonce TEXT NOT NULL,
+          expires_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP DEFAULT now()
+        );
+
+        -- исходящие письма для транспорта MAIL_TRANSPORT=db
+        CREATE TABLE IF NOT EXISTS mail_outbox (
+          id SERIAL PRIMARY KEY,
+          from_address VARCHAR(255) NOT NULL,
+          to_address VARCHAR(255) NOT NULL,
+          subject VARCHAR(255) NOT NULL,
+          body TEXT NOT NULL,
+          created_at TIMESTAMP DEFAULT now(),
+          sent_at TIMESTAMP
+        );
+
       `);
     console.log("Таблицы созданы");
   } catch (error) {
@@ -101,6 +101,11 @@ async function seedData() {
       ON CONFLICT DO NOTHING;
     `);
 
+    // тестовые пользователи считаются подтвердившими email, иначе им не выдадут книги
+    await db.query(`
+      UPDATE users SET email_verified_at = NOW() WHERE email_verified_at IS NULL;
+    `);
+
     // -------------------- BOOKS_AUTHORS --------------------
     await db.query(`
       INSERT INTO books_authors (book_id, author_id)
@@ -112,25 +117,43 @@ async function seedData() {
       ON CONFLICT DO NOTHING;
     `);
 
+    // -------------------- BOOK_COPIES --------------------
+    // по два экземпляра каждой книги, штрихкод вида LIB-000001-1
+    await db.query(`
+      INSERT INTO book_copies (book_id, barcode, shelf_location)
+      SELECT b.id, 'LIB-' || LPAD(b.id::text, 6, '0') || '-' || n, 'A-' || b.id
+      FROM books b
+      CROSS JOIN generate_series(1, 2) AS n
+      ON CONFLICT DO NOTHING;
+    `);
+
     // -------------------- BOOK_LOANS --------------------
+    // выдаём первый экземпляр книг 1..20 пользователям 1..20; займы книг 15..20 уже просрочены
     await db.query(`
-      INSERT INTO book_loans (book_id, user_id, taken_at, returned_at)
-      VALUES
-      (1, 1, NOW(), NULL), (2, 2, NOW(), NULL), (3, 3, NOW(), NULL), (4, 4, NOW(), NULL),
-      (5, 5, NOW(), NULL), (6, 6, NOW(), NULL), (7, 7, NOW(), NULL), (8, 8, NOW(), NULL),
-      (9, 9, NOW(), NULL), (10, 10, NOW(), NULL), (11, 11, NOW(), NULL), (12, 12, NOW(), NULL),
-      (13, 13, NOW(), NULL), (14, 14, NOW(), NULL), (15, 15, NOW(), NULL), (16, 16, NOW(), NULL),
-      (17, 17, NOW(), NULL), (18, 18, NOW(), NULL), (19, 19, NOW(), NULL), (20, 20, NOW(), NULL)
+      INSERT INTO book_loans (book_id, copy_id, user_id, taken_at, due_at, returned_at)
+      SELECT bc.book_id, bc.id, bc.book_id,
+        NOW() - make_interval(days => bc.book_id),
+        NOW() - make_interval(days => bc.book_id) + INTERVAL '14 days',
+        NULL
+      FROM book_copies bc
+      WHERE bc.book_id <= 20
+        AND bc.barcode LIKE '%-1'
       ON CONFLICT DO NOTHING;
     `);
 
     // -------------------- refresh_tokens --------------------
  await db.query(`
-      CREATE TABLE refresh_tokens (
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
       id SERIAL PRIMARY KEY,
       user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-      token TEXT NOT NULL UNIQUE,
-      expires_at TIMESTAMP NOT NULL`
+      family_id UUID NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      user_agent TEXT,
+      ip VARCHAR(64),
+      expires_at TIMESTAMP NOT NULL,
+      rotated_at TIMESTAMP,
+      two_factor_verified BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT now())`
     );
 
 
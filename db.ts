@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import * as dotenv from 'dotenv';
 dotenv.config()
 
@@ -24,5 +24,26 @@ pool.connect((err, client, release) => {
 
 console.log('Подключение к базе данных:', process.env.DB_NAME);
 
+/**
+ * Выполняет callback внутри транзакции на отдельном клиенте пула.
+ * При ошибке транзакция откатывается, а ошибка пробрасывается дальше.
+ * @param callback - функция, получающая клиента транзакции
+ */
+async function withTransaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
 
-export {pool};
+  try {
+    await client.query('BEGIN');
+    const result = await callback(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+
+export {pool, withTransaction};
@@ -6,6 +6,14 @@ import booksRoutes from './src/routes/book-routes/book-routes';
 import authorsRoutes from'./src/routes/authors-routes/authors-routes';
 import loansRoutes from'./src/routes/book-routes/book-loans-routes';
 import statisticRoutes from './src/routes/statistic-routes/statistic-routes';
+import holdsRoutes from './src/routes/holds-routes/holds-routes';
+import meRoutes from './src/routes/me-routes/me-routes';
+import finesRoutes from './src/routes/fines-routes/fines-routes';
+import apiKeyRoutes from './src/routes/api-key-routes/api-key-routes';
+import wellKnownRoutes from './src/routes/well-known-routes/well-known-routes';
+import retentionRoutes from './src/routes/retention-routes/retention-routes';
+import { startLoanRetentionJob } from './src/services/retention-service/retention-service';
+import { startHoldExpiryJob } from './src/services/holds-service/holds-service';
 
 import * as dotenv from "dotenv";
 dotenv.config();
@@ -24,7 +32,15 @@ app.use('/authors', authorsRoutes);
 app.use('/books-loans', loansRoutes);
 app.use('/auth', authRoutes);
 app.use('/statistic', statisticRoutes);
+app.use('/holds', holdsRoutes);
+app.use('/me', meRoutes);
+app.use('/fines', finesRoutes);
+app.use('/api-keys', apiKeyRoutes);
+app.use('/.well-known', wellKnownRoutes);
+app.use('/retention', retentionRoutes);
 
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
+  startLoanRetentionJob();
+  startHoldExpiryJob();
 });
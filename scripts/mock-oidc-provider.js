@@ -0,0 +1,106 @@
+/**
+ * Локальный мок OpenID Connect провайдера для проверки входа через OIDC без сети.
+ *
+ * Запуск:
+ *   node scripts/mock-oidc-provider.js
+ * и в .env приложения:
+ *   OIDC_ISSUER=http://localhost:4000
+ *   OIDC_CLIENT_ID=library
+ *
+ * Страница входа не спрашивает пароль: пользователь сразу «входит» под учётной записью
+ * из MOCK_USERS, выбранной параметром login_hint (по умолчанию — первой). Чтобы войти
+ * другим пользователем, добавьте `&login_hint=student2` к адресу /authorize, на который
+ * перенаправляет GET /auth/oidc/login.
+ * @module scripts/mockOidcProvider
+ */
+const crypto = require('crypto');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 4000;
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || 'library';
+const KID = 'mock-oidc-key';
+
+const MOCK_USERS = {
+  student1: { sub: 'campus-0001', email: 'student1@campus.example', email_verified: true, name: 'Student One' },
+  student2: { sub: 'campus-0002', email: 'student2@campus.example', email_verified: true, name: 'Student Two' },
+  // email не подтверждён провайдером — к существующему аккаунту такой вход не привяжется
+  guest: { sub: 'campus-0003', email: 'guest@campus.example', email_verified: false, name: 'Guest' },
+};
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+// выданные, но ещё не обменянные authorization code
+const codes = new Map();
+
+const app = express();
+
+app.use(express.urlencoded({ extended: true }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' }] });
+});
+
+app.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, login_hint } = req.query;
+
+  if (client_id !== CLIENT_ID || !redirect_uri || !state || !code_challenge || code_challenge_method !== 'S256') {
+    return res.status(400).json({ error: 'invalid_request' });
+  }
+
+  const username = typeof login_hint === 'string' && MOCK_USERS[login_hint] ? login_hint : Object.keys(MOCK_USERS)[0];
+  const code = crypto.randomBytes(16).toString('hex');
+
+  codes.set(code, { redirectUri: redirect_uri, nonce, codeChallenge: code_challenge, username });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set('code', code);
+  target.searchParams.set('state', state);
+
+  res.redirect(target.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body;
+  const grant = codes.get(code);
+
+  // code одноразовый
+  codes.delete(code);
+
+  if (grant_type !== 'authorization_code' || !grant || client_id !== CLIENT_ID || redirect_uri !== grant.redirectUri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+
+  const challenge = crypto.createHash('sha256').update(String(code_verifier)).digest('base64url');
+
+  if (challenge !== grant.codeChallenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const { sub, ...profile } = MOCK_USERS[grant.username];
+  const idToken = jwt.sign(
+    { ...profile, preferred_username: grant.username, nonce: grant.nonce },
+    privateKey,
+    { algorithm: 'RS256', keyid: KID, issuer: ISSUER, audience: CLIENT_ID, subject: sub, expiresIn: '5m' },
+  );
+
+  res.json({ access_token: crypto.randomBytes(16).toString('hex'), token_type: 'Bearer', expires_in: 300, id_token: idToken });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC provider is running on ${ISSUER}`);
+});
@@ -0,0 +1,4 @@
+INSERT INTO book_copies (book_id, barcode, shelf_location)
+SELECT b.id, 'LIB-' || LPAD(b.id::text, 6, '0') || '-' || n, 'A-' || b.id
+FROM books b
+CROSS JOIN generate_series(1, 2) AS n;
@@ -20,3 +20,6 @@ VALUES
 ('user18', 'user18@example.com', 'password18', 'user'),
 ('user19', 'user19@example.com', 'password19', 'user'),
 ('user20', 'user20@example.com', 'password20', 'user');
+
+-- тестовые пользователи считаются подтвердившими email
+UPDATE users SET email_verified_at = NOW() WHERE email_verified_at IS NULL;
@@ -0,0 +1,76 @@
+import { readNumber, readString } from './env';
+
+/**
+ * @module AuthConfig
+ * Настройки аутентификации и восстановления доступа, читаемые из переменных окружения.
+ */
+
+// Сложность хэширования паролей bcrypt
+const BCRYPT_SALT_ROUNDS = readNumber('BCRYPT_SALT_ROUNDS', 10);
+
+// Сколько минут действует ссылка для сброса пароля
+const PASSWORD_RESET_TTL_MINUTES = readNumber('PASSWORD_RESET_TTL_MINUTES', 30);
+
+// Сколько часов действует ссылка подтверждения email
+const EMAIL_VERIFICATION_TTL_HOURS = readNumber('EMAIL_VERIFICATION_TTL_HOURS', 24);
+
+// Не чаще одного письма подтверждения за столько секунд
+const EMAIL_VERIFICATION_RESEND_SECONDS = readNumber('EMAIL_VERIFICATION_RESEND_SECONDS', 60);
+
+// Политика паролей: длина и минимальное число классов символов
+// (строчные буквы, заглавные буквы, цифры, прочие символы)
+const PASSWORD_MIN_LENGTH = readNumber('PASSWORD_MIN_LENGTH', 8);
+// bcrypt учитывает только первые 72 байта пароля
+const PASSWORD_MAX_LENGTH = readNumber('PASSWORD_MAX_LENGTH', 72);
+const PASSWORD_MIN_CHAR_CLASSES = readNumber('PASSWORD_MIN_CHAR_CLASSES', 3);
+
+// Допустимая длина username (проверяется при изменении профиля)
+const USERNAME_MIN_LENGTH = readNumber('USERNAME_MIN_LENGTH', 3);
+const USERNAME_MAX_LENGTH = readNumber('USERNAME_MAX_LENGTH', 50);
+
+// Защита входа от перебора: сколько неудачных попыток допускается за окно
+// с одного username и с одного IP, прежде чем вход временно блокируется
+const LOGIN_MAX_FAILURES_PER_USER = readNumber('LOGIN_MAX_FAILURES_PER_USER', 5);
+const LOGIN_MAX_FAILURES_PER_IP = readNumber('LOGIN_MAX_FAILURES_PER_IP', 20);
+const LOGIN_FAILURE_WINDOW_MINUTES = readNumber('LOGIN_FAILURE_WINDOW_MINUTES', 15);
+const LOGIN_LOCKOUT_MINUTES = readNumber('LOGIN_LOCKOUT_MINUTES', 15);
+
+// Прогрессивная задержка ответа: база удваивается с каждой неудачной попыткой, но не больше максимума
+const LOGIN_DELAY_BASE_MS = readNumber('LOGIN_DELAY_BASE_MS', 250);
+const LOGIN_DELAY_MAX_MS = readNumber('LOGIN_DELAY_MAX_MS', 4000);
+
+// Где хранятся счётчики попыток: `memory` — в памяти процесса
+const LOGIN_ATTEMPT_STORE = readString('LOGIN_ATTEMPT_STORE', 'memory');
+
+// Двухфакторная аутентификация: название сервиса в приложении-аутентификаторе,
+// срок жизни промежуточного токена между вводом пароля и кода, число кодов восстановления
+const TWO_FACTOR_ISSUER = readString('TWO_FACTOR_ISSUER', 'Library');
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = readNumber('TWO_FACTOR_CHALLENGE_TTL_SECONDS', 300);
+const TWO_FACTOR_RECOVERY_CODES = readNumber('TWO_FACTOR_RECOVERY_CODES', 10);
+
+// Пользователь, вошедший через OIDC, не знает своего пароля: опасные действия (удаление аккаунта)
+// он подтверждает свежим входом у провайдера — сессия должна быть не старше стольких минут
+const REAUTH_MAX_AGE_MINUTES = readNumber('REAUTH_MAX_AGE_MINUTES', 10);
+
+export {
+  BCRYPT_SALT_ROUNDS,
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_CHAR_CLASSES,
+  USERNAME_MIN_LENGTH,
+  USERNAME_MAX_LENGTH,
+  PASSWORD_RESET_TTL_MINUTES,
+  EMAIL_VERIFICATION_TTL_HOURS,
+  EMAIL_VERIFICATION_RESEND_SECONDS,
+  LOGIN_MAX_FAILURES_PER_USER,
+  LOGIN_MAX_FAILURES_PER_IP,
+  LOGIN_FAILURE_WINDOW_MINUTES,
+  LOGIN_LOCKOUT_MINUTES,
+  LOGIN_DELAY_BASE_MS,
+  LOGIN_DELAY_MAX_MS,
+  LOGIN_ATTEMPT_STORE,
+  TWO_FACTOR_ISSUER,
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  TWO_FACTOR_RECOVERY_CODES,
+  REAUTH_MAX_AGE_MINUTES,
+};
@@ -0,0 +1,86 @@
+import { readNumber } from './env';
+
+/**
+ * @module CirculationConfig
+ * Настройки выдачи книг (сроки и лимиты займов, продления, брони, штрафы), читаемые из переменных окружения.
+ *
+ * Значения, зависящие от роли пользователя, задаются переменными вида
+ * `<ПРЕФИКС>_<РОЛЬ>`, например `LOAN_PERIOD_DAYS_LIBRARIAN=30`.
+ * Для неизвестной роли используется значение роли `user`.
+ */
+
+type RoleSettings = Record<string, number>;
+
+/**
+ * Собирает настройку по ролям: значение из окружения или значение по умолчанию.
+ * @param envPrefix - префикс переменной окружения
+ * @param defaults - значения по умолчанию для каждой роли
+ */
+function readPerRole(envPrefix: string, defaults: RoleSettings): RoleSettings {
+  const settings: RoleSettings = {};
+
+  for (const [role, fallback] of Object.entries(defaults)) {
+    const fromEnv = Number(process.env[`${envPrefix}_${role.toUpperCase()}`]);
+    settings[role] = Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : fallback;
+  }
+
+  return settings;
+}
+
+/**
+ * Возвращает значение настройки для роли (или для `user`, если роль неизвестна).
+ * @param settings - настройка по ролям
+ * @param role - роль пользователя
+ */
+function forRole(settings: RoleSettings, role: string): number {
+  return settings[role] ?? settings.user;
+}
+
+// Срок займа в днях
+const LOAN_PERIOD_DAYS = readPerRole('LOAN_PERIOD_DAYS', { user: 14, librarian: 30, admin: 30 });
+
+/**
+ * Срок займа в днях для роли.
+ * @param role - роль заёмщика
+ */
+function getLoanPeriodDays(role: string): number {
+  return forRole(LOAN_PERIOD_DAYS, role);
+}
+
+// Сколько книг пользователь может держать на руках одновременно
+const MAX_OPEN_LOANS = readPerRole('MAX_OPEN_LOANS', { user: 5, librarian: 20, admin: 20 });
+
+/**
+ * Максимальное число одновременно открытых займов для роли.
+ * @param role - роль заёмщика
+ */
+function getMaxOpenLoans(role: string): number {
+  return forRole(MAX_OPEN_LOANS, role);
+}
+
+// Сколько раз можно продлить один займ
+const MAX_RENEWALS = readNumber('LOAN_MAX_RENEWALS', 2);
+
+// Сколько дней отложенный по брони экземпляр ждёт читателя
+const HOLD_PICKUP_DAYS = readNumber('HOLD_PICKUP_DAYS', 3);
+
+// Как часто фоновая задача закрывает просроченные отложенные брони; 0 — задача выключена
+const HOLD_EXPIRY_INTERVAL_MINUTES = readNumber('HOLD_EXPIRY_INTERVAL_MINUTES', 15);
+
+// Штраф за каждый день просрочки и максимальный штраф за один займ
+const FINE_DAILY_RATE = readNumber('FINE_DAILY_RATE', 10);
+const FINE_MAX_AMOUNT = readNumber('FINE_MAX_AMOUNT', 500);
+
+// При непогашенных штрафах больше этой суммы новые книги не выдаются
+const FINE_BLOCK_THRESHOLD = readNumber('FINE_BLOCK_THRESHOLD', 100);
+
+export {
+  getLoanPeriodDays,
+  getMaxOpenLoans,
+  MAX_RENEWALS,
+  HOLD_PICKUP_DAYS,
+  HOLD_EXPIRY_INTERVAL_MINUTES,
+  FINE_DAILY_RATE,
+  FINE_MAX_AMOUNT,
+  FINE_BLOCK_THRESHOLD,
+};
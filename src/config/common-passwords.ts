@@ -0,0 +1,103 @@
+/**
+ * @module CommonPasswords
+ * Встроенный список самых распространённых паролей (в нижнем регистре).
+ * Пароль из этого списка политика отклоняет независимо от длины и состава символов.
+ */
+
+const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456',
+  '123456789',
+  '12345678',
+  '1234567890',
+  '12345',
+  '1234567',
+  '111111',
+  '000000',
+  '123123',
+  '123321',
+  '654321',
+  '666666',
+  '696969',
+  '777777',
+  '121212',
+  '112233',
+  '7777777',
+  '11111111',
+  '987654321',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  'qwerty',
+  'qwerty123',
+  'qwerty1',
+  'qwertyuiop',
+  'qwe123',
+  'qweqwe',
+  'asdfgh',
+  'asdfghjkl',
+  'zxcvbnm',
+  'zaq12wsx',
+  'password',
+  'password1',
+  'password123',
+  'passw0rd',
+  'p@ssw0rd',
+  'p@ssword',
+  'pass123',
+  'abc123',
+  'abcd1234',
+  'a123456',
+  'aa123456',
+  'admin',
+  'admin123',
+  'administrator',
+  'root',
+  'toor',
+  'letmein',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'iloveyou',
+  'princess',
+  'sunshine',
+  'monkey',
+  'dragon',
+  'master',
+  'football',
+  'baseball',
+  'superman',
+  'batman',
+  'trustno1',
+  'shadow',
+  'michael',
+  'jennifer',
+  'freedom',
+  'whatever',
+  'starwars',
+  'pokemon',
+  'hello123',
+  'login',
+  'secret',
+  'changeme',
+  'default',
+  'guest',
+  'test123',
+  'testtest',
+  'library',
+  'library1',
+  'library123',
+  'books123',
+  'qwerty12345',
+  'q1w2e3r4',
+  'q1w2e3r4t5',
+  'qazwsx',
+  'qazwsxedc',
+  '1111111111',
+  '0987654321',
+  'йцукен',
+  'йцукен123',
+  'пароль',
+  'пароль123',
+]);
+
+export { COMMON_PASSWORDS };
@@ -0,0 +1,29 @@
+/**
+ * @module EnvConfig
+ * Общие функции чтения настроек из переменных окружения.
+ */
+
+/**
+ * Читает неотрицательное число из переменной окружения.
+ * @param name - имя переменной окружения
+ * @param fallback - значение по умолчанию
+ */
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = Number(raw);
+
+  return raw !== undefined && raw !== '' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Читает непустую строку из переменной окружения.
+ * @param name - имя переменной окружения
+ * @param fallback - значение по умолчанию
+ */
+function readString(name: string, fallback: string): string {
+  const raw = process.env[name]?.trim();
+
+  return raw ? raw : fallback;
+}
+
+export { readNumber, readString };
@@ -0,0 +1,25 @@
+import { readString } from './env';
+
+/**
+ * @module JwtConfig
+ * Настройки подписи JWT, читаемые из переменных окружения.
+ *
+ * Токены подписываются асимметрично (RS256 или ES256 — по типу ключа).
+ * Ключи лежат в каталоге JWT_KEYS_DIR по одному PEM-файлу на ключ, имя файла без `.pem` — это kid:
+ *   openssl genpkey -algorithm RSA -pkeyopt rsa_keygen_bits:2048 -out keys/2026-10.pem
+ *   openssl genpkey -algorithm EC -pkeyopt ec_paramgen_curve:P-256 -out keys/2026-10.pem
+ * Подписывает ключ JWT_ACTIVE_KID, проверяются токены, подписанные любым ключом из каталога.
+ * Ротация: положить новый ключ, переключить JWT_ACTIVE_KID, а старый удалить (или заменить
+ * его публичной частью) не раньше, чем истекут выданные им access-токены.
+ */
+
+const JWT_KEYS_DIR = readString('JWT_KEYS_DIR', 'keys');
+
+// kid ключа для подписи; можно не задавать, если приватный ключ в каталоге один
+const JWT_ACTIVE_KID = readString('JWT_ACTIVE_KID', '');
+
+// iss и aud access-токенов — их проверяют и другие сервисы, получающие ключи из JWKS
+const JWT_ISSUER = readString('JWT_ISSUER', 'library-auth');
+const JWT_AUDIENCE = readString('JWT_AUDIENCE', 'library-api');
+
+export { JWT_KEYS_DIR, JWT_ACTIVE_KID, JWT_ISSUER, JWT_AUDIENCE };
@@ -0,0 +1,23 @@
+import { readString } from './env';
+
+/**
+ * @module MailConfig
+ * Настройки отправки писем, читаемые из переменных окружения.
+ *
+ * MAIL_TRANSPORT выбирает способ доставки:
+ * - `file` — письма складываются JSON-файлами в каталог MAIL_OUTBOX_DIR;
+ * - `db` — письма записываются в таблицу `mail_outbox`.
+ */
+
+const MAIL_TRANSPORT = readString('MAIL_TRANSPORT', 'file');
+
+// Каталог для транспорта `file`
+const MAIL_OUTBOX_DIR = readString('MAIL_OUTBOX_DIR', 'outbox');
+
+// Адрес отправителя
+const MAIL_FROM = readString('MAIL_FROM', 'library@localhost');
+
+// Адрес клиентского приложения, на который ведут ссылки из писем
+const APP_URL = readString('APP_URL', 'http://localhost:3000');
+
+export { MAIL_TRANSPORT, MAIL_OUTBOX_DIR, MAIL_FROM, APP_URL };
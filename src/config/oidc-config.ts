@@ -0,0 +1,39 @@
+import { readNumber, readString } from './env';
+
+/**
+ * @module OidcConfig
+ * Настройки входа через внешний OpenID Connect провайдер (например, университетский).
+ *
+ * Вход через OIDC включён, только если задан OIDC_ISSUER; адреса эндпоинтов провайдера
+ * берутся из его `/.well-known/openid-configuration`. Для локальной проверки без сети
+ * есть мок-провайдер: `node scripts/mock-oidc-provider.js`.
+ */
+
+// Адрес провайдера (iss); пусто — вход через OIDC выключен
+const OIDC_ISSUER = readString('OIDC_ISSUER', '');
+
+const OIDC_CLIENT_ID = readString('OIDC_CLIENT_ID', 'library');
+
+// Секрет клиента; пусто — публичный клиент, защищённый только PKCE
+const OIDC_CLIENT_SECRET = readString('OIDC_CLIENT_SECRET', '');
+
+// Куда провайдер вернёт пользователя после входа — должен совпадать с зарегистрированным у провайдера
+const OIDC_REDIRECT_URI = readString('OIDC_REDIRECT_URI', 'http://localhost:3000/auth/oidc/callback');
+
+const OIDC_SCOPES = readString('OIDC_SCOPES', 'openid profile email');
+
+// Имя провайдера в user_identities — чтобы subject разных провайдеров не пересекались
+const OIDC_PROVIDER = readString('OIDC_PROVIDER', 'campus');
+
+// Сколько минут ждём возврата пользователя с провайдера
+const OIDC_STATE_TTL_MINUTES = readNumber('OIDC_STATE_TTL_MINUTES', 10);
+
+export {
+  OIDC_ISSUER,
+  OIDC_CLIENT_ID,
+  OIDC_CLIENT_SECRET,
+  OIDC_REDIRECT_URI,
+  OIDC_SCOPES,
+  OIDC_PROVIDER,
+  OIDC_STATE_TTL_MINUTES,
+};
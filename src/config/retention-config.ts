@@ -0,0 +1,27 @@
+import { readNumber, readString } from './env';
+
+/**
+ * @module RetentionConfig
+ * Настройки политики хранения истории займов, читаемые из переменных окружения.
+ *
+ * Возвращённые займы старше LOAN_RETENTION_MONTHS месяцев отвязываются от читателей
+ * (кроме тех, кто попросил хранить историю), фоновая задача запускается
+ * раз в LOAN_RETENTION_INTERVAL_MINUTES минут.
+ */
+
+// Сколько месяцев после возврата займ хранится вместе с читателем; 0 — политика выключена
+const LOAN_RETENTION_MONTHS = readNumber('LOAN_RETENTION_MONTHS', 0);
+
+// срок уходит в make_interval(months => ...), который принимает только целые числа:
+// лучше не запуститься, чем падать при каждом прогоне задачи
+if (!Number.isInteger(LOAN_RETENTION_MONTHS)) {
+  throw new Error(`LOAN_RETENTION_MONTHS must be a whole number of months, got ${process.env.LOAN_RETENTION_MONTHS}`);
+}
+
+// Как часто запускать фоновую задачу
+const LOAN_RETENTION_INTERVAL_MINUTES = readNumber('LOAN_RETENTION_INTERVAL_MINUTES', 24 * 60);
+
+// Пробный режим: задача только пишет в лог, сколько займов отвязала бы, и ничего не меняет
+const LOAN_RETENTION_DRY_RUN = readString('LOAN_RETENTION_DRY_RUN', 'false') === 'true';
+
+export { LOAN_RETENTION_MONTHS, LOAN_RETENTION_INTERVAL_MINUTES, LOAN_RETENTION_DRY_RUN };
@@ -0,0 +1,124 @@
+/**
+ * @module RolesConfig
+ * Роли пользователей библиотеки и связанные с ними права (permissions).
+ *
+ * Права именуются как `<ресурс>:<действие>` и проверяются middleware `requirePermission`.
+ * Сами пользователи (роль `user`) особых прав не имеют: к своим займам, броням и штрафам
+ * у них есть доступ как у владельца.
+ */
+
+const ROLES = ['user', 'librarian', 'admin'] as const;
+
+type Role = (typeof ROLES)[number];
+
+// Роль новых пользователей, в том числе при самостоятельной регистрации
+const DEFAULT_ROLE: Role = 'user';
+
+const PERMISSIONS = [
+  'books:write',
+  'authors:write',
+  'users:read',
+  'users:manage',
+  'roles:manage',
+  'settings:manage',
+  'api_keys:manage',
+  'records:restore',
+  'retention:manage',
+  'loans:read',
+  'loans:manage',
+  'holds:manage',
+  'fines:manage',
+  'fines:waive',
+  'stats:read',
+] as const;
+
+type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  librarian: [
+    'books:write',
+    'authors:write',
+    'users:read',
+    'loans:read',
+    'loans:manage',
+    'holds:manage',
+    'fines:manage',
+    'stats:read',
+  ],
+  admin: PERMISSIONS,
+};
+
+/**
+ * Проверяет, есть ли у роли указанное право.
+ * @param role - роль пользователя
+ * @param permission - требуемое право
+ */
+function hasPermission(role: string | undefined, permission: Permission): boolean {
+  if (!role || !(ROLES as readonly string[]).includes(role)) {
+    return false;
+  }
+
+  return ROLE_PERMISSIONS[role as Role].includes(permission);
+}
+
+/**
+ * Проверяет право у текущего субъекта запроса (req.user).
+ * У API-ключа права перечислены явно, у пользователя — определяются ролью.
+ * @param principal - субъект запроса ({ role } или { permissions } для API-ключа)
+ * @param permission - требуемое право
+ */
+function principalHasPermission(
+  principal: { role?: string; permissions?: readonly Permission[] } | undefined,
+  permission: Permission,
+): boolean {
+  if (!principal) {
+    return false;
+  }
+
+  if (principal.permissions) {
+    return principal.permissions.includes(permission);
+  }
+
+  return hasPermission(principal.role, permission);
+}
+
+type RoleAssignment = { status: 'ok'; role: Role } | { status: 'invalid' } | { status: 'forbidden' };
+
+/**
+ * Единое правило назначения роли при создании пользователя и смене роли.
+ * Роль по умолчанию может получить кто угодно; любую другую назначает только
+ * субъект с правом `roles:manage` — для API-ключа это право самого ключа, а не роль его владельца.
+ * Без actor (самостоятельная регистрация) доступна только роль по умолчанию.
+ * @param requestedRole - запрошенная роль (undefined — роль по умолчанию)
+ * @param actor - субъект запроса, который назначает роль (req.user)
+ */
+function resolveAssignableRole(
+  requestedRole: unknown,
+  actor: { role?: string; permissions?: readonly Permission[] } | undefined,
+): RoleAssignment {
+  if (requestedRole === undefined || requestedRole === null || requestedRole === '') {
+    return { status: 'ok', role: DEFAULT_ROLE };
+  }
+
+  if (typeof requestedRole !== 'string' || !(ROLES as readonly string[]).includes(requestedRole)) {
+    return { status: 'invalid' };
+  }
+
+  if (requestedRole !== DEFAULT_ROLE && !principalHasPermission(actor, 'roles:manage')) {
+    return { status: 'forbidden' };
+  }
+
+  return { status: 'ok', role: requestedRole as Role };
+}
+
+export {
+  ROLES,
+  DEFAULT_ROLE,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  hasPermission,
+  principalHasPermission,
+  resolveAssignableRole,
+};
+export type { Role, Permission, RoleAssignment };
@@ -1,29 +1,89 @@
-import jwt, { JwtPayload } from 'jsonwebtoken';
+import { JwtPayload } from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
-const JWT_SECRET: string = process.env.JWT_SECRET || 'dev_secret';
+import { findActiveByKey, touchLastUsed, API_KEY_PREFIX } from '../models/api-key-model';
+import { verifyAccessToken } from '../services/auth-service/token-service';
+import { getAccountBlock, checkAccount } from '../services/auth-service/account-status';
+import { hasPermission, PERMISSIONS, Permission } from '../config/roles';
 
 type AuthenticatedRequest = Request & {
-  user?: JwtPayload & { id: number; username: string; role: string };
+  // sid — ID сессии (refresh_tokens.family_id), в которой выдан access-токен;
+  // mfa — вход в этой сессии подтверждён вторым фактором;
+  // apiKey и permissions — только при входе по API-ключу: ключ действует от имени
+  // выпустившего его пользователя, но лишь в пределах перечисленных прав
+  user?: JwtPayload & {
+    id: number;
+    username: string;
+    role: string;
+    sid?: string;
+    mfa?: boolean;
+    apiKey?: { id: number; name: string };
+    permissions?: Permission[];
+  };
 }
 
 /**
- * @file Middleware для аутентификации пользователей по JWT.
- * Проверяет наличие и корректность токена в заголовке Authorization.
- * Если токен валиден — добавляет данные пользователя в req.user и передаёт управление дальше.
- * Если токен отсутствует или недействителен — возвращает ошибку 401 или 403.
+ * @file Middleware для аутентификации запросов по JWT или API-ключу.
+ * Access-токен передаётся в заголовке `Authorization: Bearer <token>`,
+ * API-ключ — в заголовке `X-API-Key` или так же, как токен, через `Authorization: Bearer`.
+ * Если токен или ключ валиден — добавляет субъект запроса в req.user и передаёт управление дальше.
+ * Если они отсутствуют или недействительны — возвращает ошибку 401 или 403.
+ * Заблокированная или деактивированная учётная запись (в том числе владелец API-ключа)
+ * получает 403 даже с ещё действующим access-токеном, а роль берётся из базы, а не из токена.
  *
  * @module middleware/authenticateToken
  */
 
 /**
- * Проверяет JWT-токен из заголовка Authorization.
- * 
+ * Аутентифицирует запрос по API-ключу.
+ * Права ключа дополнительно ограничены текущей ролью владельца: если владельца понизили,
+ * ключ теряет права, которых у него больше нет.
+ * @param req
+ * @param res
+ * @param next
+ * @param key - предъявленный ключ
+ */
+async function authenticateApiKey(req: AuthenticatedRequest, res: Response, next: NextFunction, key: string) {
+  try {
+    const apiKey = await findActiveByKey(key);
+
+    if (!apiKey) {
+      return res.status(403).json({ error: 'Invalid, expired or revoked API key' });
+    }
+
+    const block = await getAccountBlock(apiKey.created_by);
+
+    if (block) {
+      return res.status(403).json(block);
+    }
+
+    await touchLastUsed(apiKey.id);
+
+    req.user = {
+      id: apiKey.created_by,
+      username: apiKey.owner_username,
+      role: apiKey.owner_role,
+      apiKey: { id: apiKey.id, name: apiKey.name },
+      permissions: PERMISSIONS.filter(
+        (permission) => apiKey.permissions.includes(permission) && hasPermission(apiKey.owner_role, permission),
+      ),
+    };
+
+    next();
+  } catch (err) {
+    console.error('authenticateApiKey error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Проверяет JWT-токен или API-ключ из заголовков запроса.
+ *
  * @param {import('express').Request} req - Объект запроса Express.
  * @param {import('express').Response} res - Объект ответа Express.
  * @param {import('express').NextFunction} next - Функция, передающая управление следующему middleware.
- * 
- * @returns {void}
- * 
+ *
+ * @returns {Promise<void>}
+ *
  * @example
  * // Использование:
  * const { authenticateToken } = require('./middleware/auth');
@@ -31,7 +91,13 @@ type AuthenticatedRequest = Request & {
  * res.json({ user: req.user });
  * });
  */
-function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+async function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  const apiKeyHeader = req.get('x-api-key');
+
+  if (apiKeyHeader) {
+    return authenticateApiKey(req, res, next, apiKeyHeader);
+  }
+
   const authHeader = req.headers.authorization;
 
   if (!authHeader) {
@@ -46,17 +112,51 @@ function authenticateToken(req: AuthenticatedRequest, res: Response, next: NextF
 
   const token = parts[1];
 
-  jwt.verify(token, JWT_SECRET, (err, payload) => {
-    if (err) {
-      return res.status(403).json({ error: 'Invalid or expired token' });
+  // API-ключи узнаются по префиксу, JWT всегда начинается с закодированного заголовка
+  if (token.startsWith(API_KEY_PREFIX)) {
+    return authenticateApiKey(req, res, next, token);
+  }
+
+  try {
+    req.user = verifyAccessToken(token);
+  } catch {
+    return res.status(403).json({ error: 'Invalid or expired token' });
+  }
+
+  try {
+    const account = await checkAccount(req.user.id);
+
+    if (account.status === 'blocked') {
+      return res.status(403).json(account.block);
     }
 
-    req.user = payload as AuthenticatedRequest['user'];
+    // роль из токена могла устареть: после смены роли права должны меняться сразу
+    req.user.role = account.role;
+  } catch (err) {
+    console.error('authenticateToken error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
 
-    next();
-  });
+  next();
 }
-export { authenticateToken };
 
+/**
+ * Пропускает только запросы пользователя, вошедшего по логину (JWT).
+ * Ставится после authenticateToken на маршруты управления собственной учётной записью
+ * и API-ключами, а также на действия читателя от своего имени (выдача, возврат, бронь, /me):
+ * интеграция не должна действовать как владелец ключа.
+ *
+ * @param {import('express').Request} req - Объект запроса Express.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @param {import('express').NextFunction} next - Функция, передающая управление следующему middleware.
+ */
+function requireUserSession(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.user?.apiKey) {
+    return res.status(403).json({ error: 'This endpoint is not available for API keys' });
+  }
 
+  next();
+}
 
+export { authenticateToken, requireUserSession };
+export type { AuthenticatedRequest };
@@ -0,0 +1,103 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth-middleware';
+import { principalHasPermission, Permission } from '../config/roles';
+import { isTwoFactorRequired } from '../services/auth-service/two-factor-policy';
+
+/**
+ * @file Middleware для проверки прав доступа (permissions) по роли пользователя
+ * или по списку прав API-ключа.
+ * Используется после authenticateToken, который кладёт пользователя в req.user.
+ * Если права нет — возвращает 403 с названием недостающего права.
+ * Если для роли пользователя обязательна 2FA, а вход не подтверждён вторым фактором, — тоже 403.
+ *
+ * @module middleware/requirePermission
+ */
+
+/**
+ * Создаёт middleware, пропускающий запрос только при наличии права у текущего пользователя.
+ *
+ * @param {Permission} permission - Требуемое право, например `books:write`.
+ * @returns {Function} Middleware Express.
+ *
+ * @example
+ * router.post('/', authenticateToken, requirePermission('books:write'), createBook);
+ */
+function requirePermission(permission: Permission) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!principalHasPermission(req.user, permission)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `Permission "${permission}" is required`,
+        missingPermission: permission,
+      });
+    }
+
+    try {
+      // API-ключи не проходят интерактивный вход, 2FA к ним не применяется
+      if (!req.user.apiKey && !req.user.mfa && (await isTwoFactorRequired(req.user.role))) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Two-factor authentication is required for your role',
+          twoFactorRequired: true,
+        });
+      }
+    } catch (err) {
+      console.error('requirePermission error', err);
+      return res.status(500).json({ error: 'Server error' });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Как requirePermission, но пропускает пользователя к его собственной записи (req.params.id)
+ * без проверки права. Что именно владелец может сделать со своей записью, решает сервис.
+ * API-ключи этим исключением не пользуются: им всегда нужно право.
+ *
+ * @param {Permission} permission - Право, требуемое для доступа к чужим записям.
+ * @returns {Function} Middleware Express.
+ *
+ * @example
+ * router.patch('/:id', authenticateToken, requirePermissionUnlessOwner('users:manage'), updateUser);
+ */
+function requirePermissionUnlessOwner(permission: Permission) {
+  const checkPermission = requirePermission(permission);
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (req.user && !req.user.apiKey && req.user.id === Number(req.params.id)) {
+      return next();
+    }
+
+    return checkPermission(req, res, next);
+  };
+}
+
+/**
+ * Для API-ключа требует право явно, а пользователя с сессией пропускает: что ему можно
+ * (свою запись или чужую при наличии права), решает сервис. Без этой проверки ключ
+ * на таких маршрутах действовал бы как его владелец-администратор, в обход своих прав.
+ *
+ * @param {Permission} permission - Право, без которого API-ключ не допускается к маршруту.
+ * @returns {Function} Middleware Express.
+ *
+ * @example
+ * router.get('/:id', authenticateToken, requirePermissionForApiKey('loans:read'), getLoan);
+ */
+function requirePermissionForApiKey(permission: Permission) {
+  const checkPermission = requirePermission(permission);
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (req.user && !req.user.apiKey) {
+      return next();
+    }
+
+    return checkPermission(req, res, next);
+  };
+}
+
+export { requirePermission, requirePermissionUnlessOwner, requirePermissionForApiKey };
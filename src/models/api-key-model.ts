@@ -0,0 +1,169 @@
+import { pool } from '../../db';
+import { hashToken } from '../utils/crypto-utils';
+
+/**
+ * @module ApiKeyModel
+ * Модуль для работы с таблицей `api_keys` — ключами доступа для интеграций.
+ *
+ * Сам ключ в базе не хранится: только его sha256 и короткий префикс,
+ * по которому ключ можно узнать в списке. Ключ действует от имени создавшего
+ * его пользователя и только в пределах перечисленных прав.
+ *
+ * Содержит функции для:
+ * - создания ключа,
+ * - получения списка ключей,
+ * - поиска действующего ключа при аутентификации,
+ * - отметки времени последнего использования,
+ * - отзыва ключа.
+ */
+
+/**
+ * пользовательский тип, описывающий API-ключ.
+ *
+ * @typedef {Object} ApiKey
+ * @property {number} id - Уникальный идентификатор ключа.
+ * @property {string} name - Название (для чего выпущен ключ).
+ * @property {string} key_prefix - Префикс ключа, по которому его можно узнать.
+ * @property {string[]} permissions - Права, доступные по ключу.
+ * @property {number} created_by - ID пользователя, выпустившего ключ.
+ * @property {Date|null} expires_at - Когда ключ истекает (null — бессрочный).
+ * @property {Date|null} last_used_at - Когда ключ последний раз использовался.
+ * @property {Date|null} revoked_at - Когда ключ отозван.
+ * @property {Date} created_at - Когда ключ создан.
+ * @property {string|null} [created_by_username] - Имя пользователя, выпустившего ключ.
+ */
+type ApiKey = {
+  id: number;
+  name: string;
+  key_prefix: string;
+  permissions: string[];
+  created_by: number;
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+  created_by_username?: string | null;
+};
+
+/** Действующий ключ вместе с данными владельца — для аутентификации запроса. */
+type ActiveApiKey = ApiKey & {
+  owner_username: string;
+  owner_role: string;
+};
+
+type ApiKeyCreateDto = {
+  name: string;
+  key: string;
+  keyPrefix: string;
+  permissions: string[];
+  createdBy: number;
+  expiresAt: string | null;
+};
+
+// Все ключи начинаются с этого префикса: так их легко отличить от JWT и найти в логах или коде
+const API_KEY_PREFIX = 'lib_';
+
+type RevokeApiKeyResult = { status: 'ok'; apiKey: ApiKey } | { status: 'not_found' } | { status: 'already_revoked' };
+
+const API_KEY_COLUMNS = 'id, name, key_prefix, permissions, created_by, expires_at, last_used_at, revoked_at, created_at';
+// те же колонки для запросов с JOIN (таблица api_keys под псевдонимом k)
+const API_KEY_COLUMNS_K = API_KEY_COLUMNS.split(', ')
+  .map((column) => `k.${column}`)
+  .join(', ');
+
+// last_used_at обновляем не чаще раза в минуту, чтобы не писать в базу на каждый запрос
+const LAST_USED_RESOLUTION = '1 minute';
+
+/**
+ * Создаёт API-ключ.
+ * @param {ApiKeyCreateDto} dto - данные ключа; в базу попадёт только хэш самого ключа
+ * @returns {Promise<ApiKey>} Созданный ключ (без хэша).
+ */
+async function create(dto: ApiKeyCreateDto): Promise<ApiKey> {
+  const query = `
+    INSERT INTO api_keys (name, key_prefix, key_hash, permissions, created_by, expires_at)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING ${API_KEY_COLUMNS};
+  `;
+  const { rows } = await pool.query<ApiKey>(query, [
+    dto.name,
+    dto.keyPrefix,
+    hashToken(dto.key),
+    dto.permissions,
+    dto.createdBy,
+    dto.expiresAt,
+  ]);
+  return rows[0];
+}
+
+/**
+ * Получает все API-ключи, новые — первыми.
+ */
+async function getAll(): Promise<ApiKey[]> {
+  const query = `
+    SELECT ${API_KEY_COLUMNS_K},
+           u.username AS created_by_username
+    FROM api_keys k
+    LEFT JOIN users u ON u.id = k.created_by
+    ORDER BY k.created_at DESC;
+  `;
+  const { rows } = await pool.query<ApiKey>(query);
+  return rows;
+}
+
+/**
+ * Находит действующий (не отозванный и не истёкший) ключ по его строке.
+ * @param {string} key - предъявленный ключ
+ * @returns {Promise<ActiveApiKey|null>} Ключ с данными владельца или null.
+ */
+async function findActiveByKey(key: string): Promise<ActiveApiKey | null> {
+  const query = `
+    SELECT ${API_KEY_COLUMNS_K},
+           u.username AS owner_username,
+           u.role AS owner_role
+    FROM api_keys k
+    JOIN users u ON u.id = k.created_by
+    WHERE k.key_hash = $1
+      AND k.revoked_at IS NULL
+      AND (k.expires_at IS NULL OR k.expires_at > NOW());
+  `;
+  const { rows } = await pool.query<ActiveApiKey>(query, [hashToken(key)]);
+  return rows[0] ?? null;
+}
+
+/**
+ * Отмечает использование ключа.
+ * @param {number} id - ID ключа
+ */
+async function touchLastUsed(id: number): Promise<void> {
+  const query = `
+    UPDATE api_keys
+    SET last_used_at = NOW()
+    WHERE id = $1
+      AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '${LAST_USED_RESOLUTION}');
+  `;
+  await pool.query(query, [id]);
+}
+
+/**
+ * Отзывает ключ; отозванный ключ больше не принимается.
+ * @param {number} id - ID ключа
+ * @returns {Promise<RevokeApiKeyResult>} Результат отзыва.
+ */
+async function revoke(id: number): Promise<RevokeApiKeyResult> {
+  const { rows } = await pool.query<ApiKey>(
+    `UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL RETURNING ${API_KEY_COLUMNS}`,
+    [id],
+  );
+
+  if (rows[0]) {
+    return { status: 'ok', apiKey: rows[0] };
+  }
+
+  const exists = await pool.query('SELECT 1 FROM api_keys WHERE id = $1', [id]);
+
+  return exists.rowCount ? { status: 'already_revoked' } : { status: 'not_found' };
+}
+
+export { create, getAll, findActiveByKey, touchLastUsed, revoke, API_KEY_PREFIX };
+export type { ApiKey, ActiveApiKey };
@@ -1,92 +1,272 @@
-import { pool } from '../../db';
+import crypto from 'crypto';
+import { pool, withTransaction } from '../../db';
+import { hashToken } from '../utils/crypto-utils';
 
 /**
  * @module AuthModel
- * Работа с таблицей refresh_tokens
+ * Работа с таблицей refresh_tokens.
+ *
+ * Сессия пользователя (устройство/браузер) — это семейство токенов с общим family_id.
+ * При каждом обновлении выдаётся новый токен того же семейства, а старый помечается
+ * rotated_at и больше не принимается. Повторное предъявление уже ротированного токена
+ * означает, что он утёк, — тогда отзывается всё семейство.
+ * Сами токены в базе не хранятся — только их sha256-хэш.
  */
 type Token = {
   id: number;
   user_id: number;
-  token: string;
+  family_id: string;
+  token_hash: string;
+  user_agent: string | null;
+  ip: string | null;
   expires_at: Date;
+  rotated_at: Date | null;
+  two_factor_verified: boolean;
+  created_at: Date;
 };
 
+/** Запись refresh-токена без хэша — в таком виде её возвращают функции модуля. */
+type StoredToken = Omit<Token, 'token_hash'>;
+
 /**
- * Сохраняет refresh-токен в базу
+ * Сессия в том виде, в котором её видит пользователь: id — это family_id,
+ * created_at — момент входа, last_used_at — момент последней ротации.
+ */
+type Session = {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+};
+
+type SessionMeta = {
+  userAgent: string | null;
+  ip: string | null;
+};
+
+const TOKEN_COLUMNS =
+  'id, user_id, family_id, user_agent, ip, expires_at, rotated_at, two_factor_verified, created_at';
+
+/**
+ * Создаёт новую сессию (семейство) с первым refresh-токеном.
+ * Заодно удаляет истёкшие токены пользователя, чтобы таблица не разрасталась.
  * @param {number} userId - ID пользователя
  * @param {string} token - сам токен
- * @param {string|number} ttl - срок жизни (например, '7d')
+ * @param {string} expiresAt - момент истечения (ISO-строка)
+ * @param {SessionMeta} meta - user-agent и IP клиента
+ * @param {boolean} [twoFactorVerified=false] - вход подтверждён вторым фактором
  */
-async function refreshToken(userId: number, token: string, ttl: string | number): Promise<Token> {
-  // Проверяем, есть ли уже запись для userId
-  const selectQuery: string = 'SELECT 1 FROM refresh_tokens WHERE user_id = $1';
-  const result = await pool.query(selectQuery, [userId]);
-
-  if (result.rowCount! > 0) {
-    // result.rowCount! тояно не null, испльзуем ! иначе ошибка
-    // Запись есть — обновляем
-    const updateQuery: string = `
-      UPDATE refresh_tokens
-      SET token = $2, expires_at = $3
-      WHERE user_id = $1
-      RETURNING *;
-    `;
-    const { rows } = await pool.query<Token>(updateQuery, [userId, token, ttl]);
-    return rows[0];
-  } else {
-    // Записи нет — вставляем новую
-    const insertQuery: string = `
-      INSERT INTO refresh_tokens (user_id, token, expires_at)
-      VALUES ($1, $2, $3)
-      RETURNING *;
+async function createSession(
+  userId: number,
+  token: string,
+  expiresAt: string,
+  meta: SessionMeta,
+  twoFactorVerified = false,
+): Promise<StoredToken> {
+  await pool.query('DELETE FROM refresh_tokens WHERE user_id = $1 AND expires_at < NOW()', [userId]);
+
+  const query: string = `
+    INSERT INTO refresh_tokens (user_id, family_id, token_hash, user_agent, ip, expires_at, two_factor_verified)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    RETURNING ${TOKEN_COLUMNS};
+  `;
+  const { rows } = await pool.query<StoredToken>(query, [
+    userId,
+    crypto.randomUUID(),
+    hashToken(token),
+    meta.userAgent,
+    meta.ip,
+    expiresAt,
+    twoFactorVerified,
+  ]);
+  return rows[0];
+}
+
+/**
+ * Возвращает запись refresh-токена по его строке, в том числе уже ротированную
+ * @param {string} refreshToken
+ */
+async function getRefreshToken(refreshToken: string): Promise<StoredToken | undefined> {
+  const query: string = `SELECT ${TOKEN_COLUMNS} FROM refresh_tokens WHERE token_hash = $1`;
+  const { rows } = await pool.query<StoredToken>(query, [hashToken(refreshToken)]);
+  return rows[0];
+}
+
+/**
+ * Удаляет сессию, к которой относится refresh-токен (например, при logout)
+ * @param {string} token
+ * @returns {Promise<number>} Количество удалённых токенов семейства.
+ */
+async function deleteRefreshToken(token: string): Promise<number> {
+  const query: string = `
+    DELETE FROM refresh_tokens
+    WHERE family_id = (SELECT family_id FROM refresh_tokens WHERE token_hash = $1);
+  `;
+  const result = await pool.query(query, [hashToken(token)]);
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Ротирует refresh-токен: помечает текущий как использованный и выдаёт новый
+ * в том же семействе.
+ * @param {StoredToken} current - текущая запись токена
+ * @param {string} newToken - новый токен
+ * @param {string} expiresAt - момент истечения нового токена (ISO-строка)
+ * @param {SessionMeta} meta - user-agent и IP клиента
+ * @returns {Promise<StoredToken|undefined>} Новая запись или undefined, если текущий токен
+ * уже был ротирован (параллельным запросом или повторным предъявлением).
+ */
+async function replaceRefreshToken(
+  current: StoredToken,
+  newToken: string,
+  expiresAt: string,
+  meta: SessionMeta,
+): Promise<StoredToken | undefined> {
+  return withTransaction(async (client) => {
+    const rotated = await client.query(
+      'UPDATE refresh_tokens SET rotated_at = NOW() WHERE id = $1 AND rotated_at IS NULL',
+      [current.id],
+    );
+
+    if (rotated.rowCount === 0) {
+      return undefined;
+    }
+
+    const query: string = `
+      INSERT INTO refresh_tokens (user_id, family_id, token_hash, user_agent, ip, expires_at, two_factor_verified)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING ${TOKEN_COLUMNS};
     `;
-    const { rows } = await pool.query<Token>(insertQuery, [userId, token, ttl]);
+    const { rows } = await client.query<StoredToken>(query, [
+      current.user_id,
+      current.family_id,
+      hashToken(newToken),
+      meta.userAgent ?? current.user_agent,
+      meta.ip ?? current.ip,
+      expiresAt,
+      current.two_factor_verified,
+    ]);
     return rows[0];
-  }
+  });
 }
 
 /**
- * Возвращает refresh-токен по его строке
- * @param {string} token
+ * Отмечает сессию как подтверждённую вторым фактором (например, сразу после подключения 2FA)
+ * @param {string} familyId - ID сессии (семейства токенов)
+ * @param {number} userId - ID владельца
  */
+async function markSessionTwoFactorVerified(familyId: string, userId: number): Promise<void> {
+  await pool.query(
+    'UPDATE refresh_tokens SET two_factor_verified = true WHERE family_id = $1 AND user_id = $2',
+    [familyId, userId],
+  );
+}
 
-// Проверяем, существует ли токен и не истёк ли
 /**
- *
- * @param token
+ * Отзывает всё семейство токенов (сессию целиком)
+ * @param {string} familyId - ID семейства
+ * @returns {Promise<number>} Количество удалённых токенов.
  */
-async function getRefreshToken(refreshToken: string): Promise<Token> {
-  const query: string = `SELECT * FROM refresh_tokens WHERE token = $1`;
-  const { rows } = await pool.query<Token>(query, [refreshToken]);
-  return rows[0];
+async function revokeFamily(familyId: string): Promise<number> {
+  const result = await pool.query('DELETE FROM refresh_tokens WHERE family_id = $1', [familyId]);
+  return result.rowCount ?? 0;
 }
 
 /**
- * Удаляет refresh-токен из базы (например, при logout)
- * @param {string} token
+ * Возвращает активные сессии пользователя, последние использованные — первыми
+ * @param {number} userId - ID пользователя
  */
+async function getSessionsByUserId(userId: number): Promise<Session[]> {
+  const query: string = `
+    SELECT
+      rt.family_id AS id,
+      rt.user_agent,
+      rt.ip,
+      (SELECT MIN(f.created_at) FROM refresh_tokens f WHERE f.family_id = rt.family_id) AS created_at,
+      rt.created_at AS last_used_at,
+      rt.expires_at
+    FROM refresh_tokens rt
+    WHERE rt.user_id = $1
+      AND rt.rotated_at IS NULL
+      AND rt.expires_at > NOW()
+    ORDER BY rt.created_at DESC;
+  `;
+  const { rows } = await pool.query<Session>(query, [userId]);
+  return rows;
+}
 
-async function deleteRefreshToken(token: string): Promise<Token> {
-  const query: string = `DELETE FROM refresh_tokens WHERE token = $1`;
-  const result = await pool.query(query, [token]);
-  return result.rows[0] as Token;
+/**
+ * Возвращает момент входа в сессию (создания первого токена семейства)
+ * @param {string} familyId - ID сессии (семейства токенов)
+ * @param {number} userId - ID владельца
+ * @returns {Promise<Date|null>} Момент входа или null, если сессии нет.
+ */
+async function getSessionStartedAt(familyId: string, userId: number): Promise<Date | null> {
+  const { rows } = await pool.query<{ started_at: Date | null }>(
+    'SELECT MIN(created_at) AS started_at FROM refresh_tokens WHERE family_id = $1 AND user_id = $2',
+    [familyId, userId],
+  );
+  return rows[0]?.started_at ?? null;
 }
 
 /**
- * Обновляет refresh-токен (удаляет старый и сохраняет новый)
- * @param {number} userId
- * @param {string} oldToken
- * @param {string} newToken
- * @param {string|number} ttl
+ * Удаляет одну сессию пользователя
+ * @param {string} familyId - ID сессии (семейства токенов)
+ * @param {number} userId - ID владельца; чужую сессию удалить нельзя
+ * @returns {Promise<number>} Количество удалённых токенов; 0 — сессия не найдена.
  */
-async function replaceRefreshToken(
-  userId: number,
-  oldToken: string,
-  newToken: string,
-  ttl: number | string,
-): Promise<void> {
-  await deleteRefreshToken(oldToken);
-  await refreshToken(userId, newToken, ttl);
+async function deleteSession(familyId: string, userId: number): Promise<number> {
+  const result = await pool.query('DELETE FROM refresh_tokens WHERE family_id = $1 AND user_id = $2', [
+    familyId,
+    userId,
+  ]);
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Удаляет все сессии пользователя (выход со всех устройств)
+ * @param {number} userId - ID пользователя
+ * @returns {Promise<number>} Количество закрытых сессий.
+ */
+async function deleteAllSessions(userId: number): Promise<number> {
+  const result = await pool.query(
+    'DELETE FROM refresh_tokens WHERE user_id = $1 RETURNING family_id',
+    [userId],
+  );
+  return new Set(result.rows.map((row) => row.family_id)).size;
+}
+
+/**
+ * Удаляет все сессии пользователя, кроме указанной (например, после смены пароля)
+ * @param {number} userId - ID пользователя
+ * @param {string|null} keepFamilyId - сессия, которую нужно оставить; null — удалить все
+ * @returns {Promise<number>} Количество закрытых сессий.
+ */
+async function deleteOtherSessions(userId: number, keepFamilyId: string | null): Promise<number> {
+  if (!keepFamilyId) {
+    return deleteAllSessions(userId);
+  }
+
+  const result = await pool.query(
+    'DELETE FROM refresh_tokens WHERE user_id = $1 AND family_id <> $2 RETURNING family_id',
+    [userId, keepFamilyId],
+  );
+  return new Set(result.rows.map((row) => row.family_id)).size;
 }
 
-export { refreshToken, getRefreshToken, deleteRefreshToken, replaceRefreshToken };
+export {
+  createSession,
+  getRefreshToken,
+  deleteRefreshToken,
+  replaceRefreshToken,
+  revokeFamily,
+  markSessionTwoFactorVerified,
+  getSessionsByUserId,
+  getSessionStartedAt,
+  deleteSession,
+  deleteAllSessions,
+  deleteOtherSessions,
+};
+export type { StoredToken, Session, SessionMeta };
@@ -8,7 +8,10 @@ import { pool } from '../../db';
  * - получения всех авторов,
  * - получения одного автора по ID,
  * - создания нового автора,
- * - удаления автора по ID.
+ * - удаления автора по ID,
+ * - восстановления удалённого автора.
+ *
+ * Авторы удаляются мягко (deleted_at): удалённый автор скрыт из списков и из книг.
  */
 
 type Author = {
@@ -27,7 +30,7 @@ type Author = {
  */
 
 async function getAll(): Promise<Author[]> {
-  const query: string = 'SELECT * FROM authors';
+  const query: string = 'SELECT * FROM authors WHERE deleted_at IS NULL';
   const { rows } = await pool.query<Author>(query);
 
   return rows;
@@ -43,7 +46,7 @@ async function getAll(): Promise<Author[]> {
  * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
  */
 async function getOneById(authorId: number): Promise<Author> {
-  const query: string = 'SELECT * FROM authors WHERE id = $1;';
+  const query: string = 'SELECT * FROM authors WHERE id = $1 AND deleted_at IS NULL;';
   const value = [authorId];
   const { rows } = await pool.query(query, value);
 
@@ -70,21 +73,37 @@ async function create(authorName: string, authorBio: string): Promise<Author> {
 }
 
 /**
- * Удаляет автора по ID.
+ * Удаляет автора по ID (мягко).
  *
  * @async
  * @function deleteAuthor
  * @param {number} authorId - Уникальный идентификатор автора.
- * @returns {Promise<Object>} Объект удаленного автора.
+ * @returns {Promise<number|null>} ID удаленного автора или null, если автор не найден.
  * @throws {Error} Если произошла ошибка при удалении автора.
  */
 
-async function remove(authorId: number): Promise<number> {
-  const query: string = 'DELETE FROM authors WHERE id = $1  RETURNING *';
+async function remove(authorId: number): Promise<number | null> {
+  const query: string = 'UPDATE authors SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1 AND deleted_at IS NULL RETURNING *';
   const values = [authorId];
   const { rows } = await pool.query<Author>(query, values);
 
-  return rows[0].id;
+  return rows[0]?.id ?? null;
+}
+
+/**
+ * Восстанавливает удалённого автора.
+ *
+ * @async
+ * @function restore
+ * @param {number} authorId - Уникальный идентификатор автора.
+ * @returns {Promise<Author|null>} Восстановленный автор или null, если удалённого автора с таким ID нет.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function restore(authorId: number): Promise<Author | null> {
+  const query: string = 'UPDATE authors SET deleted_at = NULL, updated_at = NOW() WHERE id = $1 AND deleted_at IS NOT NULL RETURNING *';
+  const { rows } = await pool.query<Author>(query, [authorId]);
+
+  return rows[0] ?? null;
 }
 
-export { getAll, getOneById, create, remove };
+export { getAll, getOneById, create, remove, restore };
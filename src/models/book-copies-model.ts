@@ -0,0 +1,141 @@
+import { pool } from '../../db';
+
+/**
+ * @module BookCopiesModel
+ * Модуль для работы с таблицей `book_copies` (физические экземпляры книг) в базе данных.
+ *
+ * Содержит функции для:
+ * - получения всех экземпляров книги,
+ * - получения экземпляра по штрихкоду,
+ * - добавления экземпляра,
+ * - удаления экземпляра по ID.
+ *
+ * Экземпляры удаляются мягко (deleted_at), чтобы займы по ним оставались в истории.
+ */
+
+/**
+ * пользовательский тип, описывающий физический экземпляр книги.
+ *
+ * @typedef {Object} BookCopy
+ * @property {number} id - Уникальный идентификатор экземпляра.
+ * @property {number} book_id - ID книги (издания), к которой относится экземпляр.
+ * @property {string} barcode - Штрихкод экземпляра.
+ * @property {string} condition - Состояние экземпляра.
+ * @property {string|null} shelf_location - Место на полке.
+ * @property {Date} acquired_at - Дата поступления в библиотеку.
+ * @property {boolean} [available] - Свободен ли экземпляр (нет открытого займа).
+ */
+type BookCopy = {
+  id: number;
+  book_id: number;
+  barcode: string;
+  condition: string;
+  shelf_location: string | null;
+  acquired_at: Date;
+  available?: boolean;
+};
+
+type BookCopyCreateDto = {
+  barcode: string;
+  condition?: string;
+  shelfLocation?: string;
+  acquiredAt?: string;
+};
+
+/**
+ * Получает все экземпляры книги вместе со статусом доступности.
+ *
+ * @async
+ * @function getAllByBookId
+ * @param {number} bookId - ID книги.
+ * @returns {Promise<BookCopy[]>} Массив экземпляров.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function getAllByBookId(bookId: number) {
+  const query = `
+    SELECT
+      bc.*,
+      NOT EXISTS (
+        SELECT 1
+        FROM book_loans bl
+        WHERE bl.copy_id = bc.id
+          AND bl.returned_at IS NULL
+      ) AS available
+    FROM book_copies bc
+    WHERE bc.book_id = $1
+      AND bc.deleted_at IS NULL
+    ORDER BY bc.id;
+  `;
+  const result = await pool.query(query, [bookId]);
+
+  return result.rows as BookCopy[];
+}
+
+/**
+ * Получает экземпляр по штрихкоду.
+ *
+ * @async
+ * @function getOneByBarcode
+ * @param {string} barcode - Штрихкод экземпляра.
+ * @returns {Promise<BookCopy|null>} Экземпляр или null, если не найден.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function getOneByBarcode(barcode: string) {
+  const query = 'SELECT * FROM book_copies WHERE barcode = $1 AND deleted_at IS NULL;';
+  const result = await pool.query(query, [barcode]);
+
+  return (result.rows[0] as BookCopy) || null;
+}
+
+/**
+ * Добавляет новый экземпляр книги.
+ *
+ * @async
+ * @function create
+ * @param {number} bookId - ID книги.
+ * @param {BookCopyCreateDto} copy - Данные экземпляра.
+ * @returns {Promise<BookCopy>} Созданный экземпляр.
+ * @throws {Error} Если штрихкод уже занят или произошла ошибка запроса.
+ */
+async function create(bookId: number, copy: BookCopyCreateDto) {
+  const query = `
+    INSERT INTO book_copies (book_id, barcode, condition, shelf_location, acquired_at)
+    VALUES ($1, $2, COALESCE($3, 'good'), $4, COALESCE($5::date, CURRENT_DATE))
+    RETURNING *;
+  `;
+  const values = [bookId, copy.barcode, copy.condition ?? null, copy.shelfLocation ?? null, copy.acquiredAt ?? null];
+  const result = await pool.query(query, values);
+
+  return result.rows[0] as BookCopy;
+}
+
+/**
+ * Удаляет экземпляр по ID (мягко). Экземпляр, который сейчас выдан, не удаляется.
+ *
+ * @async
+ * @function remove
+ * @param {number} copyId - ID экземпляра.
+ * @returns {Promise<BookCopy|null>} Удалённый экземпляр или null, если не найден или выдан.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function remove(copyId: number) {
+  const query = `
+    UPDATE book_copies bc
+    SET deleted_at = NOW(), updated_at = NOW()
+    WHERE bc.id = $1
+      AND bc.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1
+        FROM book_loans bl
+        WHERE bl.copy_id = bc.id
+          AND bl.returned_at IS NULL
+      )
+    RETURNING *;
+  `;
+  const result = await pool.query(query, [copyId]);
+
+  return (result.rows[0] as BookCopy) || null;
+}
+
+export { getAllByBookId, getOneByBarcode, create, remove };
+export type { BookCopy, BookCopyCreateDto };
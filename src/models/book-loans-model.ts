@@ -1,4 +1,7 @@
-import {pool} from '../../db'
+import { PoolClient } from 'pg';
+import {pool, withTransaction} from '../../db'
+import { countFreeCopies, countReadyForOthers, fulfillForUser, promoteInTransaction, Hold } from './holds-model';
+import { accrueForLoan, Fine } from './fines-model';
 
 /**
  * @module BookLoansModel
@@ -8,8 +11,12 @@ import {pool} from '../../db'
  * Содержит функции для:
  * - получения всех записей о займах книг,
  * - получения одного займа по ID,
- * - регистрации выдачи книги пользователю,
- * - регистрации возврата книги.
+ * - получения займов пользователя,
+ * - регистрации выдачи книги пользователю (любой свободный экземпляр или конкретный по штрихкоду)
+ *   с учётом очереди броней,
+ * - регистрации возврата книги,
+ * - продления займа,
+ * - отвязки старых возвращённых займов от читателей по политике хранения.
  */
 
 
@@ -19,18 +26,43 @@ import {pool} from '../../db'
  * @typedef {Object} BookLoan
  * @property {number} id - Уникальный идентификатор займа.
  * @property {number} book_id - ID книги.
- * @property {number} user_id - ID пользователя, который взял книгу.
+ * @property {number} copy_id - ID выданного экземпляра книги.
+ * @property {number|null} user_id - ID пользователя, который взял книгу (null — займ отвязан политикой хранения).
  * @property {Date} taken_at - Дата и время, когда книга была взята.
+ * @property {Date} due_at - Дата и время, до которых книгу нужно вернуть.
  * @property {Date|null} returned_at - Дата и время возврата книги (если книга возвращена).
+ * @property {number} renewals_count - Сколько раз займ уже продлевали.
+ * @property {number|null} checked_out_by - Сотрудник, выдавший книгу за читателя (null — читатель сам).
+ * @property {number|null} returned_by - Сотрудник, принявший возврат за читателя (null — читатель сам).
+ * @property {boolean} [is_overdue] - Книга не возвращена, а срок уже прошёл.
+ * @property {number} [days_overdue] - На сколько дней (с округлением вверх) просрочен открытый займ.
  */
  
 type Loan = {
+  id: number;
   book_id: number;
-  user_id: number;
+  copy_id: number;
+  user_id: number | null;
   taken_at: Date;
-  returned_at: Date;
+  due_at: Date;
+  returned_at: Date | null;
+  renewals_count: number;
+  checked_out_by: number | null;
+  returned_by: number | null;
+  is_overdue?: boolean;
+  days_overdue?: number;
 }
 
+// Колонки займа `bl` вместе с вычисляемым статусом просрочки
+const LOAN_COLUMNS = `
+    bl.*,
+    (bl.returned_at IS NULL AND bl.due_at < NOW()) AS is_overdue,
+    CASE
+      WHEN bl.returned_at IS NULL AND bl.due_at < NOW()
+        THEN CEIL(EXTRACT(EPOCH FROM NOW() - bl.due_at) / 86400)::int
+      ELSE 0
+    END AS days_overdue`;
+
 /**
  * Получает все записи о займах книг из базы данных.
  *
@@ -41,7 +73,7 @@ type Loan = {
  */
 
 async function getAll() {
-  const query: string = 'SELECT * FROM book_loans';
+  const query: string = `SELECT ${LOAN_COLUMNS} FROM book_loans bl ORDER BY bl.id`;
   const result = await pool.query(query);
 
   return result.rows as Loan [];
@@ -54,16 +86,40 @@ async function getAll() {
  * @async
  * @function getOneLoanById
  * @param {number} loanId - Уникальный идентификатор записи займа.
- * @returns {Promise<BookLoan>} Объект с информацией о займе.
- * @throws {Error} Если запись с таким ID не найдена или произошла ошибка в запросе.
+ * @returns {Promise<BookLoan|null>} Объект с информацией о займе или null, если не найден.
+ * @throws {Error} Если произошла ошибка в запросе.
  */
 
 async function getOneLoanById(loanId: number) {
-  const query: string = 'SELECT * FROM book_loans WHERE id = $1;';
+  const query: string = `SELECT ${LOAN_COLUMNS} FROM book_loans bl WHERE bl.id = $1;`;
   const value = [loanId];
   const result = await pool.query(query, value);
 
-  return result.rows[0] as Loan;
+  return (result.rows[0] as Loan) || null;
+}
+
+
+/**
+ * Получает все займы пользователя (текущие и завершённые) с названием книги.
+ *
+ * @async
+ * @function getAllByUserId
+ * @param {number} userId - ID пользователя.
+ * @returns {Promise<BookLoan[]>} Займы пользователя, новые первыми.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+
+async function getAllByUserId(userId: number) {
+  const query: string = `
+    SELECT ${LOAN_COLUMNS}, b.title
+    FROM book_loans bl
+    JOIN books b ON b.id = bl.book_id
+    WHERE bl.user_id = $1
+    ORDER BY bl.taken_at DESC, bl.id DESC;
+  `;
+  const result = await pool.query(query, [userId]);
+
+  return result.rows as (Loan & { title: string })[];
 }
 
 
@@ -90,32 +146,206 @@ async function getOneLoanById(loanId: number) {
 //   return result.rows[0] as Loan;
 // }
 
-async function createLoan(bookId: number, userId: number) {
+/**
+ * Результат попытки выдачи книги.
+ * - ok — займ создан;
+ * - unavailable — нет свободного экземпляра (или запрошенный экземпляр уже выдан);
+ * - reserved — свободные экземпляры есть, но все отложены по броням других пользователей;
+ * - limit — у пользователя уже максимальное число открытых займов.
+ */
+type CheckoutResult =
+  | { status: 'ok'; loan: Loan }
+  | { status: 'unavailable' }
+  | { status: 'reserved' }
+  | { status: 'limit'; limit: number; count: number };
+
+/**
+ * Правила выдачи для конкретного заёмщика.
+ * @property loanDays - срок займа в днях
+ * @property maxOpenLoans - сколько книг заёмщик может держать одновременно
+ */
+type LoanPolicy = {
+  loanDays: number;
+  maxOpenLoans: number;
+};
+
+/**
+ * Правила возврата книги.
+ * @property fineDailyRate - штраф за день просрочки
+ * @property fineMaxAmount - максимальный штраф за займ
+ * @property holdPickupDays - сколько дней отложенный экземпляр ждёт читателя
+ */
+type ReturnPolicy = {
+  fineDailyRate: number;
+  fineMaxAmount: number;
+  holdPickupDays: number;
+};
+
+/**
+ * Результат возврата книги.
+ * @property loan - закрытый займ
+ * @property fine - начисленный штраф (null — просрочки не было)
+ * @property promotedHolds - брони, для которых отложен освободившийся экземпляр
+ */
+type ReturnResult = {
+  loan: Loan;
+  fine: Fine | null;
+  promotedHolds: Hold[];
+};
+
+/**
+ * Итог применения политики хранения (или её пробного прогона).
+ * @property loans - сколько займов отвязано (или было бы отвязано)
+ * @property users - у скольких читателей
+ */
+type RetentionSummary = {
+  loans: number;
+  users: number;
+};
+
+// Займ `bl` читателя `u` подлежит отвязке: возвращён раньше, чем $1 месяцев назад,
+// читатель не просил хранить историю, а по займу нет открытого штрафа
+const RETENTION_CONDITION = `
+    bl.returned_at < NOW() - make_interval(months => $1)
+    AND u.keep_loan_history = false
+    AND NOT EXISTS (SELECT 1 FROM fines f WHERE f.loan_id = bl.id AND f.status = 'open')`;
+
+/**
+ * Выдаёт экземпляр книги внутри транзакции с учётом лимита займов и очереди броней.
+ * Сначала блокируется строка пользователя (параллельные выдачи одному читателю не обойдут лимит),
+ * затем строка книги (выдачи и брони одного издания выполняются последовательно).
+ * Если у пользователя была активная бронь на книгу, она закрывается как выполненная.
+ *
+ * @param client - клиент транзакции
+ * @param bookId - ID книги
+ * @param userId - ID пользователя
+ * @param policy - правила выдачи для заёмщика
+ * @param staffId - ID сотрудника, оформляющего выдачу за читателя (null — читатель сам)
+ * @param copyId - ID конкретного экземпляра (если не указан — любой свободный)
+ */
+async function checkoutInTransaction(
+  client: PoolClient,
+  bookId: number,
+  userId: number,
+  policy: LoanPolicy,
+  staffId: number | null,
+  copyId: number | null,
+): Promise<CheckoutResult> {
+  await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE;', [userId]);
+
+  const openLoans = await client.query(
+    'SELECT COUNT(*)::int AS count FROM book_loans WHERE user_id = $1 AND returned_at IS NULL;',
+    [userId],
+  );
+  const openLoansCount: number = openLoans.rows[0].count;
+
+  if (openLoansCount >= policy.maxOpenLoans) {
+    return { status: 'limit', limit: policy.maxOpenLoans, count: openLoansCount };
+  }
+
+  const book = await client.query('SELECT id FROM books WHERE id = $1 AND deleted_at IS NULL FOR UPDATE;', [bookId]);
+
+  if (book.rowCount === 0) {
+    return { status: 'unavailable' };
+  }
+
+  const freeCopies = await countFreeCopies(client, bookId);
+  const reservedForOthers = await countReadyForOthers(client, bookId, userId);
+
+  if (freeCopies === 0) {
+    return { status: 'unavailable' };
+  }
+
+  if (freeCopies - reservedForOthers <= 0) {
+    return { status: 'reserved' };
+  }
+
   const query = `
-    INSERT INTO book_loans (book_id, user_id, taken_at)
-    SELECT $1, $2, NOW()
-    WHERE NOT EXISTS (
-      SELECT 1 FROM book_loans
-      WHERE book_id = $1
-      AND returned_at IS NULL
-    )
+    INSERT INTO book_loans (book_id, copy_id, user_id, taken_at, due_at, checked_out_by)
+    SELECT bc.book_id, bc.id, $3, NOW(), NOW() + make_interval(days => $4), $5
+    FROM book_copies bc
+    WHERE bc.book_id = $1
+      AND bc.deleted_at IS NULL
+      AND ($2::int IS NULL OR bc.id = $2)
+      AND NOT EXISTS (
+        SELECT 1 FROM book_loans bl
+        WHERE bl.copy_id = bc.id
+          AND bl.returned_at IS NULL
+      )
+    ORDER BY bc.id
+    LIMIT 1
     RETURNING *;
   `;
+  const result = await client.query(query, [bookId, copyId, userId, policy.loanDays, staffId]);
 
-  const result = await pool.query(query, [bookId, userId]);
-  return result.rows[0] || null;
+  if (result.rowCount === 0) {
+    return { status: 'unavailable' };
+  }
+
+  await fulfillForUser(client, bookId, userId);
+
+  return { status: 'ok', loan: result.rows[0] as Loan };
 }
 
+/**
+ * Выдаёт пользователю любой свободный экземпляр книги.
+ *
+ * @async
+ * @function createLoan
+ * @param {number} bookId - ID книги (издания).
+ * @param {number} userId - ID пользователя.
+ * @param {LoanPolicy} policy - Правила выдачи для заёмщика.
+ * @param {number|null} staffId - ID сотрудника, оформляющего выдачу за читателя (null — читатель сам).
+ * @returns {Promise<CheckoutResult>} Созданный займ или причина отказа.
+ * @throws {Error} Если произошла ошибка при добавлении записи.
+ */
+async function createLoan(bookId: number, userId: number, policy: LoanPolicy, staffId: number | null) {
+  return withTransaction((client) => checkoutInTransaction(client, bookId, userId, policy, staffId, null));
+}
 
 /**
- * Регистрирует возврат книги пользователем (обновляет запись займа).
+ * Выдаёт пользователю конкретный экземпляр по штрихкоду.
  *
  * @async
- * @function turnBackBook
+ * @function createLoanByBarcode
+ * @param {string} barcode - Штрихкод экземпляра.
+ * @param {number} userId - ID пользователя.
+ * @param {LoanPolicy} policy - Правила выдачи для заёмщика.
+ * @param {number|null} staffId - ID сотрудника, оформляющего выдачу за читателя (null — читатель сам).
+ * @returns {Promise<CheckoutResult>} Созданный займ или причина отказа.
+ * @throws {Error} Если произошла ошибка при добавлении записи.
+ */
+async function createLoanByBarcode(
+  barcode: string,
+  userId: number,
+  policy: LoanPolicy,
+  staffId: number | null,
+): Promise<CheckoutResult> {
+  return withTransaction(async (client) => {
+    const copy = await client.query('SELECT id, book_id FROM book_copies WHERE barcode = $1 AND deleted_at IS NULL;', [barcode]);
+
+    if (copy.rowCount === 0) {
+      return { status: 'unavailable' };
+    }
+
+    return checkoutInTransaction(client, copy.rows[0].book_id, userId, policy, staffId, copy.rows[0].id);
+  });
+}
+
+
+/**
+ * Регистрирует возврат книги пользователем в одной транзакции: закрывает займ,
+ * начисляет штраф за просрочку и откладывает освободившийся экземпляр для следующего в очереди броней.
+ * Если любой шаг завершится ошибкой, займ останется открытым и возврат можно повторить.
+ *
+ * @async
+ * @function closeLoan
  * @param {number} bookId - ID книги, которую возвращают.
  * @param {number} userId - ID пользователя, который возвращает книгу.
- * @returns {Promise<BookLoan>} Обновлённая запись займа с датой возврата.
- * @throws {Error} Если запись не найдена или книга уже была возвращена.
+ * @param {number|null} staffId - ID сотрудника, принимающего возврат за читателя (null — читатель сам).
+ * @param {ReturnPolicy} policy - Ставки штрафа и срок ожидания отложенного экземпляра.
+ * @returns {Promise<ReturnResult|null>} Закрытый займ, штраф и отложенные брони или null, если открытого займа нет.
+ * @throws {Error} Если произошла ошибка в запросе.
  */
 //old
 // async function turnBackBook(bookId: number, userId: number) {
@@ -133,18 +363,159 @@ async function createLoan(bookId: number, userId: number) {
 
 //new
 
-async function closeLoan(bookId: number, userId: number) {
+async function closeLoan(
+  bookId: number,
+  userId: number,
+  staffId: number | null,
+  policy: ReturnPolicy,
+): Promise<ReturnResult | null> {
+  return withTransaction(async (client) => {
+    // очередь броней книги меняется только под блокировкой её строки (как при выдаче)
+    await client.query('SELECT id FROM books WHERE id = $1 FOR UPDATE;', [bookId]);
+
+    const loan = await closeLoanInTransaction(client, bookId, userId, staffId);
+
+    if (!loan) {
+      return null;
+    }
+
+    const fine = await accrueForLoan(loan.id, policy.fineDailyRate, policy.fineMaxAmount, client);
+    const promotedHolds = await promoteInTransaction(client, loan.book_id, policy.holdPickupDays);
+
+    return { loan, fine, promotedHolds };
+  });
+}
+
+/**
+ * Закрывает самый старый открытый займ читателя по книге.
+ * @param client - клиент транзакции
+ * @param bookId - ID книги
+ * @param userId - ID читателя
+ * @param staffId - ID сотрудника, принимающего возврат (null — читатель сам)
+ */
+async function closeLoanInTransaction(client: PoolClient, bookId: number, userId: number, staffId: number | null) {
   const query = `
     UPDATE book_loans
-    SET returned_at = NOW()
-    WHERE book_id = $1
-      AND user_id = $2
+    SET returned_at = NOW(),
+        returned_by = $3
+    WHERE id = (
+      -- у читателя может быть несколько экземпляров одной книги: закрываем самый старый займ
+      SELECT id
+      FROM book_loans
+      WHERE book_id = $1
+        AND user_id = $2
+        AND returned_at IS NULL
+      ORDER BY taken_at, id
+      LIMIT 1
+    )
       AND returned_at IS NULL
     RETURNING *;
   `;
 
-  const result = await pool.query(query, [bookId, userId]);
-  return result.rows[0] || null;
-};
+  const result = await client.query(query, [bookId, userId, staffId]);
+  return (result.rows[0] as Loan) || null;
+}
 
-export { getAll, getOneLoanById, createLoan, closeLoan };
+
+/**
+ * Продлевает открытый займ: сдвигает срок возврата и увеличивает счётчик продлений.
+ * Новый срок отсчитывается от текущего срока возврата, а если он уже прошёл — от текущего момента.
+ *
+ * @async
+ * @function renewLoan
+ * @param {number} loanId - ID займа.
+ * @param {number} extendDays - На сколько дней продлить займ.
+ * @param {number} maxRenewals - Максимальное число продлений.
+ * @returns {Promise<Loan|null>} Обновлённый займ или null, если займ закрыт или лимит продлений исчерпан.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function renewLoan(loanId: number, extendDays: number, maxRenewals: number) {
+  const query = `
+    UPDATE book_loans
+    SET due_at = GREATEST(due_at, NOW()) + make_interval(days => $2),
+        renewals_count = renewals_count + 1
+    WHERE id = $1
+      AND returned_at IS NULL
+      AND renewals_count < $3
+    RETURNING *;
+  `;
+
+  const result = await pool.query(query, [loanId, extendDays, maxRenewals]);
+  return (result.rows[0] as Loan) || null;
+}
+
+/**
+ * Считает займы, которые политика хранения отвязала бы от читателей (пробный прогон).
+ *
+ * @async
+ * @function countRetentionCandidates
+ * @param {number} retentionMonths - Сколько месяцев после возврата займ хранится вместе с читателем.
+ * @returns {Promise<RetentionSummary>} Сколько займов и у скольких читателей было бы отвязано.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function countRetentionCandidates(retentionMonths: number): Promise<RetentionSummary> {
+  const query = `
+    SELECT COUNT(*)::int AS loans, COUNT(DISTINCT bl.user_id)::int AS users
+    FROM book_loans bl
+    JOIN users u ON u.id = bl.user_id
+    WHERE ${RETENTION_CONDITION};
+  `;
+  const { rows } = await pool.query<RetentionSummary>(query, [retentionMonths]);
+  return rows[0];
+}
+
+/**
+ * Отвязывает от читателей старые возвращённые займы (user_id = NULL). Книга, экземпляр и даты
+ * займа остаются, а число отвязанных займов прибавляется к users.unlinked_loans_count,
+ * чтобы статистика по читателям не менялась. Закрытые штрафы по этим займам отвязываются
+ * тоже: иначе через fines.user_id и fines.loan_id займ по-прежнему указывал бы на читателя.
+ *
+ * @async
+ * @function unlinkRetentionCandidates
+ * @param {number} retentionMonths - Сколько месяцев после возврата займ хранится вместе с читателем.
+ * @returns {Promise<RetentionSummary>} Сколько займов и у скольких читателей отвязано.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function unlinkRetentionCandidates(retentionMonths: number): Promise<RetentionSummary> {
+  // одним запросом: отвязка займов, их штрафов и пополнение счётчиков происходят атомарно
+  const query = `
+    WITH unlinked AS (
+      UPDATE book_loans bl
+      SET user_id = NULL
+      FROM users u
+      WHERE u.id = bl.user_id
+        AND ${RETENTION_CONDITION}
+      RETURNING bl.id AS loan_id, u.id AS user_id
+    ), unlinked_fines AS (
+      UPDATE fines
+      SET user_id = NULL, updated_at = NOW()
+      WHERE loan_id IN (SELECT loan_id FROM unlinked)
+    ), counts AS (
+      SELECT user_id, COUNT(*)::int AS loans FROM unlinked GROUP BY user_id
+    )
+    UPDATE users u
+    SET unlinked_loans_count = u.unlinked_loans_count + c.loans
+    FROM counts c
+    WHERE u.id = c.user_id
+    RETURNING c.loans;
+  `;
+  const { rows } = await pool.query<{ loans: number }>(query, [retentionMonths]);
+
+  return {
+    loans: rows.reduce((sum, row) => sum + row.loans, 0),
+    users: rows.length,
+  };
+}
+
+export {
+  getAll,
+  getOneLoanById,
+  getAllByUserId,
+  createLoan,
+  createLoanByBarcode,
+  closeLoan,
+  renewLoan,
+  countRetentionCandidates,
+  unlinkRetentionCandidates,
+};
+export type { Loan, CheckoutResult, LoanPolicy, ReturnPolicy, ReturnResult, RetentionSummary };
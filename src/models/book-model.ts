@@ -1,4 +1,4 @@
-import {pool} from '../../db'
+import {pool, withTransaction} from '../../db'
 
 /**
  * @module BookModel
@@ -11,7 +11,11 @@ import {pool} from '../../db'
  * - получение одной книги с автором по ID,
  * - создание книг,
  * - удаление книги по ID,
+ * - восстановление удалённой книги,
  * - обновление статуса доступности книги по ID
+ *
+ * Книги удаляются мягко (deleted_at): удалённая книга пропадает из каталога,
+ * но займы по ней остаются в истории и статистике.
  */
 
 
@@ -24,6 +28,9 @@ import {pool} from '../../db'
  * @property {string} description - описание книги.
  * @property {Date} created_at - дата и время создания книги.
  * @property {Date} updated_at - дата и время последнего обновления.
+ * @property {Date|null} [deleted_at] - когда книга удалена (null — не удалена).
+ * @property {number} [copies_total] - общее число экземпляров книги.
+ * @property {number} [copies_available] - число экземпляров, которые сейчас не выданы.
  */
 
 type Book = {
@@ -32,8 +39,37 @@ type Book = {
   description: string;
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date | null;
+  copies_total?: number;
+  copies_available?: number;
 };
 
+type RemoveBookResult =
+  | { status: 'ok'; book: Book }
+  | { status: 'not_found' }
+  | { status: 'has_open_loans' };
+
+// Колонки с количеством экземпляров книги `b`, общие для всех запросов со статусом доступности
+const COPIES_STATUS_COLUMNS = `
+      (
+        SELECT COUNT(*)
+        FROM book_copies bc
+        WHERE bc.book_id = b.id
+          AND bc.deleted_at IS NULL
+      )::int AS copies_total,
+      (
+        SELECT COUNT(*)
+        FROM book_copies bc
+        WHERE bc.book_id = b.id
+          AND bc.deleted_at IS NULL
+          AND NOT EXISTS (
+            SELECT 1
+            FROM book_loans bl
+            WHERE bl.copy_id = bc.id
+              AND bl.returned_at IS NULL
+          )
+      )::int AS copies_available`;
+
 /**
  * Получает все книги из базы данных.
  * 
@@ -53,14 +89,9 @@ type Book = {
 async function getAllBooksWithStatus() {
   const result = await pool.query(`
     SELECT 
-      b.*,
-      NOT EXISTS (
-        SELECT 1
-        FROM book_loans bl
-        WHERE bl.book_id = b.id
-        AND bl.returned_at IS NULL
-      ) AS available
+      b.*,${COPIES_STATUS_COLUMNS}
     FROM books b
+    WHERE b.deleted_at IS NULL
   `);
 
   return result.rows as Book[];
@@ -80,13 +111,7 @@ async function getAllWithAuthors() {
     SELECT 
       b.id AS book_id,
       b.title,
-      b.description,
-      NOT EXISTS (
-        SELECT 1
-        FROM book_loans bl
-        WHERE bl.book_id = b.id
-          AND bl.returned_at IS NULL
-      ) AS available,
+      b.description,${COPIES_STATUS_COLUMNS},
       json_agg(
         DISTINCT jsonb_build_object(
           'id', a.id,
@@ -96,7 +121,8 @@ async function getAllWithAuthors() {
       ) FILTER (WHERE a.id IS NOT NULL) AS authors
     FROM books b
     LEFT JOIN books_authors ba ON b.id = ba.book_id
-    LEFT JOIN authors a ON ba.author_id = a.id
+    LEFT JOIN authors a ON ba.author_id = a.id AND a.deleted_at IS NULL
+    WHERE b.deleted_at IS NULL
     GROUP BY b.id;
   `;
 
@@ -120,24 +146,19 @@ async function getOneWithAuthorById(bookId: number) {
     SELECT 
       b.id AS book_id,
       b.title,
-      b.description,
-      NOT EXISTS (
-        SELECT 1
-        FROM book_loans bl
-        WHERE bl.book_id = b.id
-          AND bl.returned_at IS NULL
-      ) AS available,
+      b.description,${COPIES_STATUS_COLUMNS},
       json_agg(
         json_build_object(
           'id', a.id,
           'name', a.name,
           'bio', a.bio
         )
-      ) AS authors
+      ) FILTER (WHERE a.id IS NOT NULL) AS authors
     FROM books b
     LEFT JOIN books_authors ba ON b.id = ba.book_id
-    LEFT JOIN authors a ON ba.author_id = a.id
+    LEFT JOIN authors a ON ba.author_id = a.id AND a.deleted_at IS NULL
     WHERE b.id = $1
+      AND b.deleted_at IS NULL
     GROUP BY b.id;
   `;
 
@@ -147,30 +168,25 @@ async function getOneWithAuthorById(bookId: number) {
 
 
 /**
- * Получает одну запись о займе книги по её ID.
+ * Получает одну книгу по её ID вместе с количеством всех и свободных экземпляров.
  *
  * @async
  * @function getOneById
  * @param {number} bookId - Уникальный идентификатор книги.
- * @returns {Promise<Book[]>} Объект с информацией о названии книги.
+ * @returns {Promise<Book|null>} Объект с информацией о книге.
  * @throws {Error} Если запись с таким ID не найдена или произошла ошибка в запросе.
  */
 async function getOneById(bookId: number) {
   const query = `
     SELECT 
-      b.*,
-      NOT EXISTS (
-        SELECT 1
-        FROM book_loans bl
-        WHERE bl.book_id = b.id
-          AND bl.returned_at IS NULL
-      ) AS available
+      b.*,${COPIES_STATUS_COLUMNS}
     FROM books b
-    WHERE b.id = $1;
+    WHERE b.id = $1
+      AND b.deleted_at IS NULL;
   `;
 
   const result = await pool.query(query, [bookId]);
-  return result.rows[0] || null;
+  return (result.rows[0] as Book) || null;
 }
 
 
@@ -198,21 +214,89 @@ async function create(bookTitle: string, bookDescription: string) {
 
 
 /**
- * Удаляет одну книгу по ID.
+ * Удаляет одну книгу по ID (мягко) вместе с её экземплярами и отменяет активные брони на неё.
+ * Пока экземпляры книги выданы, удалить её нельзя.
  *
  * @async
  * @function remove
  * @param {number} bookId - ID книги.
- * @returns {Promise<Book|null>} Объект удалённой книги или null, если не найдена.
- * @throws {Error} Если произошла ошибка при создании книги.
+ * @returns {Promise<RemoveBookResult>} Удалённая книга, `not_found` или `has_open_loans`.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
  */
 
-async function remove(bookId: number) {
-  const query = 'DELETE FROM books WHERE id = $1  RETURNING *';
-  const values = [bookId];
-  const result = await pool.query(query, values);
+async function remove(bookId: number): Promise<RemoveBookResult> {
+  return withTransaction(async (client) => {
+    // та же блокировка, что и при выдаче: параллельная выдача дождётся удаления и не найдёт книгу
+    const locked = await client.query('SELECT id FROM books WHERE id = $1 AND deleted_at IS NULL FOR UPDATE;', [bookId]);
+
+    if (locked.rowCount === 0) {
+      return { status: 'not_found' };
+    }
+
+    const openLoans = await client.query(
+      'SELECT 1 FROM book_loans WHERE book_id = $1 AND returned_at IS NULL LIMIT 1;',
+      [bookId],
+    );
+
+    if (openLoans.rowCount) {
+      return { status: 'has_open_loans' };
+    }
+
+    const { rows } = await client.query<Book>(
+      'UPDATE books SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1 RETURNING *;',
+      [bookId],
+    );
+    const book = rows[0];
+
+    // экземпляры помечаем тем же временем, чтобы при восстановлении вернуть только их
+    await client.query(
+      `UPDATE book_copies
+       SET deleted_at = (SELECT deleted_at FROM books WHERE id = $1), updated_at = NOW()
+       WHERE book_id = $1 AND deleted_at IS NULL;`,
+      [bookId],
+    );
+    await client.query(
+      `UPDATE holds SET status = 'cancelled', closed_at = NOW() WHERE book_id = $1 AND status IN ('waiting', 'ready');`,
+      [bookId],
+    );
+
+    return { status: 'ok', book };
+  });
+}
 
-  return result.rows[0] as Book;
+
+/**
+ * Восстанавливает удалённую книгу вместе с экземплярами, удалёнными вместе с ней.
+ *
+ * @async
+ * @function restore
+ * @param {number} bookId - ID книги.
+ * @returns {Promise<Book|null>} Восстановленная книга или null, если удалённой книги с таким ID нет.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function restore(bookId: number): Promise<Book | null> {
+  return withTransaction(async (client) => {
+    const deleted = await client.query('SELECT id FROM books WHERE id = $1 AND deleted_at IS NOT NULL FOR UPDATE;', [bookId]);
+
+    if (deleted.rowCount === 0) {
+      return null;
+    }
+
+    await client.query(
+      `UPDATE book_copies bc
+       SET deleted_at = NULL, updated_at = NOW()
+       FROM books b
+       WHERE b.id = $1 AND bc.book_id = b.id AND bc.deleted_at = b.deleted_at;`,
+      [bookId],
+    );
+
+    const { rows } = await client.query<Book>(
+      'UPDATE books SET deleted_at = NULL, updated_at = NOW() WHERE id = $1 RETURNING *;',
+      [bookId],
+    );
+
+    return rows[0];
+  });
 }
 
 
@@ -258,4 +342,6 @@ export {
   getOneWithAuthorById,
   create,
   remove,
+  restore,
 };
+export type { Book, RemoveBookResult };
@@ -0,0 +1,114 @@
+import { pool, withTransaction } from '../../db';
+import { hashToken } from '../utils/crypto-utils';
+
+/**
+ * @module EmailVerificationModel
+ * Модуль для работы с таблицей `email_verification_tokens`.
+ *
+ * Токен подтверждает конкретный адрес: если пользователь успел сменить email,
+ * старая ссылка уже не подтвердит новый адрес. В базе хранится только хэш токена.
+ *
+ * Содержит функции для:
+ * - выпуска токена подтверждения,
+ * - подтверждения email по токену,
+ * - проверки, когда письмо отправлялось последний раз.
+ */
+
+/**
+ * пользовательский тип, описывающий токен подтверждения email.
+ *
+ * @typedef {Object} EmailVerificationToken
+ * @property {number} id - Уникальный идентификатор записи.
+ * @property {number} user_id - ID пользователя.
+ * @property {string} email - Подтверждаемый адрес.
+ * @property {Date} expires_at - До какого момента токен действует.
+ * @property {Date|null} used_at - Когда токен использован.
+ * @property {Date} created_at - Когда токен выпущен (и отправлено письмо).
+ */
+type EmailVerificationToken = {
+  id: number;
+  user_id: number;
+  email: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+};
+
+type VerifyEmailResult =
+  | { status: 'ok'; userId: number; email: string }
+  | { status: 'invalid' }
+  | { status: 'email_changed' };
+
+/**
+ * Выпускает токен подтверждения адреса, удаляя прежние токены пользователя.
+ * @param {number} userId - ID пользователя
+ * @param {string} email - подтверждаемый адрес
+ * @param {string} token - сам токен (в базу попадёт только хэш)
+ * @param {number} ttlHours - срок действия в часах
+ */
+async function createToken(userId: number, email: string, token: string, ttlHours: number): Promise<EmailVerificationToken> {
+  return withTransaction(async (client) => {
+    await client.query('DELETE FROM email_verification_tokens WHERE user_id = $1', [userId]);
+
+    const query = `
+      INSERT INTO email_verification_tokens (user_id, email, token_hash, expires_at)
+      VALUES ($1, $2, $3, NOW() + make_interval(hours => $4))
+      RETURNING id, user_id, email, expires_at, used_at, created_at;
+    `;
+    const { rows } = await client.query<EmailVerificationToken>(query, [userId, email, hashToken(token), ttlHours]);
+    return rows[0];
+  });
+}
+
+/**
+ * Гасит токен и отмечает email пользователя подтверждённым.
+ * @param {string} token - токен из письма
+ * @returns {Promise<VerifyEmailResult>} Результат подтверждения:
+ * `invalid` — токен неизвестен, истёк или уже использован;
+ * `email_changed` — с момента отправки письма пользователь сменил адрес.
+ */
+async function verifyEmail(token: string): Promise<VerifyEmailResult> {
+  return withTransaction(async (client) => {
+    const consumeQuery = `
+      UPDATE email_verification_tokens
+      SET used_at = NOW()
+      WHERE token_hash = $1
+        AND used_at IS NULL
+        AND expires_at > NOW()
+      RETURNING user_id, email;
+    `;
+    const consumed = await client.query<{ user_id: number; email: string }>(consumeQuery, [hashToken(token)]);
+
+    if (consumed.rows.length === 0) {
+      return { status: 'invalid' };
+    }
+
+    const { user_id: userId, email } = consumed.rows[0];
+    const verified = await client.query(
+      `UPDATE users
+       SET email_verified_at = COALESCE(email_verified_at, NOW())
+       WHERE id = $1 AND LOWER(email) = LOWER($2)`,
+      [userId, email],
+    );
+
+    if (verified.rowCount === 0) {
+      return { status: 'email_changed' };
+    }
+
+    return { status: 'ok', userId, email };
+  });
+}
+
+/**
+ * Возвращает момент отправки последнего письма подтверждения пользователю.
+ * @param {number} userId - ID пользователя
+ * @returns {Promise<Date|null>} Дата или null, если писем не было.
+ */
+async function getLastSentAt(userId: number): Promise<Date | null> {
+  const query = 'SELECT MAX(created_at) AS last_sent_at FROM email_verification_tokens WHERE user_id = $1';
+  const { rows } = await pool.query<{ last_sent_at: Date | null }>(query, [userId]);
+  return rows[0].last_sent_at;
+}
+
+export { createToken, verifyEmail, getLastSentAt };
+export type { EmailVerificationToken, VerifyEmailResult };
@@ -0,0 +1,239 @@
+import { PoolClient } from 'pg';
+import { pool, withTransaction } from '../../db';
+
+/**
+ * @module FinesModel
+ * Модуль для работы с таблицами `fines` (штрафы за просрочку) и `fine_payments` (платежи по штрафам).
+ *
+ * Суммы хранятся в NUMERIC, поэтому драйвер pg возвращает их строками.
+ *
+ * Содержит функции для:
+ * - начисления штрафа за просроченный займ,
+ * - получения штрафов пользователя и одного штрафа по ID,
+ * - внесения (частичной) оплаты,
+ * - списания штрафа,
+ * - подсчёта непогашенной задолженности пользователя.
+ */
+
+type FineStatus = 'open' | 'paid' | 'waived';
+
+/**
+ * пользовательский тип, описывающий штраф.
+ *
+ * @typedef {Object} Fine
+ * @property {number} id - Уникальный идентификатор штрафа.
+ * @property {number} loan_id - ID займа, за просрочку которого начислен штраф.
+ * @property {number|null} user_id - ID пользователя (null — штраф отвязан вместе с займом политикой хранения).
+ * @property {number} days_overdue - На сколько дней была просрочена книга.
+ * @property {string} amount - Сумма штрафа.
+ * @property {string} paid_amount - Уже оплаченная сумма.
+ * @property {string} [balance] - Остаток к оплате.
+ * @property {FineStatus} status - Статус штрафа.
+ * @property {number|null} waived_by - ID администратора, списавшего штраф.
+ * @property {Date|null} waived_at - Когда штраф списан.
+ * @property {string|null} waive_reason - Причина списания.
+ */
+type Fine = {
+  id: number;
+  loan_id: number;
+  user_id: number | null;
+  days_overdue: number;
+  amount: string;
+  paid_amount: string;
+  balance?: string;
+  status: FineStatus;
+  waived_by: number | null;
+  waived_at: Date | null;
+  waive_reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+type FinePayment = {
+  id: number;
+  fine_id: number;
+  amount: string;
+  received_by: number | null;
+  paid_at: Date;
+};
+
+type PaymentResult =
+  | { status: 'ok'; fine: Fine; payment: FinePayment }
+  | { status: 'not_found' }
+  | { status: 'closed' }
+  | { status: 'overpayment'; balance: string };
+
+// Колонки штрафа `f` вместе с остатком к оплате
+const FINE_COLUMNS = `f.*, (f.amount - f.paid_amount)::numeric(10, 2) AS balance`;
+
+/**
+ * Начисляет штраф за займ, если книга возвращена позже срока.
+ * Сумма — число дней просрочки (с округлением вверх), умноженное на дневную ставку, но не больше лимита.
+ * Повторный вызов для того же займа ничего не делает.
+ *
+ * @async
+ * @function accrueForLoan
+ * @param {number} loanId - ID закрытого займа.
+ * @param {number} dailyRate - Штраф за день просрочки.
+ * @param {number} maxAmount - Максимальный штраф за займ.
+ * @param {PoolClient} [db] - Клиент транзакции, если начисление — часть возврата книги.
+ * @returns {Promise<Fine|null>} Начисленный штраф или null, если просрочки не было.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function accrueForLoan(loanId: number, dailyRate: number, maxAmount: number, db: PoolClient | typeof pool = pool) {
+  const query = `
+    WITH overdue AS (
+      SELECT id, user_id, CEIL(EXTRACT(EPOCH FROM returned_at - due_at) / 86400)::int AS days
+      FROM book_loans
+      WHERE id = $1
+        AND returned_at > due_at
+    )
+    INSERT INTO fines (loan_id, user_id, days_overdue, amount)
+    SELECT id, user_id, days, LEAST(days * $2::numeric, $3::numeric)
+    FROM overdue
+    WHERE days * $2::numeric > 0
+    ON CONFLICT (loan_id) DO NOTHING
+    RETURNING *;
+  `;
+  const result = await db.query(query, [loanId, dailyRate, maxAmount]);
+
+  return (result.rows[0] as Fine) || null;
+}
+
+/**
+ * Получает все штрафы пользователя с остатком к оплате.
+ *
+ * @async
+ * @function getAllByUserId
+ * @param {number} userId - ID пользователя.
+ * @returns {Promise<Fine[]>} Штрафы пользователя, новые первыми.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function getAllByUserId(userId: number) {
+  const query = `SELECT ${FINE_COLUMNS} FROM fines f WHERE f.user_id = $1 ORDER BY f.created_at DESC, f.id DESC;`;
+  const result = await pool.query(query, [userId]);
+
+  return result.rows as Fine[];
+}
+
+/**
+ * Получает штраф по ID.
+ *
+ * @async
+ * @function getOneById
+ * @param {number} fineId - ID штрафа.
+ * @returns {Promise<Fine|null>} Штраф или null, если не найден.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function getOneById(fineId: number) {
+  const query = `SELECT ${FINE_COLUMNS} FROM fines f WHERE f.id = $1;`;
+  const result = await pool.query(query, [fineId]);
+
+  return (result.rows[0] as Fine) || null;
+}
+
+/**
+ * Вносит оплату по штрафу. Разрешены частичные платежи; когда остаток становится
+ * нулевым, штраф переходит в статус `paid`. Платёж больше остатка не принимается.
+ *
+ * @async
+ * @function addPayment
+ * @param {number} fineId - ID штрафа.
+ * @param {number} amount - Сумма платежа.
+ * @param {number} receivedBy - ID пользователя, зарегистрировавшего платёж.
+ * @returns {Promise<PaymentResult>} Обновлённый штраф с платежом или причина отказа.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function addPayment(fineId: number, amount: number, receivedBy: number): Promise<PaymentResult> {
+  return withTransaction(async (client) => {
+    const current = await client.query(`SELECT ${FINE_COLUMNS} FROM fines f WHERE f.id = $1 FOR UPDATE;`, [fineId]);
+    const fine = current.rows[0] as Fine | undefined;
+
+    if (!fine) {
+      return { status: 'not_found' };
+    }
+
+    if (fine.status !== 'open') {
+      return { status: 'closed' };
+    }
+
+    if (amount > Number(fine.balance)) {
+      return { status: 'overpayment', balance: fine.balance! };
+    }
+
+    const paymentResult = await client.query(
+      'INSERT INTO fine_payments (fine_id, amount, received_by) VALUES ($1, $2, $3) RETURNING *;',
+      [fineId, amount, receivedBy],
+    );
+
+    const fineResult = await client.query(
+      `
+      UPDATE fines f
+      SET paid_amount = paid_amount + $2,
+          status = CASE WHEN paid_amount + $2 >= amount THEN 'paid' ELSE 'open' END,
+          updated_at = NOW()
+      WHERE f.id = $1
+      RETURNING ${FINE_COLUMNS};
+      `,
+      [fineId, amount],
+    );
+
+    return {
+      status: 'ok',
+      fine: fineResult.rows[0] as Fine,
+      payment: paymentResult.rows[0] as FinePayment,
+    };
+  });
+}
+
+/**
+ * Списывает открытый штраф.
+ *
+ * @async
+ * @function waive
+ * @param {number} fineId - ID штрафа.
+ * @param {number} adminId - ID администратора.
+ * @param {string|null} reason - Причина списания.
+ * @returns {Promise<Fine|null>} Списанный штраф или null, если штраф не найден или уже закрыт.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function waive(fineId: number, adminId: number, reason: string | null) {
+  const query = `
+    UPDATE fines f
+    SET status = 'waived',
+        waived_by = $2,
+        waived_at = NOW(),
+        waive_reason = $3,
+        updated_at = NOW()
+    WHERE f.id = $1
+      AND f.status = 'open'
+    RETURNING ${FINE_COLUMNS};
+  `;
+  const result = await pool.query(query, [fineId, adminId, reason]);
+
+  return (result.rows[0] as Fine) || null;
+}
+
+/**
+ * Считает непогашенную задолженность пользователя по открытым штрафам.
+ *
+ * @async
+ * @function getOutstandingBalance
+ * @param {number} userId - ID пользователя.
+ * @returns {Promise<number>} Сумма задолженности.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function getOutstandingBalance(userId: number) {
+  const query = `
+    SELECT COALESCE(SUM(amount - paid_amount), 0) AS balance
+    FROM fines
+    WHERE user_id = $1
+      AND status = 'open';
+  `;
+  const result = await pool.query(query, [userId]);
+
+  return Number(result.rows[0].balance);
+}
+
+export { accrueForLoan, getAllByUserId, getOneById, addPayment, waive, getOutstandingBalance };
+export type { Fine, FinePayment, FineStatus, PaymentResult };
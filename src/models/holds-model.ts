@@ -0,0 +1,360 @@
+import { PoolClient } from 'pg';
+import { pool, withTransaction } from '../../db';
+
+/**
+ * @module HoldsModel
+ * Модуль для работы с таблицей `holds` (очередь броней на книги) в базе данных.
+ *
+ * Очередь работает по принципу FIFO: когда освобождается экземпляр, самая старая
+ * бронь в статусе `waiting` переходит в `ready` и держит экземпляр до `expires_at`.
+ * Просроченные брони переходят в `expired`, а экземпляр достаётся следующему в очереди.
+ *
+ * Содержит функции для:
+ * - получения брони по ID,
+ * - получения броней пользователя с позицией в очереди,
+ * - создания брони,
+ * - отмены брони,
+ * - продвижения очереди и истечения броней,
+ * - вспомогательных проверок для выдачи и продления займов.
+ */
+
+type HoldStatus = 'waiting' | 'ready' | 'fulfilled' | 'cancelled' | 'expired';
+
+/**
+ * пользовательский тип, описывающий бронь книги.
+ *
+ * @typedef {Object} Hold
+ * @property {number} id - Уникальный идентификатор брони.
+ * @property {number} book_id - ID книги.
+ * @property {number} user_id - ID пользователя.
+ * @property {HoldStatus} status - Статус брони.
+ * @property {Date} created_at - Когда бронь поставлена в очередь.
+ * @property {Date|null} ready_at - Когда для брони отложили экземпляр.
+ * @property {Date|null} expires_at - До какого момента отложенный экземпляр ждёт читателя.
+ * @property {Date|null} closed_at - Когда бронь закрыта (выдана, отменена, истекла).
+ * @property {number|null} [queue_position] - Позиция в очереди (только для `waiting`).
+ * @property {string} [title] - Название книги.
+ */
+type Hold = {
+  id: number;
+  book_id: number;
+  user_id: number;
+  status: HoldStatus;
+  created_at: Date;
+  ready_at: Date | null;
+  expires_at: Date | null;
+  closed_at: Date | null;
+  queue_position?: number | null;
+  title?: string;
+};
+
+type CreateHoldResult =
+  | { status: 'ok'; hold: Hold }
+  | { status: 'available' }
+  | { status: 'already_borrowed' }
+  | { status: 'duplicate' };
+
+// Бронь активна, пока ждёт экземпляр или держит отложенный
+const ACTIVE_STATUSES = `('waiting', 'ready')`;
+
+/**
+ * Считает, сколько экземпляров книги сейчас не выдано.
+ * @param client - клиент транзакции
+ * @param bookId - ID книги
+ */
+async function countFreeCopies(client: PoolClient, bookId: number): Promise<number> {
+  const query = `
+    SELECT COUNT(*)::int AS count
+    FROM book_copies bc
+    WHERE bc.book_id = $1
+      AND bc.deleted_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM book_loans bl
+        WHERE bl.copy_id = bc.id
+          AND bl.returned_at IS NULL
+      );
+  `;
+  const result = await client.query(query, [bookId]);
+
+  return result.rows[0].count;
+}
+
+/**
+ * Считает отложенные (ready) экземпляры книги, которые держат брони других пользователей.
+ * @param client - клиент транзакции
+ * @param bookId - ID книги
+ * @param userId - ID пользователя, чьи брони не учитываются
+ */
+async function countReadyForOthers(client: PoolClient, bookId: number, userId: number): Promise<number> {
+  const query = `
+    SELECT COUNT(*)::int AS count
+    FROM holds
+    WHERE book_id = $1
+      AND user_id <> $2
+      AND status = 'ready';
+  `;
+  const result = await client.query(query, [bookId, userId]);
+
+  return result.rows[0].count;
+}
+
+/**
+ * Закрывает активную бронь пользователя на книгу как выполненную (книга выдана).
+ * @param client - клиент транзакции
+ * @param bookId - ID книги
+ * @param userId - ID пользователя
+ */
+async function fulfillForUser(client: PoolClient, bookId: number, userId: number): Promise<void> {
+  const query = `
+    UPDATE holds
+    SET status = 'fulfilled', closed_at = NOW()
+    WHERE book_id = $1
+      AND user_id = $2
+      AND status IN ${ACTIVE_STATUSES};
+  `;
+  await client.query(query, [bookId, userId]);
+}
+
+/**
+ * Продвигает очередь броней книги: столько самых старых `waiting`-броней, сколько есть
+ * свободных и ещё не отложенных экземпляров, переводятся в `ready`.
+ * Вызывается внутри транзакции, в которой строка книги уже заблокирована.
+ * @param client - клиент транзакции
+ * @param bookId - ID книги
+ * @param pickupDays - сколько дней отложенный экземпляр ждёт читателя
+ */
+async function promoteInTransaction(client: PoolClient, bookId: number, pickupDays: number): Promise<Hold[]> {
+  const freeCopies = await countFreeCopies(client, bookId);
+  const readyResult = await client.query(
+    `SELECT COUNT(*)::int AS count FROM holds WHERE book_id = $1 AND status = 'ready';`,
+    [bookId],
+  );
+  const capacity = freeCopies - readyResult.rows[0].count;
+
+  if (capacity <= 0) {
+    return [];
+  }
+
+  const query = `
+    UPDATE holds
+    SET status = 'ready',
+        ready_at = NOW(),
+        expires_at = NOW() + make_interval(days => $3)
+    WHERE id IN (
+      SELECT id
+      FROM holds
+      WHERE book_id = $1
+        AND status = 'waiting'
+      ORDER BY created_at, id
+      LIMIT $2
+    )
+    RETURNING *;
+  `;
+  const result = await client.query(query, [bookId, capacity, pickupDays]);
+
+  return result.rows as Hold[];
+}
+
+/**
+ * Продвигает очередь броней книги (например, после возврата экземпляра или отмены брони).
+ *
+ * @async
+ * @function promote
+ * @param {number} bookId - ID книги.
+ * @param {number} pickupDays - Сколько дней отложенный экземпляр ждёт читателя.
+ * @returns {Promise<Hold[]>} Брони, для которых отложен экземпляр.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function promote(bookId: number, pickupDays: number) {
+  return withTransaction(async (client) => {
+    await client.query('SELECT id FROM books WHERE id = $1 FOR UPDATE;', [bookId]);
+
+    return promoteInTransaction(client, bookId, pickupDays);
+  });
+}
+
+/**
+ * Закрывает отложенные брони, срок ожидания которых истёк, и передаёт экземпляры следующим в очереди.
+ *
+ * @async
+ * @function expireReady
+ * @param {number} pickupDays - Сколько дней отложенный экземпляр ждёт читателя.
+ * @returns {Promise<Hold[]>} Истёкшие брони.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function expireReady(pickupDays: number) {
+  const query = `
+    UPDATE holds
+    SET status = 'expired', closed_at = NOW()
+    WHERE status = 'ready'
+      AND expires_at < NOW()
+    RETURNING *;
+  `;
+  const result = await pool.query(query);
+  const expired = result.rows as Hold[];
+  const bookIds = [...new Set(expired.map((hold) => hold.book_id))];
+
+  for (const bookId of bookIds) {
+    await promote(bookId, pickupDays);
+  }
+
+  return expired;
+}
+
+/**
+ * Получает бронь по ID.
+ *
+ * @async
+ * @function getOneById
+ * @param {number} holdId - ID брони.
+ * @returns {Promise<Hold|null>} Бронь или null, если не найдена.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function getOneById(holdId: number) {
+  const result = await pool.query('SELECT * FROM holds WHERE id = $1;', [holdId]);
+
+  return (result.rows[0] as Hold) || null;
+}
+
+/**
+ * Получает все брони пользователя с названием книги и позицией в очереди.
+ *
+ * @async
+ * @function getAllByUserId
+ * @param {number} userId - ID пользователя.
+ * @returns {Promise<Hold[]>} Брони пользователя, новые первыми.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function getAllByUserId(userId: number) {
+  const query = `
+    SELECT
+      h.*,
+      b.title,
+      CASE
+        WHEN h.status = 'waiting' THEN (
+          SELECT COUNT(*)::int
+          FROM holds q
+          WHERE q.book_id = h.book_id
+            AND q.status = 'waiting'
+            AND (q.created_at, q.id) <= (h.created_at, h.id)
+        )
+        ELSE NULL
+      END AS queue_position
+    FROM holds h
+    JOIN books b ON b.id = h.book_id
+    WHERE h.user_id = $1
+    ORDER BY h.created_at DESC, h.id DESC;
+  `;
+  const result = await pool.query(query, [userId]);
+
+  return result.rows as Hold[];
+}
+
+/**
+ * Ставит пользователя в очередь на книгу. Бронь возможна, только если пользователю
+ * сейчас нечего выдать: все экземпляры выданы или отложены для других.
+ *
+ * @async
+ * @function create
+ * @param {number} bookId - ID книги.
+ * @param {number} userId - ID пользователя.
+ * @returns {Promise<CreateHoldResult>} Созданная бронь или причина отказа.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function create(bookId: number, userId: number): Promise<CreateHoldResult> {
+  return withTransaction(async (client) => {
+    await client.query('SELECT id FROM books WHERE id = $1 FOR UPDATE;', [bookId]);
+
+    const borrowed = await client.query(
+      'SELECT 1 FROM book_loans WHERE book_id = $1 AND user_id = $2 AND returned_at IS NULL;',
+      [bookId, userId],
+    );
+
+    if (borrowed.rowCount! > 0) {
+      return { status: 'already_borrowed' };
+    }
+
+    const existing = await client.query(
+      `SELECT 1 FROM holds WHERE book_id = $1 AND user_id = $2 AND status IN ${ACTIVE_STATUSES};`,
+      [bookId, userId],
+    );
+
+    if (existing.rowCount! > 0) {
+      return { status: 'duplicate' };
+    }
+
+    const freeCopies = await countFreeCopies(client, bookId);
+    const reservedForOthers = await countReadyForOthers(client, bookId, userId);
+
+    if (freeCopies - reservedForOthers > 0) {
+      return { status: 'available' };
+    }
+
+    const result = await client.query(
+      'INSERT INTO holds (book_id, user_id) VALUES ($1, $2) RETURNING *;',
+      [bookId, userId],
+    );
+
+    return { status: 'ok', hold: result.rows[0] as Hold };
+  });
+}
+
+/**
+ * Отменяет активную бронь.
+ *
+ * @async
+ * @function cancel
+ * @param {number} holdId - ID брони.
+ * @returns {Promise<Hold|null>} Отменённая бронь или null, если бронь не найдена или уже закрыта.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function cancel(holdId: number) {
+  const query = `
+    UPDATE holds
+    SET status = 'cancelled', closed_at = NOW()
+    WHERE id = $1
+      AND status IN ${ACTIVE_STATUSES}
+    RETURNING *;
+  `;
+  const result = await pool.query(query, [holdId]);
+
+  return (result.rows[0] as Hold) || null;
+}
+
+/**
+ * Считает активные брони книги, поставленные другими пользователями.
+ *
+ * @async
+ * @function countActiveForOthers
+ * @param {number} bookId - ID книги.
+ * @param {number} userId - ID пользователя, чьи брони не учитываются.
+ * @returns {Promise<number>} Количество активных броней.
+ * @throws {Error} Если произошла ошибка в запросе.
+ */
+async function countActiveForOthers(bookId: number, userId: number) {
+  const query = `
+    SELECT COUNT(*)::int AS count
+    FROM holds
+    WHERE book_id = $1
+      AND user_id <> $2
+      AND status IN ${ACTIVE_STATUSES};
+  `;
+  const result = await pool.query(query, [bookId, userId]);
+
+  return result.rows[0].count as number;
+}
+
+export {
+  getOneById,
+  getAllByUserId,
+  create,
+  cancel,
+  promote,
+  promoteInTransaction,
+  expireReady,
+  countActiveForOthers,
+  countFreeCopies,
+  countReadyForOthers,
+  fulfillForUser,
+};
+export type { Hold, HoldStatus, CreateHoldResult };
@@ -0,0 +1,125 @@
+import { pool } from '../../db';
+
+/**
+ * @module LoginAttemptModel
+ * Модуль для работы с таблицей `login_attempts` — журналом попыток входа.
+ *
+ * Содержит функции для:
+ * - записи попытки входа,
+ * - получения попыток с фильтрами (для администраторов),
+ * - получения попыток входа пользователя.
+ */
+
+// two_factor_pending — пароль верный, ждём код 2FA; invalid_two_factor — неверный код 2FA;
+// account_disabled — пароль верный, но учётная запись заблокирована или деактивирована
+type LoginAttemptReason =
+  | 'ok'
+  | 'invalid_credentials'
+  | 'locked'
+  | 'two_factor_pending'
+  | 'invalid_two_factor'
+  | 'account_disabled';
+
+/**
+ * пользовательский тип, описывающий попытку входа.
+ *
+ * @typedef {Object} LoginAttempt
+ * @property {number} id - Уникальный идентификатор записи.
+ * @property {string} username - Введённый username.
+ * @property {number|null} user_id - ID пользователя, если такой username существует.
+ * @property {string|null} ip - IP клиента.
+ * @property {string|null} user_agent - User-Agent клиента.
+ * @property {boolean} success - Успешен ли вход.
+ * @property {LoginAttemptReason} reason - Результат попытки.
+ * @property {Date} created_at - Когда была попытка.
+ */
+type LoginAttempt = {
+  id: number;
+  username: string;
+  user_id: number | null;
+  ip: string | null;
+  user_agent: string | null;
+  success: boolean;
+  reason: LoginAttemptReason;
+  created_at: Date;
+};
+
+type LoginAttemptCreateDto = {
+  username: string;
+  userId: number | null;
+  ip: string | null;
+  userAgent: string | null;
+  reason: LoginAttemptReason;
+};
+
+type LoginAttemptFilters = {
+  username?: string;
+  ip?: string;
+  success?: boolean;
+  limit: number;
+};
+
+/**
+ * Записывает попытку входа.
+ * @param {LoginAttemptCreateDto} attempt - данные попытки
+ */
+async function create(attempt: LoginAttemptCreateDto): Promise<LoginAttempt> {
+  const query = `
+    INSERT INTO login_attempts (username, user_id, ip, user_agent, success, reason)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *;
+  `;
+  const { rows } = await pool.query<LoginAttempt>(query, [
+    attempt.username,
+    attempt.userId,
+    attempt.ip,
+    attempt.userAgent,
+    attempt.reason === 'ok',
+    attempt.reason,
+  ]);
+  return rows[0];
+}
+
+/**
+ * Получает попытки входа, новые — первыми.
+ * @param {LoginAttemptFilters} filters - фильтры по username, IP и результату, и лимит
+ */
+async function getAll(filters: LoginAttemptFilters): Promise<LoginAttempt[]> {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  if (filters.username) {
+    values.push(filters.username);
+    conditions.push(`LOWER(username) = LOWER($${values.length})`);
+  }
+
+  if (filters.ip) {
+    values.push(filters.ip);
+    conditions.push(`ip = $${values.length}`);
+  }
+
+  if (filters.success !== undefined) {
+    values.push(filters.success);
+    conditions.push(`success = $${values.length}`);
+  }
+
+  values.push(filters.limit);
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const query = `SELECT * FROM login_attempts ${where} ORDER BY created_at DESC LIMIT $${values.length}`;
+  const { rows } = await pool.query<LoginAttempt>(query, values);
+  return rows;
+}
+
+/**
+ * Получает все попытки входа в учётную запись пользователя, новые — первыми.
+ * @param {number} userId - ID пользователя
+ */
+async function getAllByUserId(userId: number): Promise<LoginAttempt[]> {
+  const query = 'SELECT * FROM login_attempts WHERE user_id = $1 ORDER BY created_at DESC, id DESC';
+  const { rows } = await pool.query<LoginAttempt>(query, [userId]);
+  return rows;
+}
+
+export { create, getAll, getAllByUserId };
+export type { LoginAttempt, LoginAttemptReason };
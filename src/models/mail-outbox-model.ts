@@ -0,0 +1,64 @@
+import { pool } from '../../db';
+
+/**
+ * @module MailOutboxModel
+ * Модуль для работы с таблицей `mail_outbox` — локальным «почтовым ящиком» исходящих писем.
+ * Используется транспортом `db`, когда настоящего SMTP-сервера нет.
+ *
+ * Содержит функции для:
+ * - записи письма,
+ * - получения последних писем по адресу получателя.
+ */
+
+/**
+ * пользовательский тип, описывающий письмо в outbox.
+ *
+ * @typedef {Object} OutboxMail
+ * @property {number} id - Уникальный идентификатор письма.
+ * @property {string} from_address - Адрес отправителя.
+ * @property {string} to_address - Адрес получателя.
+ * @property {string} subject - Тема письма.
+ * @property {string} body - Текст письма.
+ * @property {Date} created_at - Когда письмо поставлено в outbox.
+ * @property {Date|null} sent_at - Когда письмо отправлено внешним сервисом (если он есть).
+ */
+type OutboxMail = {
+  id: number;
+  from_address: string;
+  to_address: string;
+  subject: string;
+  body: string;
+  created_at: Date;
+  sent_at: Date | null;
+};
+
+/**
+ * Записывает письмо в outbox.
+ * @param {string} from - адрес отправителя
+ * @param {string} to - адрес получателя
+ * @param {string} subject - тема
+ * @param {string} body - текст письма
+ */
+async function create(from: string, to: string, subject: string, body: string): Promise<OutboxMail> {
+  const query = `
+    INSERT INTO mail_outbox (from_address, to_address, subject, body)
+    VALUES ($1, $2, $3, $4)
+    RETURNING *;
+  `;
+  const { rows } = await pool.query<OutboxMail>(query, [from, to, subject, body]);
+  return rows[0];
+}
+
+/**
+ * Получает последние письма, отправленные на адрес (новые — первыми).
+ * @param {string} to - адрес получателя
+ * @param {number} [limit=20] - сколько писем вернуть
+ */
+async function getAllByRecipient(to: string, limit = 20): Promise<OutboxMail[]> {
+  const query = 'SELECT * FROM mail_outbox WHERE to_address = $1 ORDER BY created_at DESC LIMIT $2';
+  const { rows } = await pool.query<OutboxMail>(query, [to, limit]);
+  return rows;
+}
+
+export { create, getAllByRecipient };
+export type { OutboxMail };
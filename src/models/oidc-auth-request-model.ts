@@ -0,0 +1,67 @@
+import { pool } from '../../db';
+import { hashToken } from '../utils/crypto-utils';
+
+/**
+ * @module OidcAuthRequestModel
+ * Модуль для работы с таблицей `oidc_auth_requests` — входами через OIDC,
+ * которые ждут возврата пользователя с провайдера.
+ *
+ * Запись ищется по state из адреса возврата (в базе — только его хэш) и используется
+ * один раз: при возврате она удаляется, а повторный возврат с тем же state отклоняется.
+ *
+ * Содержит функции для:
+ * - сохранения параметров начатого входа,
+ * - извлечения (с удалением) параметров при возврате с провайдера.
+ */
+
+/**
+ * пользовательский тип, описывающий параметры начатого входа через OIDC.
+ *
+ * @typedef {Object} OidcAuthRequest
+ * @property {string} code_verifier - PKCE code_verifier.
+ * @property {string} nonce - nonce, который должен вернуться в ID-токене.
+ */
+type OidcAuthRequest = {
+  code_verifier: string;
+  nonce: string;
+};
+
+/**
+ * Сохраняет параметры начатого входа. Заодно удаляет просроченные записи.
+ * @param {string} state - state (в базу попадёт только хэш)
+ * @param {string} codeVerifier - PKCE code_verifier
+ * @param {string} nonce - nonce для ID-токена
+ * @param {number} ttlMinutes - сколько минут ждём возврата
+ */
+async function create(state: string, codeVerifier: string, nonce: string, ttlMinutes: number): Promise<void> {
+  await pool.query('DELETE FROM oidc_auth_requests WHERE expires_at < NOW()');
+
+  const query = `
+    INSERT INTO oidc_auth_requests (state_hash, code_verifier, nonce, expires_at)
+    VALUES ($1, $2, $3, NOW() + make_interval(mins => $4));
+  `;
+  await pool.query(query, [hashToken(state), codeVerifier, nonce, ttlMinutes]);
+}
+
+/**
+ * Извлекает параметры входа по state и удаляет запись.
+ * @param {string} state - state из адреса возврата
+ * @returns {Promise<OidcAuthRequest|null>} Параметры или null, если state неизвестен или истёк.
+ */
+async function consume(state: string): Promise<OidcAuthRequest | null> {
+  const query = `
+    DELETE FROM oidc_auth_requests
+    WHERE state_hash = $1
+    RETURNING code_verifier, nonce, expires_at > NOW() AS active;
+  `;
+  const { rows } = await pool.query<OidcAuthRequest & { active: boolean }>(query, [hashToken(state)]);
+
+  if (!rows[0]?.active) {
+    return null;
+  }
+
+  return { code_verifier: rows[0].code_verifier, nonce: rows[0].nonce };
+}
+
+export { create, consume };
+export type { OidcAuthRequest };
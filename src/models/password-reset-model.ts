@@ -0,0 +1,108 @@
+import { pool, withTransaction } from '../../db';
+import { hashToken } from '../utils/crypto-utils';
+
+/**
+ * @module PasswordResetModel
+ * Модуль для работы с таблицей `password_reset_tokens`.
+ *
+ * Токен сброса одноразовый и ограничен по времени; в базе хранится только его хэш.
+ * Новый запрос сброса удаляет все прежние токены пользователя, так что действует только последняя ссылка.
+ *
+ * Содержит функции для:
+ * - выпуска токена сброса,
+ * - поиска пользователя по действующему токену,
+ * - смены пароля по токену.
+ */
+
+/**
+ * пользовательский тип, описывающий токен сброса пароля.
+ *
+ * @typedef {Object} PasswordResetToken
+ * @property {number} id - Уникальный идентификатор записи.
+ * @property {number} user_id - ID пользователя.
+ * @property {Date} expires_at - До какого момента токен действует.
+ * @property {Date|null} used_at - Когда токен использован.
+ * @property {Date} created_at - Когда токен выпущен.
+ */
+type PasswordResetToken = {
+  id: number;
+  user_id: number;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+};
+
+/**
+ * Выпускает токен сброса пароля, удаляя прежние токены пользователя.
+ * @param {number} userId - ID пользователя
+ * @param {string} token - сам токен (в базу попадёт только хэш)
+ * @param {number} ttlMinutes - срок действия в минутах
+ */
+async function createToken(userId: number, token: string, ttlMinutes: number): Promise<PasswordResetToken> {
+  return withTransaction(async (client) => {
+    await client.query('DELETE FROM password_reset_tokens WHERE user_id = $1', [userId]);
+
+    const query = `
+      INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+      VALUES ($1, $2, NOW() + make_interval(mins => $3))
+      RETURNING id, user_id, expires_at, used_at, created_at;
+    `;
+    const { rows } = await client.query<PasswordResetToken>(query, [userId, hashToken(token), ttlMinutes]);
+    return rows[0];
+  });
+}
+
+/**
+ * Находит пользователя по действующему (неиспользованному и не истёкшему) токену сброса.
+ * @param {string} token - токен из письма
+ * @returns {Promise<{id: number, username: string, email: string}|null>} Пользователь или null.
+ */
+async function getUserByToken(token: string): Promise<{ id: number; username: string; email: string } | null> {
+  const query = `
+    SELECT u.id, u.username, u.email
+    FROM password_reset_tokens prt
+    JOIN users u ON u.id = prt.user_id
+    WHERE prt.token_hash = $1
+      AND prt.used_at IS NULL
+      AND prt.expires_at > NOW();
+  `;
+  const { rows } = await pool.query<{ id: number; username: string; email: string }>(query, [hashToken(token)]);
+  return rows[0] ?? null;
+}
+
+/**
+ * Гасит токен сброса и устанавливает новый пароль — в одной транзакции,
+ * чтобы токен не «сгорел» без смены пароля.
+ * @param {string} token - токен из письма
+ * @param {string} passwordHash - хэш нового пароля
+ * @returns {Promise<number|null>} ID пользователя или null, если токен неизвестен, истёк или уже использован.
+ */
+async function resetPassword(token: string, passwordHash: string): Promise<number | null> {
+  return withTransaction(async (client) => {
+    const consumeQuery = `
+      UPDATE password_reset_tokens
+      SET used_at = NOW()
+      WHERE token_hash = $1
+        AND used_at IS NULL
+        AND expires_at > NOW()
+      RETURNING user_id;
+    `;
+    const { rows } = await client.query<{ user_id: number }>(consumeQuery, [hashToken(token)]);
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const userId = rows[0].user_id;
+
+    await client.query('UPDATE users SET password_hash = $1, updated_at = NOW() WHERE id = $2', [
+      passwordHash,
+      userId,
+    ]);
+
+    return userId;
+  });
+}
+
+export { createToken, getUserByToken, resetPassword };
+export type { PasswordResetToken };
@@ -0,0 +1,140 @@
+import { PoolClient } from 'pg';
+import { pool, withTransaction } from '../../db';
+
+/**
+ * @module RoleChangeModel
+ * Модуль для смены ролей пользователей и работы с журналом `role_changes`.
+ *
+ * Каждое назначение роли (кроме роли по умолчанию при регистрации) записывается
+ * в журнал: кому, какая роль была и стала, кто и когда её изменил.
+ *
+ * Содержит функции для:
+ * - смены роли пользователя с записью в журнал,
+ * - записи роли, назначенной при создании пользователя,
+ * - получения истории ролей пользователя.
+ */
+
+/**
+ * пользовательский тип, описывающий запись журнала ролей.
+ *
+ * @typedef {Object} RoleChange
+ * @property {number} id - Уникальный идентификатор записи.
+ * @property {number} user_id - ID пользователя, чья роль изменена.
+ * @property {string|null} old_role - Прежняя роль (null — назначена при создании).
+ * @property {string} new_role - Новая роль.
+ * @property {number|null} changed_by - ID администратора, изменившего роль.
+ * @property {string|null} reason - Причина изменения.
+ * @property {Date} changed_at - Когда роль изменена.
+ * @property {string|null} [changed_by_username] - Имя администратора.
+ */
+type RoleChange = {
+  id: number;
+  user_id: number;
+  old_role: string | null;
+  new_role: string;
+  changed_by: number | null;
+  reason: string | null;
+  changed_at: Date;
+  changed_by_username?: string | null;
+};
+
+type ChangeRoleResult =
+  | { status: 'ok'; change: RoleChange }
+  | { status: 'not_found' }
+  | { status: 'unchanged' }
+  | { status: 'last_admin' };
+
+/**
+ * Вставляет запись в журнал ролей.
+ * @param db - пул или клиент транзакции
+ * @param userId - ID пользователя
+ * @param oldRole - прежняя роль
+ * @param newRole - новая роль
+ * @param changedBy - ID администратора
+ * @param reason - причина
+ */
+async function insertChange(
+  db: PoolClient | typeof pool,
+  userId: number,
+  oldRole: string | null,
+  newRole: string,
+  changedBy: number | null,
+  reason: string | null,
+): Promise<RoleChange> {
+  const query = `
+    INSERT INTO role_changes (user_id, old_role, new_role, changed_by, reason)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *;
+  `;
+  const { rows } = await db.query<RoleChange>(query, [userId, oldRole, newRole, changedBy, reason]);
+  return rows[0];
+}
+
+/**
+ * Меняет роль пользователя и записывает изменение в журнал.
+ * Последнего администратора разжаловать нельзя, иначе управлять ролями станет некому.
+ * @param {number} userId - ID пользователя
+ * @param {string} newRole - новая роль
+ * @param {number} changedBy - ID администратора
+ * @param {string|null} reason - причина изменения
+ * @returns {Promise<ChangeRoleResult>} Результат смены роли.
+ */
+async function changeRole(userId: number, newRole: string, changedBy: number, reason: string | null): Promise<ChangeRoleResult> {
+  return withTransaction(async (client) => {
+    // блокируем пользователя вместе со всеми администраторами в одном порядке (по id),
+    // чтобы два параллельных разжалования не оставили систему без администраторов и не взаимоблокировались
+    const { rows } = await client.query<{ id: number; role: string }>(
+      "SELECT id, role FROM users WHERE id = $1 OR (role = 'admin' AND deleted_at IS NULL) ORDER BY id FOR UPDATE",
+      [userId],
+    );
+    const target = rows.find((row) => row.id === userId);
+
+    if (!target) {
+      return { status: 'not_found' };
+    }
+
+    const oldRole = target.role;
+
+    if (oldRole === newRole) {
+      return { status: 'unchanged' };
+    }
+
+    if (oldRole === 'admin' && rows.filter((row) => row.role === 'admin').length === 1) {
+      return { status: 'last_admin' };
+    }
+
+    await client.query('UPDATE users SET role = $1, updated_at = NOW() WHERE id = $2', [newRole, userId]);
+
+    const change = await insertChange(client, userId, oldRole, newRole, changedBy, reason);
+    return { status: 'ok', change };
+  });
+}
+
+/**
+ * Записывает роль, назначенную при создании пользователя администратором.
+ * @param {number} userId - ID созданного пользователя
+ * @param {string} role - назначенная роль
+ * @param {number|null} changedBy - ID администратора
+ */
+async function recordInitialRole(userId: number, role: string, changedBy: number | null): Promise<RoleChange> {
+  return insertChange(pool, userId, null, role, changedBy, null);
+}
+
+/**
+ * Получает историю ролей пользователя, новые изменения — первыми.
+ * @param {number} userId - ID пользователя
+ */
+async function getAllByUserId(userId: number): Promise<RoleChange[]> {
+  const query = `
+    SELECT rc.*, u.username AS changed_by_username
+    FROM role_changes rc
+    LEFT JOIN users u ON u.id = rc.changed_by
+    WHERE rc.user_id = $1
+    ORDER BY rc.changed_at DESC, rc.id DESC;
+  `;
+  const { rows } = await pool.query<RoleChange>(query, [userId]);
+  return rows;
+}
+
+export { changeRole, recordInitialRole, getAllByUserId };
+export type { RoleChange, ChangeRoleResult };
@@ -0,0 +1,89 @@
+import { pool } from '../../db';
+
+/**
+ * @module SecurityEventModel
+ * Модуль для работы с таблицей `security_events` — журналом событий безопасности
+ * (подозрительные действия с токенами, входами и т.п.).
+ *
+ * Содержит функции для:
+ * - записи события,
+ * - получения событий пользователя.
+ */
+
+type SecurityEventType =
+  | 'refresh_token_reuse'
+  | 'password_reset'
+  | 'password_changed'
+  | 'account_locked'
+  | 'account_unlocked'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'recovery_code_used'
+  | 'api_key_created'
+  | 'api_key_revoked'
+  | 'account_deleted'
+  | 'account_anonymized';
+
+/**
+ * пользовательский тип, описывающий событие безопасности.
+ *
+ * @typedef {Object} SecurityEvent
+ * @property {number} id - Уникальный идентификатор события.
+ * @property {number|null} user_id - ID пользователя, к которому относится событие.
+ * @property {SecurityEventType} event_type - Тип события.
+ * @property {Object} details - Подробности события.
+ * @property {string|null} ip - IP клиента.
+ * @property {string|null} user_agent - User-Agent клиента.
+ * @property {Date} created_at - Когда событие произошло.
+ */
+type SecurityEvent = {
+  id: number;
+  user_id: number | null;
+  event_type: SecurityEventType;
+  details: Record<string, unknown>;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: Date;
+};
+
+type SecurityEventCreateDto = {
+  userId: number | null;
+  eventType: SecurityEventType;
+  details?: Record<string, unknown>;
+  ip?: string | null;
+  userAgent?: string | null;
+};
+
+/**
+ * Записывает событие безопасности в журнал.
+ * @param {SecurityEventCreateDto} event - данные события
+ * @returns {Promise<SecurityEvent>} Созданная запись.
+ */
+async function logSecurityEvent(event: SecurityEventCreateDto): Promise<SecurityEvent> {
+  const query = `
+    INSERT INTO security_events (user_id, event_type, details, ip, user_agent)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING *;
+  `;
+  const { rows } = await pool.query<SecurityEvent>(query, [
+    event.userId,
+    event.eventType,
+    JSON.stringify(event.details ?? {}),
+    event.ip ?? null,
+    event.userAgent ?? null,
+  ]);
+  return rows[0];
+}
+
+/**
+ * Получает события безопасности пользователя, новые — первыми.
+ * @param {number} userId - ID пользователя
+ */
+async function getAllByUserId(userId: number): Promise<SecurityEvent[]> {
+  const query = 'SELECT * FROM security_events WHERE user_id = $1 ORDER BY created_at DESC';
+  const { rows } = await pool.query<SecurityEvent>(query, [userId]);
+  return rows;
+}
+
+export { logSecurityEvent, getAllByUserId };
+export type { SecurityEvent, SecurityEventType };
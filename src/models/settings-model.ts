@@ -0,0 +1,58 @@
+import { pool } from '../../db';
+
+/**
+ * @module SettingsModel
+ * Модуль для работы с таблицей `app_settings` — настройками, которые администратор
+ * меняет во время работы приложения (в отличие от переменных окружения).
+ *
+ * Содержит функции для:
+ * - чтения настройки,
+ * - сохранения настройки.
+ */
+
+/**
+ * пользовательский тип, описывающий настройку.
+ *
+ * @typedef {Object} Setting
+ * @property {string} key - Ключ настройки.
+ * @property {*} value - Значение (JSON).
+ * @property {number|null} updated_by - ID администратора, изменившего настройку.
+ * @property {Date} updated_at - Когда настройка изменена.
+ */
+type Setting<T> = {
+  key: string;
+  value: T;
+  updated_by: number | null;
+  updated_at: Date;
+};
+
+/**
+ * Читает настройку по ключу.
+ * @param {string} key - ключ настройки
+ * @returns {Promise<Setting|null>} Настройка или null, если она ещё не задавалась.
+ */
+async function getSetting<T>(key: string): Promise<Setting<T> | null> {
+  const { rows } = await pool.query<Setting<T>>('SELECT * FROM app_settings WHERE key = $1', [key]);
+  return rows[0] ?? null;
+}
+
+/**
+ * Сохраняет настройку (создаёт или перезаписывает).
+ * @param {string} key - ключ настройки
+ * @param {*} value - новое значение (будет сохранено как JSON)
+ * @param {number|null} updatedBy - ID администратора
+ */
+async function setSetting<T>(key: string, value: T, updatedBy: number | null): Promise<Setting<T>> {
+  const query = `
+    INSERT INTO app_settings (key, value, updated_by, updated_at)
+    VALUES ($1, $2, $3, NOW())
+    ON CONFLICT (key) DO UPDATE
+      SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = NOW()
+    RETURNING *;
+  `;
+  const { rows } = await pool.query<Setting<T>>(query, [key, JSON.stringify(value), updatedBy]);
+  return rows[0];
+}
+
+export { getSetting, setSetting };
+export type { Setting };
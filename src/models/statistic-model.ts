@@ -7,10 +7,10 @@ import { error, log } from 'console';
  * Модуль для работы с таблицами: users, book_loans, books в базе данных.
  * 
  * Содержит функции для:
- * - получение должников у которых есть не сданные книги с названиями книг и датой когда взял ,
+ * - получение должников у которых есть просроченные книги с названиями книг, датой когда взял и сроком возврата,
  * - получение одного должника по имени,
  * - получение не сданных книг с датой когдв взяли и кто взял, 
- * - получение всех доступных книг, 
+ * - получение всех книг, у которых есть хотя бы один свободный экземпляр, 
  * - получение топ 5 самых актвных пользователей.
  */
 
@@ -20,17 +20,24 @@ type Debtor = {
     email: string;
     title: string;
     taken_at: Date;
+    due_at: Date;
+    days_overdue: number;
   };
 
+// Должник — открытый займ, срок возврата которого уже прошёл
+const OVERDUE_CONDITION = 'bl.returned_at IS NULL AND bl.due_at < NOW()';
+const DAYS_OVERDUE_COLUMN = 'CEIL(EXTRACT(EPOCH FROM NOW() - bl.due_at) / 86400)::int AS days_overdue';
+
 
 async function getAllDeb( ) {
     try {
     const query: string =    
-    `SELECT bl.user_id, u.username, u.email, b.title, bl.taken_at 
+    `SELECT bl.user_id, u.username, u.email, b.title, bl.taken_at, bl.due_at, ${DAYS_OVERDUE_COLUMN} 
     FROM book_loans bl 
     JOIN users u ON u.id = bl.user_id 
     JOIN books b ON b.id = bl.book_id 
-    WHERE bl.returned_at IS NULL`;
+    WHERE ${OVERDUE_CONDITION} 
+    ORDER BY bl.due_at`;
     const result = await pool.query(query); 
 
     return result.rows as Debtor [];
@@ -46,12 +53,12 @@ async function getOneByName(username: string): Promise<Debtor | null> {
         throw new Error ("Username is required"); 
     }
     const query: string = 
-    `SELECT u.username, u.email, b.title, bl.taken_at 
+    `SELECT bl.user_id, u.username, u.email, b.title, bl.taken_at, bl.due_at, ${DAYS_OVERDUE_COLUMN} 
     FROM book_loans bl 
     JOIN users u ON u.id = bl.user_id 
     JOIN books b ON b.id = bl.book_id 
     WHERE u.username = $1 
-    AND bl.returned_at IS NULL`; 
+    AND ${OVERDUE_CONDITION}`; 
     const value = [ username ];
     
     try {
@@ -72,10 +79,11 @@ async function getOneByName(username: string): Promise<Debtor | null> {
 async function getAllUnavailable( ) {
     try {
   const query: string = 
-  `SELECT u.id, u.username, u.email, bl.book_id, bl.taken_at, b.title 
+  `SELECT u.id, u.username, u.email, bl.book_id, bc.barcode, bl.taken_at, b.title 
     FROM book_loans bl 
     JOIN users u ON u.id = bl.user_id 
     JOIN books b ON b.id = bl.book_id 
+    JOIN book_copies bc ON bc.id = bl.copy_id 
     WHERE bl.returned_at IS NULL`;
   const result = await pool.query(query);
 
@@ -93,11 +101,18 @@ async function getAllAvailable ( ) {
   const query: string = 
   `SELECT *
     FROM books b
-    WHERE NOT EXISTS (
+    WHERE b.deleted_at IS NULL
+    AND EXISTS (
     SELECT 1
-    FROM book_loans bl
-    WHERE bl.book_id = b.id
-    AND bl.returned_at IS NULL
+    FROM book_copies bc
+    WHERE bc.book_id = b.id
+    AND bc.deleted_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM book_loans bl
+      WHERE bl.copy_id = bc.id
+      AND bl.returned_at IS NULL
+        )
       )`;
   const result = await pool.query(query);
 
@@ -113,11 +128,18 @@ async function getAllAvailable ( ) {
  async function getTop( ) {
     try {
     const query: string = 
-    `SELECT u.id AS user_id, u.username, 
-    COUNT(bl.book_id) AS books_taken 
+    // займы, отвязанные политикой хранения, учитываем по счётчику unlinked_loans_count;
+    // удалённые пользователи остаются в рейтинге (их займы никуда не делись), но без имени
+    `SELECT u.id AS user_id,
+    CASE WHEN u.deleted_at IS NULL THEN u.username ELSE 'deleted user' END AS username,
+    COALESCE(bl.loans, 0) + u.unlinked_loans_count AS books_taken 
     FROM users u 
-    JOIN book_loans bl ON bl.user_id = u.id 
-    GROUP BY u.id, u.username 
+    LEFT JOIN (
+      SELECT user_id, COUNT(*) AS loans 
+      FROM book_loans 
+      GROUP BY user_id 
+    ) bl ON bl.user_id = u.id 
+    WHERE COALESCE(bl.loans, 0) + u.unlinked_loans_count > 0 
     ORDER BY books_taken DESC LIMIT 5;`
     const result = await pool.query(query);
     return result.rows;
@@ -0,0 +1,207 @@
+import { PoolClient } from 'pg';
+import { pool, withTransaction } from '../../db';
+import { hashToken } from '../utils/crypto-utils';
+
+/**
+ * @module TwoFactorModel
+ * Модуль для работы с таблицами `user_two_factor` и `user_recovery_codes`.
+ *
+ * 2FA включается в два шага: сначала сохраняется неподтверждённый секрет,
+ * затем пользователь подтверждает его кодом из приложения — только после этого
+ * 2FA считается включённой и выпускаются коды восстановления.
+ * Секрет хранится как есть (он нужен для вычисления кодов), коды восстановления — только хэшем.
+ *
+ * Содержит функции для:
+ * - получения настроек 2FA пользователя,
+ * - начала и подтверждения подключения,
+ * - защиты от повторного использования кода,
+ * - работы с кодами восстановления,
+ * - отключения 2FA.
+ */
+
+/**
+ * пользовательский тип, описывающий настройки 2FA пользователя.
+ *
+ * @typedef {Object} TwoFactor
+ * @property {number} user_id - ID пользователя.
+ * @property {string} secret - Секрет TOTP в base32.
+ * @property {Date|null} confirmed_at - Когда 2FA подтверждена (null — подключение не завершено).
+ * @property {number|null} last_used_step - Последний принятый временной шаг.
+ * @property {Date} created_at - Когда сгенерирован секрет.
+ */
+type TwoFactor = {
+  user_id: number;
+  secret: string;
+  confirmed_at: Date | null;
+  last_used_step: number | null;
+  created_at: Date;
+};
+
+type StartEnrollmentResult = { status: 'ok'; twoFactor: TwoFactor } | { status: 'already_enabled' };
+
+/**
+ * Получает настройки 2FA пользователя.
+ * @param {number} userId - ID пользователя
+ * @returns {Promise<TwoFactor|null>} Настройки или null, если 2FA не подключалась.
+ */
+async function getByUserId(userId: number): Promise<TwoFactor | null> {
+  const { rows } = await pool.query<TwoFactor>('SELECT * FROM user_two_factor WHERE user_id = $1', [userId]);
+  return rows[0] ?? null;
+}
+
+/**
+ * Сохраняет новый неподтверждённый секрет (повторный вызов заменяет прежний).
+ * @param {number} userId - ID пользователя
+ * @param {string} secret - секрет в base32
+ * @returns {Promise<StartEnrollmentResult>} `already_enabled`, если 2FA уже подтверждена.
+ */
+async function startEnrollment(userId: number, secret: string): Promise<StartEnrollmentResult> {
+  const query = `
+    INSERT INTO user_two_factor (user_id, secret)
+    VALUES ($1, $2)
+    ON CONFLICT (user_id) DO UPDATE
+      SET secret = EXCLUDED.secret, last_used_step = NULL, created_at = NOW()
+      WHERE user_two_factor.confirmed_at IS NULL
+    RETURNING *;
+  `;
+  const { rows } = await pool.query<TwoFactor>(query, [userId, secret]);
+
+  if (rows.length === 0) {
+    return { status: 'already_enabled' };
+  }
+
+  return { status: 'ok', twoFactor: rows[0] };
+}
+
+/**
+ * Запоминает принятый временной шаг. Срабатывает только для шага новее предыдущего,
+ * поэтому один код (или код из прошлого) второй раз не пройдёт.
+ * @param {number} userId - ID пользователя
+ * @param {number} step - номер временного шага принятого кода
+ * @returns {Promise<boolean>} false, если шаг уже использовался.
+ */
+async function markStepUsed(userId: number, step: number): Promise<boolean> {
+  const query = `
+    UPDATE user_two_factor
+    SET last_used_step = $2
+    WHERE user_id = $1
+      AND (last_used_step IS NULL OR last_used_step < $2);
+  `;
+  const { rowCount } = await pool.query(query, [userId, step]);
+  return rowCount === 1;
+}
+
+/**
+ * Подтверждает подключение 2FA и сохраняет коды восстановления.
+ * @param {number} userId - ID пользователя
+ * @param {string[]} recoveryCodes - коды восстановления (в базу попадут только хэши)
+ * @returns {Promise<boolean>} false, если подтверждать нечего (секрета нет или 2FA уже включена).
+ */
+async function confirm(userId: number, recoveryCodes: string[]): Promise<boolean> {
+  return withTransaction(async (client) => {
+    const confirmed = await client.query(
+      'UPDATE user_two_factor SET confirmed_at = NOW() WHERE user_id = $1 AND confirmed_at IS NULL',
+      [userId],
+    );
+
+    if (confirmed.rowCount === 0) {
+      return false;
+    }
+
+    await replaceRecoveryCodesWith(client, userId, recoveryCodes);
+    return true;
+  });
+}
+
+/**
+ * Заменяет коды восстановления пользователя новыми.
+ * @param client - клиент транзакции
+ * @param userId - ID пользователя
+ * @param recoveryCodes - новые коды
+ */
+async function replaceRecoveryCodesWith(
+  client: PoolClient,
+  userId: number,
+  recoveryCodes: string[],
+): Promise<void> {
+  await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+  await client.query(
+    'INSERT INTO user_recovery_codes (user_id, code_hash) SELECT $1, UNNEST($2::text[])',
+    [userId, recoveryCodes.map((code) => hashToken(normalizeRecoveryCode(code)))],
+  );
+}
+
+/**
+ * Приводит код восстановления к единому виду (регистр и дефисы не важны).
+ * @param code - введённый код
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Выпускает новый набор кодов восстановления; прежние перестают действовать.
+ * @param {number} userId - ID пользователя
+ * @param {string[]} recoveryCodes - новые коды
+ */
+async function replaceRecoveryCodes(userId: number, recoveryCodes: string[]): Promise<void> {
+  await withTransaction((client) => replaceRecoveryCodesWith(client, userId, recoveryCodes));
+}
+
+/**
+ * Гасит код восстановления.
+ * @param {number} userId - ID пользователя
+ * @param {string} code - введённый код
+ * @returns {Promise<boolean>} true, если код был действующим.
+ */
+async function consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const query = `
+    UPDATE user_recovery_codes
+    SET used_at = NOW()
+    WHERE id = (
+      SELECT id FROM user_recovery_codes
+      WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    );
+  `;
+  const { rowCount } = await pool.query(query, [userId, hashToken(normalizeRecoveryCode(code))]);
+  return rowCount === 1;
+}
+
+/**
+ * Считает неиспользованные коды восстановления.
+ * @param {number} userId - ID пользователя
+ */
+async function countRemainingRecoveryCodes(userId: number): Promise<number> {
+  const { rows } = await pool.query<{ count: string }>(
+    'SELECT COUNT(*) AS count FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+    [userId],
+  );
+  return Number(rows[0].count);
+}
+
+/**
+ * Отключает 2FA: удаляет секрет и коды восстановления.
+ * @param {number} userId - ID пользователя
+ * @returns {Promise<boolean>} true, если 2FA была подключена.
+ */
+async function disable(userId: number): Promise<boolean> {
+  return withTransaction(async (client) => {
+    await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+    const { rowCount } = await client.query('DELETE FROM user_two_factor WHERE user_id = $1', [userId]);
+    return rowCount === 1;
+  });
+}
+
+export {
+  getByUserId,
+  startEnrollment,
+  markStepUsed,
+  confirm,
+  replaceRecoveryCodes,
+  consumeRecoveryCode,
+  countRemainingRecoveryCodes,
+  disable,
+};
+export type { TwoFactor };
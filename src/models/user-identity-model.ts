@@ -0,0 +1,157 @@
+import { pool, withTransaction } from '../../db';
+
+/**
+ * @module UserIdentityModel
+ * Модуль для работы с таблицей `user_identities` — внешними учётными записями
+ * (OIDC), привязанными к пользователям библиотеки.
+ *
+ * Содержит функции для:
+ * - поиска пользователя по внешней учётной записи,
+ * - привязки внешней учётной записи к существующему пользователю,
+ * - создания пользователя вместе с внешней учётной записью,
+ * - получения внешних учётных записей пользователя.
+ */
+
+/**
+ * пользовательский тип, описывающий пользователя, найденного по внешней учётной записи.
+ *
+ * @typedef {Object} IdentityUser
+ * @property {number} id - ID пользователя.
+ * @property {string} username - Имя пользователя.
+ * @property {string} email - Email пользователя.
+ * @property {string} role - Роль пользователя.
+ */
+type IdentityUser = {
+  id: number;
+  username: string;
+  email: string;
+  role: string;
+};
+
+/**
+ * пользовательский тип, описывающий внешнюю учётную запись.
+ *
+ * @typedef {Object} UserIdentity
+ * @property {number} id - Уникальный идентификатор записи.
+ * @property {string} provider - Имя провайдера.
+ * @property {string} subject - ID пользователя у провайдера.
+ * @property {string|null} email - Email, полученный от провайдера.
+ * @property {Date} created_at - Когда учётная запись привязана.
+ * @property {Date|null} last_login_at - Последний вход через провайдера.
+ */
+type UserIdentity = {
+  id: number;
+  provider: string;
+  subject: string;
+  email: string | null;
+  created_at: Date;
+  last_login_at: Date | null;
+};
+
+type IdentityDto = {
+  provider: string;
+  subject: string;
+  email: string | null;
+};
+
+type UserWithIdentityCreateDto = IdentityDto & {
+  username: string;
+  email: string;
+  passwordHash: string;
+  emailVerified: boolean;
+};
+
+type CreateUserWithIdentityResult =
+  | { status: 'ok'; user: IdentityUser }
+  | { status: 'username_taken' }
+  | { status: 'email_taken' };
+
+const USER_COLUMNS = 'u.id, u.username, u.email, u.role';
+
+/**
+ * Находит пользователя по внешней учётной записи и отмечает время входа.
+ * @param {string} provider - имя провайдера
+ * @param {string} subject - ID пользователя у провайдера (claim `sub`)
+ * @returns {Promise<IdentityUser|null>} Пользователь или null, если учётная запись не привязана.
+ */
+async function getUserByIdentity(provider: string, subject: string): Promise<IdentityUser | null> {
+  const query = `
+    UPDATE user_identities ui
+    SET last_login_at = NOW()
+    FROM users u
+    WHERE u.id = ui.user_id
+      AND ui.provider = $1
+      AND ui.subject = $2
+    RETURNING ${USER_COLUMNS};
+  `;
+  const { rows } = await pool.query<IdentityUser>(query, [provider, subject]);
+  return rows[0] ?? null;
+}
+
+/**
+ * Привязывает внешнюю учётную запись к существующему пользователю.
+ * @param {number} userId - ID пользователя
+ * @param {IdentityDto} identity - внешняя учётная запись
+ */
+async function linkIdentity(userId: number, identity: IdentityDto): Promise<void> {
+  const query = `
+    INSERT INTO user_identities (user_id, provider, subject, email, last_login_at)
+    VALUES ($1, $2, $3, $4, NOW());
+  `;
+  await pool.query(query, [userId, identity.provider, identity.subject, identity.email]);
+}
+
+/**
+ * Создаёт пользователя и сразу привязывает к нему внешнюю учётную запись (в одной транзакции).
+ * @param {UserWithIdentityCreateDto} dto - данные пользователя и внешней учётной записи
+ * @returns {Promise<CreateUserWithIdentityResult>} `username_taken`/`email_taken`, если такой пользователь уже есть.
+ */
+async function createUserWithIdentity(dto: UserWithIdentityCreateDto): Promise<CreateUserWithIdentityResult> {
+  try {
+    return await withTransaction(async (client) => {
+      const { rows } = await client.query<IdentityUser>(
+        `INSERT INTO users (username, email, password_hash, email_verified_at)
+         VALUES ($1, $2, $3, CASE WHEN $4::boolean THEN NOW() END)
+         RETURNING id, username, email, role`,
+        [dto.username, dto.email, dto.passwordHash, dto.emailVerified],
+      );
+      const user = rows[0];
+
+      await client.query(
+        `INSERT INTO user_identities (user_id, provider, subject, email, last_login_at)
+         VALUES ($1, $2, $3, $4, NOW())`,
+        [user.id, dto.provider, dto.subject, dto.email],
+      );
+
+      return { status: 'ok', user } as const;
+    });
+  } catch (err: any) {
+    if (err.code === '23505' && err.constraint === 'users_username_key') {
+      return { status: 'username_taken' };
+    }
+
+    if (err.code === '23505' && err.constraint === 'users_email_key') {
+      return { status: 'email_taken' };
+    }
+
+    throw err;
+  }
+}
+
+/**
+ * Получает внешние учётные записи пользователя.
+ * @param {number} userId - ID пользователя
+ */
+async function getAllByUserId(userId: number): Promise<UserIdentity[]> {
+  const query = `
+    SELECT id, provider, subject, email, created_at, last_login_at
+    FROM user_identities
+    WHERE user_id = $1
+    ORDER BY created_at;
+  `;
+  const { rows } = await pool.query<UserIdentity>(query, [userId]);
+  return rows;
+}
+
+export { getUserByIdentity, linkIdentity, createUserWithIdentity, getAllByUserId };
+export type { IdentityUser, UserIdentity };
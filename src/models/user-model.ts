@@ -1,4 +1,5 @@
-import {pool} from '../../db';
+import crypto from 'crypto';
+import {pool, withTransaction} from '../../db';
 
 /**
  * @module UserModel
@@ -8,9 +9,17 @@ import {pool} from '../../db';
  * - получение всех пользователей,
  * - получение одного пользователя по ID,
  * - получение пользователя по username,
+ * - получение пользователя по email,
  * - создание нового пользователя,
- * - удаление пользователя по ID,
- * - обновление информации пользователя.
+ * - удаление пользователя по ID и его восстановление,
+ * - анонимизация пользователя,
+ * - обновление информации пользователя,
+ * - смена пароля.
+ *
+ * Пользователи удаляются мягко (deleted_at): займы и штрафы остаются в истории,
+ * а войти или пройти аутентификацию удалённый пользователь не может.
+ * Анонимизированный пользователь остаётся в таблице под псевдонимом, чтобы статистика
+ * по займам не менялась, но его персональные данные стёрты.
  */
 
 
@@ -23,6 +32,14 @@ import {pool} from '../../db';
  * @property {string} email - Электронная почта пользователя.
  * @property {string} password_hash - Хэш пароля пользователя.
  * @property {string} role - Роль пользователя (по умолчанию 'user').
+ * @property {Date|null} email_verified_at - Когда подтверждён текущий email (null — не подтверждён).
+ * @property {string} status - Статус учётной записи: active, suspended или deactivated.
+ * @property {string|null} status_reason - Причина блокировки или деактивации.
+ * @property {Date|null} suspended_until - До какого момента действует блокировка.
+ * @property {Date|null} deleted_at - Когда пользователь удалён (null — не удалён).
+ * @property {Date|null} anonymized_at - Когда персональные данные пользователя стёрты.
+ * @property {boolean} keep_loan_history - Не отвязывать старые займы по политике хранения.
+ * @property {number} unlinked_loans_count - Сколько займов уже отвязано политикой хранения.
  * @property {Date} created_at - Дата создания записи.
  * @property {Date} updated_at - Дата последнего обновления записи.
  */
@@ -33,10 +50,59 @@ type User = {
   email: string;
   password_hash: string;
   role: string;
+  email_verified_at: Date | null;
+  status: string;
+  status_reason: string | null;
+  suspended_until: Date | null;
+  deleted_at: Date | null;
+  anonymized_at: Date | null;
+  keep_loan_history: boolean;
+  unlinked_loans_count: number;
   created_at: Date;
   updated_at: Date;
 };
 
+/**
+ * Поля пользователя, которые можно обновить через `update`.
+ *
+ * @typedef {Object} UserUpdateDto
+ * @property {string} [username] - Новое имя пользователя.
+ * @property {string} [email] - Новый email.
+ * @property {boolean} [emailVerified] - Отметить email подтверждённым (true) или неподтверждённым (false).
+ * @property {boolean} [keepLoanHistory] - Хранить историю займов без ограничения срока.
+ */
+type UserUpdateDto = {
+  username?: string;
+  email?: string;
+  emailVerified?: boolean;
+  keepLoanHistory?: boolean;
+};
+
+type RemoveUserResult =
+  | { status: 'ok'; user: User }
+  | { status: 'not_found' }
+  | { status: 'has_open_loans' }
+  | { status: 'last_admin' };
+
+type AnonymizeUserResult =
+  | { status: 'ok'; user: User }
+  | { status: 'not_found' }
+  | { status: 'already_anonymized' }
+  | { status: 'has_open_loans' }
+  | { status: 'has_outstanding_fines' }
+  | { status: 'last_admin' };
+
+type CreateUserResult =
+  | { status: 'ok'; user: User }
+  | { status: 'username_taken' }
+  | { status: 'email_taken' };
+
+type UpdateUserResult =
+  | { status: 'ok'; user: User }
+  | { status: 'not_found' }
+  | { status: 'username_taken' }
+  | { status: 'email_taken' };
+
 
 
 /**
@@ -48,7 +114,7 @@ type User = {
  * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
  */
 async function getAll() {
-  const query: string = 'SELECT * FROM users';
+  const query: string = 'SELECT * FROM users WHERE deleted_at IS NULL';
   const result = await pool.query(query);
   return result.rows as User [];
 };
@@ -97,6 +163,40 @@ async function getOneByName(username: string) {
 
 
 
+/**
+ * Считает пользователей с указанной ролью.
+ *
+ * @async
+ * @function countByRole
+ * @param {string} role - Роль.
+ * @returns {Promise<number>} Количество пользователей.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function countByRole(role: string) {
+  const query: string = 'SELECT COUNT(*)::int AS count FROM users WHERE role = $1 AND deleted_at IS NULL;';
+  const result = await pool.query(query, [role]);
+
+  return result.rows[0].count as number;
+};
+
+
+/**
+ * Получает пользователя по email (без учёта регистра).
+ *
+ * @async
+ * @function getOneByEmail
+ * @param {string} email - Электронная почта пользователя.
+ * @returns {Promise<User|null>} Объект пользователя или null, если не найден.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function getOneByEmail(email: string) {
+  const query: string = 'SELECT * FROM users WHERE LOWER(email) = LOWER($1);';
+  const result = await pool.query(query, [email]);
+
+  return result.rows[0] as User || null;
+};
+
+
 /**
  * Создает нового пользователя.
  * 
@@ -106,103 +206,299 @@ async function getOneByName(username: string) {
  * @param {string} userEmail - Электронная почта пользователя.
  * @param {string} password_hash - Хэш пароля.
  * @param {string} [role='user'] - Роль пользователя.
- * @returns {Promise<User>} Объект созданного пользователя.
+ * @returns {Promise<CreateUserResult>} Созданный пользователь или занятое поле.
  * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
  */
-async function create(userName: string, userEmail: string, password_hash: string, role = 'user') {
+async function create(userName: string, userEmail: string, password_hash: string, role = 'user'): Promise<CreateUserResult> {
   const query = 'INSERT INTO users (username, email, password_hash, role ) values ($1, $2, $3, $4) RETURNING * ';
   const values = [userName, userEmail, password_hash, role];
   try {
     const result = await pool.query(query, values);
-    return result.rows[0] as User;
+    return { status: 'ok', user: result.rows[0] as User };
   } catch (err:any) {
+    if (err.code === '23505' && err.constraint === 'users_username_key') {
+      return { status: 'username_taken' };
+    }
+
+    if (err.code === '23505' && err.constraint === 'users_email_key') {
+      return { status: 'email_taken' };
+    }
+
     console.error('Error executing query', err);
     throw err;
   }
 }
 
 /**
- * Удаляет пользователя по ID.
+ * Удаляет пользователя по ID (мягко): закрывает его сессии и отменяет активные брони.
+ * Пока у пользователя есть книги на руках, удалить его нельзя; последнего администратора — тоже.
  * 
  * @async
  * @function remove
  * @param {number} userId - Уникальный идентификатор пользователя.
- * @returns {Promise<User|null>} Объект удаленного пользователя или null, если не найден.
+ * @returns {Promise<RemoveUserResult>} Удалённый пользователь или причина отказа.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function remove(userId: number): Promise<RemoveUserResult> {
+  return withTransaction(async (client) => {
+    // блокируем пользователя вместе с администраторами (как при смене роли),
+    // а выдача книг блокирует ту же строку пользователя — новая выдача не проскочит
+    const { rows } = await client.query<{ id: number; role: string }>(
+      "SELECT id, role FROM users WHERE (id = $1 OR role = 'admin') AND deleted_at IS NULL ORDER BY id FOR UPDATE",
+      [userId],
+    );
+    const target = rows.find((row) => row.id === userId);
+
+    if (!target) {
+      return { status: 'not_found' };
+    }
+
+    if (target.role === 'admin' && rows.filter((row) => row.role === 'admin').length === 1) {
+      return { status: 'last_admin' };
+    }
+
+    const openLoans = await client.query(
+      'SELECT 1 FROM book_loans WHERE user_id = $1 AND returned_at IS NULL LIMIT 1;',
+      [userId],
+    );
+
+    if (openLoans.rowCount) {
+      return { status: 'has_open_loans' };
+    }
+
+    const result = await client.query<User>(
+      'UPDATE users SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1 RETURNING *',
+      [userId],
+    );
+
+    await client.query(
+      `UPDATE holds SET status = 'cancelled', closed_at = NOW() WHERE user_id = $1 AND status IN ('waiting', 'ready');`,
+      [userId],
+    );
+    await client.query('DELETE FROM refresh_tokens WHERE user_id = $1', [userId]);
+
+    return { status: 'ok', user: result.rows[0] };
+  });
+}
+
+/**
+ * Восстанавливает удалённого пользователя. Сессии и брони не восстанавливаются,
+ * анонимизированного пользователя восстановить нельзя.
+ * 
+ * @async
+ * @function restore
+ * @param {number} userId - Уникальный идентификатор пользователя.
+ * @returns {Promise<User|null>} Восстановленный пользователь или null, если удалённого пользователя с таким ID нет.
  * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
  */
-async function remove(userId: number) {
-  // RETURNING * - какие данные должны быть возвращены после выполнения операции удаления.
-  // благодаря returning *, в логах result будет содержаться объект с удаленной записью
-  const query = 'DELETE FROM users WHERE id = $1  RETURNING *';
-  const values = [userId];
-  const result = await pool.query(query, values);
-
-  return result.rows[0] as User;
+async function restore(userId: number) {
+  const query = `
+    UPDATE users SET deleted_at = NULL, updated_at = NOW()
+    WHERE id = $1 AND deleted_at IS NOT NULL AND anonymized_at IS NULL
+    RETURNING *`;
+  const { rows } = await pool.query<User>(query, [userId]);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Анонимизирует пользователя: заменяет username и email заглушками, стирает хэш пароля,
+ * удаляет сессии, токены, 2FA и внешние учётные записи, отзывает созданные им API-ключи,
+ * а из журналов входов и событий безопасности убирает IP, User-Agent и подробности.
+ * Займы, брони и штрафы остаются привязаны к той же строке users, поэтому статистика не меняется.
+ * Пока у пользователя есть книги на руках или непогашенные штрафы, анонимизировать его нельзя;
+ * последнего администратора — тоже. Удалённого пользователя анонимизировать можно.
+ *
+ * @async
+ * @function anonymize
+ * @param {number} userId - Уникальный идентификатор пользователя.
+ * @returns {Promise<AnonymizeUserResult>} Анонимизированный пользователь или причина отказа.
+ * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ */
+async function anonymize(userId: number): Promise<AnonymizeUserResult> {
+  return withTransaction(async (client) => {
+    // тот же порядок блокировок, что и при удалении: пользователь и администраторы по id
+    const { rows } = await client.query<User>(
+      "SELECT * FROM users WHERE id = $1 OR (role = 'admin' AND deleted_at IS NULL) ORDER BY id FOR UPDATE",
+      [userId],
+    );
+    const target = rows.find((row) => row.id === userId);
+
+    if (!target) {
+      return { status: 'not_found' };
+    }
+
+    if (target.anonymized_at) {
+      return { status: 'already_anonymized' };
+    }
+
+    const activeAdmins = rows.filter((row) => row.role === 'admin' && row.deleted_at === null);
+
+    if (target.role === 'admin' && target.deleted_at === null && activeAdmins.length === 1) {
+      return { status: 'last_admin' };
+    }
+
+    const openLoans = await client.query(
+      'SELECT 1 FROM book_loans WHERE user_id = $1 AND returned_at IS NULL LIMIT 1;',
+      [userId],
+    );
+
+    if (openLoans.rowCount) {
+      return { status: 'has_open_loans' };
+    }
+
+    const openFines = await client.query("SELECT 1 FROM fines WHERE user_id = $1 AND status = 'open' LIMIT 1;", [userId]);
+
+    if (openFines.rowCount) {
+      return { status: 'has_outstanding_fines' };
+    }
+
+    // случайный суффикс: заглушку нельзя заранее занять при регистрации
+    const placeholder = `anonymized-${userId}-${crypto.randomBytes(4).toString('hex')}`;
+
+    // пустой хэш не совпадёт ни с одним паролем
+    const result = await client.query<User>(
+      `UPDATE users
+       SET username = $1, email = $2, password_hash = '', email_verified_at = NULL,
+           status_reason = NULL, anonymized_at = NOW(), updated_at = NOW()
+       WHERE id = $3
+       RETURNING *`,
+      [placeholder, `${placeholder}@anonymized.invalid`, userId],
+    );
+
+    await client.query(
+      `UPDATE holds SET status = 'cancelled', closed_at = NOW() WHERE user_id = $1 AND status IN ('waiting', 'ready');`,
+      [userId],
+    );
+
+    for (const table of [
+      'refresh_tokens',
+      'password_reset_tokens',
+      'email_verification_tokens',
+      'user_two_factor',
+      'user_recovery_codes',
+      'user_identities',
+    ]) {
+      await client.query(`DELETE FROM ${table} WHERE user_id = $1`, [userId]);
+    }
+
+    // попытки входа ищем и по введённому имени: до входа user_id у неудачной попытки может не быть
+    await client.query(
+      'UPDATE login_attempts SET username = $1, ip = NULL, user_agent = NULL WHERE user_id = $2 OR LOWER(username) = LOWER($3)',
+      [placeholder, userId, target.username],
+    );
+    await client.query(
+      "UPDATE security_events SET details = '{}', ip = NULL, user_agent = NULL WHERE user_id = $1",
+      [userId],
+    );
+    await client.query('DELETE FROM mail_outbox WHERE LOWER(to_address) = LOWER($1)', [target.email]);
+    await client.query('UPDATE api_keys SET revoked_at = NOW() WHERE created_by = $1 AND revoked_at IS NULL', [userId]);
+
+    return { status: 'ok', user: result.rows[0] };
+  });
 }
 
 
 /**
- * Обновляет поля пользователя.
+ * Обновляет поля пользователя. Меняются только колонки из белого списка;
+ * при смене email адрес снова считается неподтверждённым, если явно не передано emailVerified.
  * 
  * @async
  * @function update
  * @param {number} userId - ID пользователя.
- * @param {Object} fieldsToUpdate - Объект с полями для обновления. Пример: { username: 'newName', email: 'newEmail' }.
- * @returns {Promise<User|null>} Объект обновленного пользователя или null, если не найден.
- * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
+ * @param {UserUpdateDto} fieldsToUpdate - Поля для обновления. Пример: { username: 'newName', email: 'newEmail' }.
+ * @returns {Promise<UpdateUserResult>} Обновлённый пользователь, `not_found` или занятые username/email.
+ * @throws {Error} Если не передано ни одного поля или произошла ошибка при выполнении SQL-запроса.
  */
-async function update(userId: number, fieldsToUpdate: any) {
-  // Проверяем, что есть что обновлять
-  const keys = Object.keys(fieldsToUpdate);
+async function update(userId: number, fieldsToUpdate: UserUpdateDto): Promise<UpdateUserResult> {
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+
+  // имена колонок берём только из кода, из запроса приходят лишь значения
+  if (fieldsToUpdate.username !== undefined) {
+    values.push(fieldsToUpdate.username);
+    assignments.push(`username = $${values.length}`);
+  }
+
+  if (fieldsToUpdate.email !== undefined) {
+    values.push(fieldsToUpdate.email);
+    assignments.push(`email = $${values.length}`);
 
-  if (keys.length === 0) {
-    return null;
-  };
+    if (fieldsToUpdate.emailVerified === undefined) {
+      // справа от = стоит старое значение email: подтверждение сбрасываем, только если адрес изменился
+      assignments.push(`email_verified_at = CASE WHEN email = $${values.length} THEN email_verified_at END`);
+    }
+  }
 
-  // Генерируем SET часть запроса: "name = $1, email = $2"
-  const setQuery = keys.map((key, idx) => `${key} = $${idx + 1}`).join(', ');
-  // Формируем массив значений в том же порядке
-  const values = keys.map(key => fieldsToUpdate[key]);
+  if (fieldsToUpdate.emailVerified !== undefined) {
+    values.push(fieldsToUpdate.emailVerified);
+    assignments.push(
+      `email_verified_at = CASE WHEN $${values.length}::boolean THEN COALESCE(email_verified_at, NOW()) END`,
+    );
+  }
+
+  if (fieldsToUpdate.keepLoanHistory !== undefined) {
+    values.push(fieldsToUpdate.keepLoanHistory);
+    assignments.push(`keep_loan_history = $${values.length}`);
+  }
+
+  if (assignments.length === 0) {
+    throw new Error('Nothing to update');
+  }
 
   values.push(userId); // добавляем userId для WHERE
-  const query = `UPDATE users SET ${setQuery}, updated_at = NOW() WHERE id = $${values.length} RETURNING *`;
+  const query = `UPDATE users SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = $${values.length} RETURNING *`;
 
   try {
-    const result = await pool.query(query, values);
+    const result = await pool.query<User>(query, values);
 
     if (result.rows.length === 0) {
-      return null;
+      return { status: 'not_found' };
     };
     
-    return result.rows[0] as User;
-  } catch (err:any) {
-    console.error('Error updating user:', err);
+    return { status: 'ok', user: result.rows[0] };
+  } catch (err: any) {
+    if (err.code === '23505' && err.constraint === 'users_username_key') {
+      return { status: 'username_taken' };
+    }
+
+    if (err.code === '23505' && err.constraint === 'users_email_key') {
+      return { status: 'email_taken' };
+    }
+
+    throw err;
   }
 };
 
 /**
- * Обновляет эл. почту пользователя.
- * 
+ * Устанавливает новый хэш пароля пользователя.
+ *
  * @async
- * @function updateMail
- * @param {string} newMail - новая почта пользователя.
+ * @function updatePassword
  * @param {number} userId - ID пользователя.
- * @returns {Promise<User|null>} Объект обновленного пользователя или null, если не найден.
+ * @param {string} passwordHash - хэш нового пароля.
+ * @returns {Promise<boolean>} true, если пользователь найден и пароль обновлён.
  * @throws {Error} Если произошла ошибка при выполнении SQL-запроса.
  */
-async function updateMail(newMail: string, userId: number) {
-  const query: string = 'UPDATE users SET mail = $1 WHERE id = $2 RETURNING *';
-  const values = [newMail, userId];
-  const { rows, rowCount } = await pool.query<User>(query, values);
+async function updatePassword(userId: number, passwordHash: string) {
+  const query: string = 'UPDATE users SET password_hash = $1, updated_at = NOW() WHERE id = $2';
+  const { rowCount } = await pool.query(query, [passwordHash, userId]);
 
-  if (rowCount === 0) {
-    return null;
-  }
-
-  console.log(`Users updated successfully: ${rows[0].username}`)  
-
-  return rows[0];
+  return rowCount === 1;
 };
 
 
-export { updateMail, update, remove, getAll, create, getOneById, getOneByName };
+export {
+  updatePassword,
+  update,
+  remove,
+  restore,
+  anonymize,
+  getAll,
+  create,
+  getOneById,
+  getOneByName,
+  getOneByEmail,
+  countByRole,
+};
+export type { User, UserUpdateDto, CreateUserResult, UpdateUserResult, RemoveUserResult, AnonymizeUserResult };
@@ -0,0 +1,214 @@
+import { PoolClient } from 'pg';
+import { pool, withTransaction } from '../../db';
+
+/**
+ * @module UserStatusModel
+ * Модуль для смены статуса учётных записей и работы с журналом `user_status_changes`.
+ *
+ * Учётная запись может быть активной, заблокированной до определённого момента (suspended)
+ * или деактивированной. Истёкшая блокировка снимается автоматически при первом обращении
+ * к статусу пользователя; такое снятие тоже записывается в журнал (changed_by = NULL).
+ *
+ * Содержит функции для:
+ * - получения текущего статуса (со снятием истёкшей блокировки),
+ * - смены статуса с записью в журнал,
+ * - получения истории статусов пользователя.
+ */
+
+const ACCOUNT_STATUSES = ['active', 'suspended', 'deactivated'] as const;
+
+type AccountStatus = (typeof ACCOUNT_STATUSES)[number];
+
+/**
+ * пользовательский тип, описывающий текущий статус учётной записи.
+ *
+ * @typedef {Object} AccountState
+ * @property {AccountStatus} status - Статус.
+ * @property {string|null} status_reason - Причина блокировки или деактивации.
+ * @property {Date|null} suspended_until - До какого момента действует блокировка.
+ * @property {string} role - Текущая роль пользователя.
+ */
+type AccountState = {
+  role: string;
+  status: AccountStatus;
+  status_reason: string | null;
+  suspended_until: Date | null;
+};
+
+/**
+ * пользовательский тип, описывающий запись журнала статусов.
+ *
+ * @typedef {Object} UserStatusChange
+ * @property {number} id - Уникальный идентификатор записи.
+ * @property {number} user_id - ID пользователя, чей статус изменён.
+ * @property {AccountStatus} old_status - Прежний статус.
+ * @property {AccountStatus} new_status - Новый статус.
+ * @property {string|null} reason - Причина изменения.
+ * @property {Date|null} suspended_until - Срок блокировки (для статуса suspended).
+ * @property {number|null} changed_by - ID администратора (null — изменено автоматически).
+ * @property {Date} changed_at - Когда статус изменён.
+ * @property {string|null} [changed_by_username] - Имя администратора.
+ */
+type UserStatusChange = {
+  id: number;
+  user_id: number;
+  old_status: AccountStatus;
+  new_status: AccountStatus;
+  reason: string | null;
+  suspended_until: Date | null;
+  changed_by: number | null;
+  changed_at: Date;
+  changed_by_username?: string | null;
+};
+
+type StatusChangeDto = {
+  status: AccountStatus;
+  reason: string | null;
+  suspendedUntil: Date | null;
+};
+
+type ChangeStatusResult =
+  | { status: 'ok'; change: UserStatusChange }
+  | { status: 'not_found' }
+  | { status: 'unchanged' }
+  | { status: 'last_admin' };
+
+/**
+ * Вставляет запись в журнал статусов.
+ * @param db - пул или клиент транзакции
+ * @param userId - ID пользователя
+ * @param oldStatus - прежний статус
+ * @param dto - новый статус, причина и срок блокировки
+ * @param changedBy - ID администратора (null — изменено автоматически)
+ */
+async function insertChange(
+  db: PoolClient | typeof pool,
+  userId: number,
+  oldStatus: AccountStatus,
+  dto: StatusChangeDto,
+  changedBy: number | null,
+): Promise<UserStatusChange> {
+  const query = `
+    INSERT INTO user_status_changes (user_id, old_status, new_status, reason, suspended_until, changed_by)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *;
+  `;
+  const values = [userId, oldStatus, dto.status, dto.reason, dto.suspendedUntil, changedBy];
+  const { rows } = await db.query<UserStatusChange>(query, values);
+  return rows[0];
+}
+
+/**
+ * Возвращает статус учётной записи. Если срок блокировки истёк, снимает её
+ * и записывает автоматическую активацию в журнал.
+ * @param {number} userId - ID пользователя
+ * @returns {Promise<AccountState|null>} Статус или null, если пользователь не найден, удалён или анонимизирован.
+ */
+async function getAccountState(userId: number): Promise<AccountState | null> {
+  const { rows } = await pool.query<AccountState & { expired: boolean }>(
+    `SELECT role, status, status_reason, suspended_until,
+            (status = 'suspended' AND suspended_until <= NOW()) AS expired
+     FROM users
+     WHERE id = $1
+       AND deleted_at IS NULL
+       AND anonymized_at IS NULL`,
+    [userId],
+  );
+
+  if (!rows[0]) {
+    return null;
+  }
+
+  const { expired, ...state } = rows[0];
+
+  if (!expired) {
+    return state;
+  }
+
+  await withTransaction(async (client) => {
+    // условие повторяем в UPDATE: параллельный запрос мог уже снять блокировку или админ — продлить её
+    const { rowCount } = await client.query(
+      `UPDATE users
+       SET status = 'active', status_reason = NULL, suspended_until = NULL, updated_at = NOW()
+       WHERE id = $1 AND status = 'suspended' AND suspended_until <= NOW()`,
+      [userId],
+    );
+
+    if (rowCount) {
+      await insertChange(
+        client,
+        userId,
+        'suspended',
+        { status: 'active', reason: 'Suspension expired', suspendedUntil: null },
+        null,
+      );
+    }
+  });
+
+  return getAccountState(userId);
+}
+
+/**
+ * Меняет статус учётной записи и записывает изменение в журнал.
+ * Последнего активного администратора заблокировать или деактивировать нельзя.
+ * Повторная блокировка уже заблокированного пользователя обновляет причину и срок.
+ * @param {number} userId - ID пользователя
+ * @param {StatusChangeDto} dto - новый статус, причина и срок блокировки
+ * @param {number} changedBy - ID администратора
+ * @returns {Promise<ChangeStatusResult>} Результат смены статуса.
+ */
+async function changeStatus(userId: number, dto: StatusChangeDto, changedBy: number): Promise<ChangeStatusResult> {
+  return withTransaction(async (client) => {
+    // тот же порядок блокировок, что и при смене роли: пользователь и все администраторы по id
+    const { rows } = await client.query<{ id: number; role: string; status: AccountStatus }>(
+      "SELECT id, role, status FROM users WHERE id = $1 OR (role = 'admin' AND deleted_at IS NULL) ORDER BY id FOR UPDATE",
+      [userId],
+    );
+    const target = rows.find((row) => row.id === userId);
+
+    if (!target) {
+      return { status: 'not_found' };
+    }
+
+    const oldStatus = target.status;
+
+    if (oldStatus === dto.status && dto.status !== 'suspended') {
+      return { status: 'unchanged' };
+    }
+
+    const activeAdmins = rows.filter((row) => row.role === 'admin' && row.status === 'active');
+
+    if (dto.status !== 'active' && target.role === 'admin' && oldStatus === 'active' && activeAdmins.length === 1) {
+      return { status: 'last_admin' };
+    }
+
+    await client.query(
+      `UPDATE users
+       SET status = $1, status_reason = $2, suspended_until = $3, updated_at = NOW()
+       WHERE id = $4`,
+      [dto.status, dto.status === 'active' ? null : dto.reason, dto.suspendedUntil, userId],
+    );
+
+    const change = await insertChange(client, userId, oldStatus, dto, changedBy);
+    return { status: 'ok', change };
+  });
+}
+
+/**
+ * Получает историю статусов пользователя, новые изменения — первыми.
+ * @param {number} userId - ID пользователя
+ */
+async function getAllByUserId(userId: number): Promise<UserStatusChange[]> {
+  const query = `
+    SELECT sc.*, u.username AS changed_by_username
+    FROM user_status_changes sc
+    LEFT JOIN users u ON u.id = sc.changed_by
+    WHERE sc.user_id = $1
+    ORDER BY sc.changed_at DESC, sc.id DESC;
+  `;
+  const { rows } = await pool.query<UserStatusChange>(query, [userId]);
+  return rows;
+}
+
+export { ACCOUNT_STATUSES, getAccountState, changeStatus, getAllByUserId };
+export type { AccountStatus, AccountState, UserStatusChange, StatusChangeDto, ChangeStatusResult };
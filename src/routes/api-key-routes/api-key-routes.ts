@@ -0,0 +1,16 @@
+"use strict";
+import express from "express";
+import { createApiKey, getApiKeys, revokeApiKey } from '../../services/api-key-service/api-key-service';
+import { authenticateToken, requireUserSession } from '../../middleware/auth-middleware';
+import { requirePermission } from '../../middleware/permission-middleware';
+
+const router = express.Router();
+
+// Ключами управляют только люди: API-ключ не может выпускать и отзывать ключи
+router.use(authenticateToken, requireUserSession, requirePermission('api_keys:manage'));
+
+router.get('/', getApiKeys);
+router.post('/', createApiKey);
+router.delete('/:id', revokeApiKey);
+
+export default router;
@@ -5,14 +5,54 @@ import {
     loginUser, 
     getProfile, 
     refreshAccessToken,
+    changePassword,
+    logoutUser,
+    logoutAllSessions,
+    getSessions,
+    revokeSession,
     } from '../../services/auth-service/auth-service'; 
-import { authenticateToken }from '../../middleware/auth-middleware';
+import { forgotPassword, resetPassword } from '../../services/auth-service/password-reset-service';
+import { verifyEmail, resendVerificationEmail } from '../../services/auth-service/email-verification-service';
+import { getLoginAttempts } from '../../services/auth-service/login-attempts-service';
+import {
+    getTwoFactorStatus,
+    enrollTwoFactor,
+    confirmTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+    verifyLoginTwoFactor,
+    getRequiredRoles,
+    updateRequiredRoles,
+    } from '../../services/auth-service/two-factor-service';
+import { startOidcLogin, handleOidcCallback } from '../../services/auth-service/oidc-service';
+import { authenticateToken, requireUserSession }from '../../middleware/auth-middleware';
+import { requirePermission } from '../../middleware/permission-middleware';
 
 const router = express.Router();
 
 router.post('/register', registerUser);
 router.post('/login', loginUser);
-router.get('/profile', authenticateToken, getProfile);
+router.post('/login/2fa', verifyLoginTwoFactor);
+router.get('/oidc/login', startOidcLogin);
+router.get('/oidc/callback', handleOidcCallback);
+router.get('/profile', authenticateToken, requireUserSession, getProfile);
 router.post('/refresh', refreshAccessToken)
+router.post('/logout', logoutUser);
+router.post('/logout-all', authenticateToken, requireUserSession, logoutAllSessions);
+router.get('/sessions', authenticateToken, requireUserSession, getSessions);
+router.delete('/sessions/:id', authenticateToken, requireUserSession, revokeSession);
+router.post('/password/forgot', forgotPassword);
+router.post('/password/reset', resetPassword);
+router.post('/password/change', authenticateToken, requireUserSession, changePassword);
+router.get('/login-attempts', authenticateToken, requirePermission('users:manage'), getLoginAttempts);
+router.get('/verify-email', verifyEmail);
+router.post('/verify-email/resend', authenticateToken, requireUserSession, resendVerificationEmail);
+router.get('/2fa', authenticateToken, requireUserSession, getTwoFactorStatus);
+router.post('/2fa/enroll', authenticateToken, requireUserSession, enrollTwoFactor);
+router.post('/2fa/confirm', authenticateToken, requireUserSession, confirmTwoFactor);
+router.post('/2fa/disable', authenticateToken, requireUserSession, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticateToken, requireUserSession, regenerateRecoveryCodes);
+router.get('/2fa/required-roles', authenticateToken, requireUserSession, requirePermission('settings:manage'), getRequiredRoles);
+router.put('/2fa/required-roles', authenticateToken, requireUserSession, requirePermission('settings:manage'), updateRequiredRoles);
 
 export default router;
\ No newline at end of file
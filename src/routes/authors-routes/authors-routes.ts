@@ -1,13 +1,16 @@
 "use strict";
 import express from "express";
-import { getAllAuthors, getAuthor, createAuthor, deleteAuthor
+import { getAllAuthors, getAuthor, createAuthor, deleteAuthor, restoreAuthor
 } from '../../services/authors-service/authors-service'
+import { authenticateToken } from '../../middleware/auth-middleware';
+import { requirePermission } from '../../middleware/permission-middleware';
 
 const router = express.Router();
 
 router.get('/', getAllAuthors);
 router.get('/:id', getAuthor);
-router.post('/', createAuthor);
-router.delete('/:id', deleteAuthor);
+router.post('/', authenticateToken, requirePermission('authors:write'), createAuthor);
+router.delete('/:id', authenticateToken, requirePermission('authors:write'), deleteAuthor);
+router.post('/:id/restore', authenticateToken, requirePermission('records:restore'), restoreAuthor);
 
 export default router;
\ No newline at end of file
@@ -4,16 +4,29 @@ import {
     getAllLoans, 
     getLoan, 
     checkoutBook, 
-    returnBook 
+    checkoutCopy,
+    checkoutBookOnBehalf,
+    checkoutCopyOnBehalf,
+    returnBook,
+    returnBookOnBehalf,
+    renewLoan
 } from   '../../services/books-service/books-loans-service';
 
-const { authenticateToken } = require('../../middleware/auth-middleware'); // how here?
+const { authenticateToken, requireUserSession } = require('../../middleware/auth-middleware'); // how here?
+import { requirePermission, requirePermissionForApiKey } from '../../middleware/permission-middleware';
 
 const router = express.Router();
 
-router.get('/', getAllLoans);
-router.get('/:id', getLoan);
-router.post('/:id/checkout', authenticateToken, checkoutBook); 
-router.post('/:id/return', authenticateToken, returnBook);
+router.get('/', authenticateToken, requirePermission('loans:read'), getAllLoans);
+router.get('/:id', authenticateToken, requirePermissionForApiKey('loans:read'), getLoan);
+// читатель берёт и возвращает книги сам; API-ключу для этого есть маршруты on-behalf
+router.post('/:id/checkout', authenticateToken, requireUserSession, checkoutBook); 
+router.post('/copies/:barcode/checkout', authenticateToken, requireUserSession, checkoutCopy);
+router.post('/:id/return', authenticateToken, requireUserSession, returnBook);
+// выдача и возврат сотрудником библиотеки за читателя (req.body.user_id)
+router.post('/:id/checkout/on-behalf', authenticateToken, requirePermission('loans:manage'), checkoutBookOnBehalf);
+router.post('/copies/:barcode/checkout/on-behalf', authenticateToken, requirePermission('loans:manage'), checkoutCopyOnBehalf);
+router.post('/:id/return/on-behalf', authenticateToken, requirePermission('loans:manage'), returnBookOnBehalf);
+router.post('/:id/renew', authenticateToken, requirePermissionForApiKey('loans:manage'), renewLoan);
 
 export default router;
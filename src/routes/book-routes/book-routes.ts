@@ -6,8 +6,13 @@ import {
     getBookById,
     getBookWithAuthor,
     createBook,
-    deleteBook, 
+    deleteBook,
+    restoreBook,
 } from '../../services/books-service/books-service';
+import { getBookCopies, createBookCopy, deleteBookCopy } from '../../services/books-service/book-copies-service';
+import { placeHold } from '../../services/holds-service/holds-service';
+import { authenticateToken, requireUserSession } from '../../middleware/auth-middleware';
+import { requirePermission } from '../../middleware/permission-middleware';
 
 const router = express.Router();
 
@@ -15,7 +20,12 @@ router.get('/with-authors', getAllBooksWithAuthors);
 router.get('/with-authors/:id', getBookWithAuthor);
 router.get('/', getAllBooks);
 router.get('/:id', getBookById);
-router.post('/', createBook);
-router.delete('/:id', deleteBook);
+router.post('/', authenticateToken, requirePermission('books:write'), createBook);
+router.delete('/:id', authenticateToken, requirePermission('books:write'), deleteBook);
+router.post('/:id/restore', authenticateToken, requirePermission('records:restore'), restoreBook);
+router.get('/:id/copies', getBookCopies);
+router.post('/:id/copies', authenticateToken, requirePermission('books:write'), createBookCopy);
+router.delete('/copies/:copyId', authenticateToken, requirePermission('books:write'), deleteBookCopy);
+router.post('/:id/holds', authenticateToken, requireUserSession, placeHold);
 
 export default router;
@@ -0,0 +1,12 @@
+"use strict";
+import express from "express";
+import { payFine, waiveFine } from '../../services/fines-service/fines-service';
+import { authenticateToken } from '../../middleware/auth-middleware';
+import { requirePermission } from '../../middleware/permission-middleware';
+
+const router = express.Router();
+
+router.post('/:id/payments', authenticateToken, requirePermission('fines:manage'), payFine);
+router.post('/:id/waive', authenticateToken, requirePermission('fines:waive'), waiveFine);
+
+export default router;
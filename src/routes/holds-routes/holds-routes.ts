@@ -0,0 +1,11 @@
+"use strict";
+import express from "express";
+import { cancelHold } from '../../services/holds-service/holds-service';
+import { authenticateToken } from '../../middleware/auth-middleware';
+import { requirePermissionForApiKey } from '../../middleware/permission-middleware';
+
+const router = express.Router();
+
+router.delete('/:id', authenticateToken, requirePermissionForApiKey('holds:manage'), cancelHold);
+
+export default router;
@@ -0,0 +1,21 @@
+"use strict";
+import express from "express";
+import { getMyHolds } from '../../services/holds-service/holds-service';
+import { getMe, updateMe, getMyLoans, getMyFines, deleteMe } from '../../services/me-service/me-service';
+import { exportMyData } from '../../services/user-data-service/user-data-service';
+import { authenticateToken, requireUserSession } from '../../middleware/auth-middleware';
+
+const router = express.Router();
+
+// /me — данные вошедшего пользователя; API-ключ иначе получил бы данные своего владельца
+router.use(authenticateToken, requireUserSession);
+
+router.get('/', getMe);
+router.patch('/', updateMe);
+router.delete('/', deleteMe);
+router.get('/loans', getMyLoans);
+router.get('/holds', getMyHolds);
+router.get('/fines', getMyFines);
+router.get('/export', exportMyData);
+
+export default router;
@@ -0,0 +1,14 @@
+"use strict";
+import express from "express";
+import { previewLoanRetention, runLoanRetention } from '../../services/retention-service/retention-service';
+import { authenticateToken } from '../../middleware/auth-middleware';
+import { requirePermission } from '../../middleware/permission-middleware';
+
+const router = express.Router();
+
+router.use(authenticateToken, requirePermission('retention:manage'));
+
+router.get('/loans', previewLoanRetention);
+router.post('/loans', runLoanRetention);
+
+export default router;
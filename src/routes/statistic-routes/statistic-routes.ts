@@ -2,9 +2,14 @@
 import express from 'express'
 import { getAllDebtors, getOneDebtor, getAllUnavailableService, getAllAvailableService, getTopUsers 
 } from '../../services/statistic-service/statistic-service'
+import { authenticateToken } from '../../middleware/auth-middleware';
+import { requirePermission } from '../../middleware/permission-middleware';
 
 const router = express.Router();
 
+// вся статистика доступна только сотрудникам
+router.use(authenticateToken, requirePermission('stats:read'));
+
 router.get('/debtors', getAllDebtors);
 router.get('/debtors/:username', getOneDebtor);
 router.get('/books/unavailable', getAllUnavailableService);
@@ -5,17 +5,36 @@ import {
     getOneUser,
     createUser,
     deleteUser,
+    restoreUser,
     updateUser,
-    updateUserMail
+    updateUserMail,
+    updateUserRole,
+    getUserRoleChanges,
+    updateUserStatus,
+    getUserStatusChanges
 } from '../../services/user-service/user-service';
+import { exportUserData, anonymizeUser } from '../../services/user-data-service/user-data-service';
+import { getUserFines } from '../../services/fines-service/fines-service';
+import { unlockUser } from '../../services/auth-service/login-attempts-service';
+import { authenticateToken } from '../../middleware/auth-middleware';
+import { requirePermission, requirePermissionUnlessOwner, requirePermissionForApiKey } from '../../middleware/permission-middleware';
 
 const router = express.Router();
 
-router.get('/', getAllUsers);
-router.get('/:id', getOneUser);
-router.post('/', createUser);
-router.put('/:id', updateUser);
-router.patch('/', updateUserMail);
-router.delete('/:id', deleteUser);
+router.get('/', authenticateToken, requirePermission('users:read'), getAllUsers);
+router.get('/:id', authenticateToken, requirePermission('users:read'), getOneUser);
+router.post('/', authenticateToken, requirePermission('users:manage'), createUser);
+router.patch('/:id', authenticateToken, requirePermissionUnlessOwner('users:manage'), updateUser);
+router.patch('/', authenticateToken, requirePermission('users:manage'), updateUserMail);
+router.delete('/:id', authenticateToken, requirePermission('users:manage'), deleteUser);
+router.post('/:id/restore', authenticateToken, requirePermission('records:restore'), restoreUser);
+router.get('/:id/fines', authenticateToken, requirePermissionForApiKey('fines:manage'), getUserFines);
+router.post('/:id/unlock', authenticateToken, requirePermission('users:manage'), unlockUser);
+router.put('/:id/role', authenticateToken, requirePermission('roles:manage'), updateUserRole);
+router.get('/:id/role-changes', authenticateToken, requirePermission('roles:manage'), getUserRoleChanges);
+router.put('/:id/status', authenticateToken, requirePermission('users:manage'), updateUserStatus);
+router.get('/:id/status-changes', authenticateToken, requirePermission('users:manage'), getUserStatusChanges);
+router.get('/:id/export', authenticateToken, requirePermissionUnlessOwner('users:manage'), exportUserData);
+router.post('/:id/anonymize', authenticateToken, requirePermission('users:manage'), anonymizeUser);
 
 export default router;
@@ -0,0 +1,9 @@
+"use strict";
+import express from "express";
+import { getJwks } from '../../services/auth-service/token-service';
+
+const router = express.Router();
+
+router.get('/jwks.json', getJwks);
+
+export default router;
@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+
+import { create, getAll, revoke, API_KEY_PREFIX } from '../../models/api-key-model';
+import { logSecurityEvent } from '../../models/security-event-model';
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { generateToken } from '../../utils/crypto-utils';
+import { PERMISSIONS, Permission, hasPermission } from '../../config/roles';
+
+/**
+ * @module ApiKeyService
+ * Сервисный модуль для управления API-ключами интеграций (киоск, скрипты отчётов).
+ *
+ * Содержит функции для:
+ * - выпуска ключа (сам ключ показывается только один раз),
+ * - получения списка ключей,
+ * - отзыва ключа.
+ */
+
+type ApiKeyCreateRequestDto = {
+  name?: unknown;
+  permissions?: unknown;
+  expiresAt?: unknown;
+};
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Генерирует новый ключ вида lib_<префикс>_<секрет>.
+ * Префикс хранится открыто и показывается в списке ключей, чтобы ключ можно было узнать.
+ */
+function generateApiKey(): { key: string; keyPrefix: string } {
+  const keyPrefix = `${API_KEY_PREFIX}${crypto.randomBytes(4).toString('hex')}`;
+
+  return { key: `${keyPrefix}_${generateToken()}`, keyPrefix };
+}
+
+/**
+ * Выпускает API-ключ. Права ключа не могут превышать права того, кто его выпускает.
+ *
+ * @async
+ * @function createApiKey
+ * @param {import('express').Request} req - Объект запроса, содержит body: { name, permissions, expiresAt? }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с данными ключа и самим ключом (показывается только один раз).
+ * @throws {Error} Если данные некорректны или произошла ошибка сервера.
+ */
+async function createApiKey(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const { name, permissions, expiresAt } = (req.body ?? {}) as ApiKeyCreateRequestDto;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+    return res.status(400).json({ error: `name is required and must be at most ${MAX_NAME_LENGTH} characters` });
+  }
+
+  if (
+    !Array.isArray(permissions) ||
+    permissions.length === 0 ||
+    permissions.some((permission) => !(PERMISSIONS as readonly unknown[]).includes(permission))
+  ) {
+    return res.status(400).json({ error: `permissions must be a non-empty array of: ${PERMISSIONS.join(', ')}` });
+  }
+
+  const notHeld = (permissions as Permission[]).filter((permission) => !hasPermission(req.user!.role, permission));
+
+  if (notHeld.length > 0) {
+    return res.status(403).json({ error: 'Cannot grant permissions you do not have', permissions: notHeld });
+  }
+
+  let expiresAtIso: string | null = null;
+
+  if (expiresAt !== undefined && expiresAt !== null) {
+    const date = typeof expiresAt === 'string' ? new Date(expiresAt) : null;
+
+    if (!date || Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      return res.status(400).json({ error: 'expiresAt must be a date in the future' });
+    }
+
+    expiresAtIso = date.toISOString();
+  }
+
+  try {
+    const { key, keyPrefix } = generateApiKey();
+    const apiKey = await create({
+      name: name.trim(),
+      key,
+      keyPrefix,
+      permissions: [...new Set(permissions as Permission[])],
+      createdBy: req.user!.id,
+      expiresAt: expiresAtIso,
+    });
+
+    await logSecurityEvent({
+      userId: req.user!.id,
+      eventType: 'api_key_created',
+      details: { apiKeyId: apiKey.id, name: apiKey.name, permissions: apiKey.permissions },
+      ip: req.ip ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    return res.status(201).json({
+      message: 'API key created, store it now: it will not be shown again',
+      apiKey,
+      key,
+    });
+  } catch (err) {
+    console.error('createApiKey error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Получает список API-ключей (без самих ключей — только префиксы).
+ *
+ * @async
+ * @function getApiKeys
+ * @param {import('express').Request} req - Объект запроса.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON со списком ключей.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getApiKeys(req: Request, res: Response): Promise<Response> {
+  try {
+    return res.json(await getAll());
+  } catch (err) {
+    console.error('getApiKeys error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Отзывает API-ключ; запросы с ним сразу перестают приниматься.
+ *
+ * @async
+ * @function revokeApiKey
+ * @param {import('express').Request} req - req.params.id содержит ID ключа.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с отозванным ключом.
+ * @throws {Error} Если ключ не найден, уже отозван или произошла ошибка сервера.
+ */
+async function revokeApiKey(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const apiKeyId = Number(req.params.id);
+
+  if (!Number.isInteger(apiKeyId) || apiKeyId <= 0) {
+    return res.status(404).json({ error: 'API key not found' });
+  }
+
+  try {
+    const result = await revoke(apiKeyId);
+
+    switch (result.status) {
+      case 'not_found':
+        return res.status(404).json({ error: 'API key not found' });
+      case 'already_revoked':
+        return res.status(409).json({ error: 'API key is already revoked' });
+    }
+
+    await logSecurityEvent({
+      userId: req.user!.id,
+      eventType: 'api_key_revoked',
+      details: { apiKeyId: result.apiKey.id, name: result.apiKey.name },
+      ip: req.ip ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    return res.json({ message: 'API key revoked successfully', apiKey: result.apiKey });
+  } catch (err) {
+    console.error('revokeApiKey error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { createApiKey, getApiKeys, revokeApiKey };
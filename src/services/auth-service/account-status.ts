@@ -0,0 +1,73 @@
+import { getAccountState, AccountStatus } from '../../models/user-status-model';
+
+/**
+ * @module AccountStatus
+ * Проверка статуса учётной записи перед входом, обновлением токенов,
+ * каждым аутентифицированным запросом и выдачей книг.
+ */
+
+/**
+ * пользовательский тип, описывающий причину, по которой учётная запись не может работать.
+ *
+ * @typedef {Object} AccountBlock
+ * @property {string} error - Текст ошибки.
+ * @property {AccountStatus} [status] - Статус учётной записи.
+ * @property {string|null} [reason] - Причина блокировки или деактивации.
+ * @property {Date|null} [suspendedUntil] - До какого момента действует блокировка.
+ */
+type AccountBlock = {
+  error: string;
+  status?: AccountStatus;
+  reason?: string | null;
+  suspendedUntil?: Date | null;
+};
+
+type AccountCheckResult = { status: 'ok'; role: string } | { status: 'blocked'; block: AccountBlock };
+
+/**
+ * Проверяет, может ли пользователь сейчас работать с системой, и возвращает его текущую роль.
+ * Истёкшая блокировка при этом снимается автоматически.
+ * @param userId - ID пользователя
+ * @returns {Promise<AccountCheckResult>} Текущая роль или причина запрета.
+ */
+async function checkAccount(userId: number): Promise<AccountCheckResult> {
+  const state = await getAccountState(userId);
+
+  if (!state) {
+    return { status: 'blocked', block: { error: 'Account does not exist' } };
+  }
+
+  switch (state.status) {
+    case 'suspended':
+      return {
+        status: 'blocked',
+        block: {
+          error: 'Account is suspended',
+          status: state.status,
+          reason: state.status_reason,
+          suspendedUntil: state.suspended_until,
+        },
+      };
+    case 'deactivated':
+      return {
+        status: 'blocked',
+        block: { error: 'Account is deactivated', status: state.status, reason: state.status_reason },
+      };
+  }
+
+  return { status: 'ok', role: state.role };
+}
+
+/**
+ * Проверяет, может ли пользователь сейчас работать с системой.
+ * @param userId - ID пользователя
+ * @returns {Promise<AccountBlock|null>} Причина запрета или null, если учётная запись активна.
+ */
+async function getAccountBlock(userId: number): Promise<AccountBlock | null> {
+  const result = await checkAccount(userId);
+
+  return result.status === 'blocked' ? result.block : null;
+}
+
+export { checkAccount, getAccountBlock };
+export type { AccountBlock, AccountCheckResult };
@@ -1,10 +1,41 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
-
-import { getOneByName, create, getOneById } from '../../models/user-model';
-
-import { refreshToken, getRefreshToken, deleteRefreshToken, replaceRefreshToken } from '../../models/auth-models';
+import { JwtPayload } from 'jsonwebtoken';
+
+import { getOneByName, create, getOneById, updatePassword } from '../../models/user-model';
+
+import {
+  createSession,
+  getRefreshToken,
+  deleteRefreshToken,
+  replaceRefreshToken,
+  revokeFamily,
+  getSessionsByUserId,
+  deleteSession,
+  deleteAllSessions,
+  deleteOtherSessions,
+  SessionMeta,
+  StoredToken,
+} from '../../models/auth-models';
+import { logSecurityEvent } from '../../models/security-event-model';
+import { sendVerificationEmail } from './email-verification-service';
+import { getAccountBlock } from './account-status';
+import {
+  getLoginLock,
+  getLoginDelayMs,
+  registerLoginFailure,
+  registerLoginSuccess,
+  LoginLock,
+} from './login-throttle';
+import { create as recordLoginAttempt, LoginAttemptReason } from '../../models/login-attempt-model';
+import { getByUserId as getTwoFactor } from '../../models/two-factor-model';
+import { BCRYPT_SALT_ROUNDS, TWO_FACTOR_CHALLENGE_TTL_SECONDS } from '../../config/auth-config';
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { signAccessToken, verifyAccessToken as verifyAccessTokenPayload, signTwoFactorChallenge, AccessTokenPayload } from './token-service';
+import { generateToken } from '../../utils/crypto-utils';
+import { validatePassword } from '../../utils/password-policy';
+import { validateEmail } from '../../utils/user-validation';
+import { resolveAssignableRole } from '../../config/roles';
 
 import ms from 'ms';
 
@@ -14,13 +45,13 @@ import ms from 'ms';
  *
  * Содержит функции для:
  * - регистрации пользователя,
- * - логина пользователя с выдачей JWT,
+ * - логина пользователя с выдачей JWT (при включённой 2FA — в два шага),
+ * - обновления токенов и выхода из системы,
+ * - смены пароля,
+ * - управления сессиями (устройствами) пользователя,
  * - получения профиля текущего пользователя.
  */
 
-const JWT_SECRET: string = process.env.JWT_SECRET || 'dev_secret';
-const SALT_ROUNDS: number = parseInt(process.env.BCRYPT_SALT_ROUNDS ?? '10', 10);
-const JWT_REFRESH_SECRET: string = process.env.JWT_REFRESH_SECRET || 'refresh_secret';
 const ACCESS_TOKEN_TTL = (process.env.ACCESS_TOKEN_TTL || '2h') as TTL;
 const REFRESH_TOKEN_TTL = (process.env.REFRESH_TOKEN_TTL || '7d') as TTL;
 
@@ -33,24 +64,16 @@ type TTL = `${number}h` | `${number}d` | `${number}m`;
 //   expires_at: Date;
 // };
 
-type TokenPayload = {
-  id: number;
-  username: string;
-  role: string;
-};
-
-type User = {
+type SessionUser = {
   id: number;
   username: string;
-  email: string;
-  password_hash?: string;
   role: string;
-  created_at?: Date;
-  updated_at?: Date;
 };
 
-type AuthenticatedRequest = Request & {
-  user?: User;
+type SessionTokens = {
+  accToken: string;
+  refToken: string;
+  expiresIn: TTL;
 };
 
 /**
@@ -58,17 +81,56 @@ type AuthenticatedRequest = Request & {
  * @param {Object} user - объект пользователя ({ id, username, role })
  * @returns {string} access token
  */
-function generateAccessToken(payload: TokenPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+function generateAccessToken(payload: AccessTokenPayload): string {
+  return signAccessToken(payload, ACCESS_TOKEN_TTL);
 }
 
 /**
- * Создаёт refresh token
- * @param {Object} user - объект пользователя ({ id, username })
+ * Создаёт refresh token.
+ * Это непрозрачная случайная строка, а не JWT: всё о сессии (владелец, срок, ротация)
+ * хранится в refresh_tokens, и проверять подпись не нужно.
  * @returns {string} refresh token
  */
-function generateRefreshToken(payload: TokenPayload): string {
-  return jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn: REFRESH_TOKEN_TTL });
+function generateRefreshToken(): string {
+  return generateToken();
+}
+
+/**
+ * Собирает данные об устройстве клиента для сессии
+ * @param req
+ */
+function getSessionMeta(req: Request): SessionMeta {
+  return {
+    userAgent: req.get('user-agent') ?? null,
+    ip: req.ip ?? null,
+  };
+}
+
+/**
+ * Возвращает момент истечения нового refresh-токена в виде ISO-строки
+ */
+function getRefreshExpiresAt(): string {
+  // PostgreSQL не понимает «объект Date», поэтому передаём ISO-8601 строку в UTC
+  return new Date(Date.now() + ms(REFRESH_TOKEN_TTL)).toISOString();
+}
+
+/**
+ * Заводит новую сессию и выдаёт для неё пару токенов.
+ * Используется после всех проверок входа — по паролю и, если нужно, по коду 2FA.
+ * @param req
+ * @param user - пользователь ({ id, username, role })
+ * @param twoFactorVerified - вход подтверждён вторым фактором
+ */
+async function issueSessionTokens(req: Request, user: SessionUser, twoFactorVerified: boolean): Promise<SessionTokens> {
+  // Формируем полезную нагрузку токена
+  const payload: AccessTokenPayload = { id: user.id, username: user.username, role: user.role };
+  // Генерируем refresh-токен и заводим под него новую сессию (другие устройства остаются в системе)
+  const refToken = generateRefreshToken();
+  const session = await createSession(user.id, refToken, getRefreshExpiresAt(), getSessionMeta(req), twoFactorVerified);
+  // access-токен знает свою сессию — по sid её можно отметить текущей или отозвать
+  const accToken = generateAccessToken({ ...payload, sid: session.family_id, mfa: twoFactorVerified });
+
+  return { accToken, refToken, expiresIn: ACCESS_TOKEN_TTL };
 }
 
 /**
@@ -80,8 +142,32 @@ async function verifyPassword(plainPassword: string, hashedPassword: string): Pr
   return bcrypt.compare(plainPassword, hashedPassword); // сравниваем пароль и хэш и возвращает true или false, поэтому boolean
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Реагирует на повторное предъявление уже ротированного refresh-токена:
+ * отзывает всю сессию (семейство) и пишет событие в журнал безопасности.
+ * Старым токеном мог воспользоваться кто-то другой, поэтому не доверяем и новому.
+ * @param req
+ * @param storedToken - запись предъявленного токена
+ */
+async function handleRefreshTokenReuse(req: Request, storedToken: StoredToken): Promise<void> {
+  const revokedTokens = await revokeFamily(storedToken.family_id);
+  const meta = getSessionMeta(req);
+
+  await logSecurityEvent({
+    userId: storedToken.user_id,
+    eventType: 'refresh_token_reuse',
+    details: { familyId: storedToken.family_id, tokenId: storedToken.id, revokedTokens },
+    ip: meta.ip,
+    userAgent: meta.userAgent,
+  });
+}
+
 /**
- * Обновляет токены при истечении access-токена
+ * Обновляет токены при истечении access-токена.
+ * Каждый refresh-токен одноразовый: при обновлении он ротируется, а его повторное
+ * предъявление отзывает всю сессию.
  * @param req
  * @param res
  */
@@ -98,18 +184,46 @@ async function refreshAccessToken(req: Request, res: Response): Promise<Response
     if (!storedToken) {
       return res.status(403).json({ error: 'Invalid refresh token' });
     }
+    // Токен уже обменяли на новый — значит, его предъявляют повторно
+    if (storedToken.rotated_at) {
+      await handleRefreshTokenReuse(req, storedToken);
+      return res.status(403).json({ error: 'Refresh token reuse detected, session revoked' });
+    }
     // Проверяем срок жизни
     if (new Date(storedToken.expires_at) < new Date()) {
       await deleteRefreshToken(refreshToken);
       return res.status(403).json({ error: 'Refresh token expired' });
     }
-    // Проверяем подпись токена
-    const payload = jwt.verify(refreshToken, JWT_REFRESH_SECRET) as TokenPayload;
-    // Генерируем новые токены
-    const newAccessToken = generateAccessToken(payload);
-    const newRefreshToken = generateRefreshToken(payload);
-    // Меняем старый refresh на новый
-    await replaceRefreshToken(payload.id, refreshToken, newRefreshToken, REFRESH_TOKEN_TTL);
+    // Берём актуальные данные пользователя из базы, а не из старого токена (роль могла измениться)
+    const user = await getOneById(storedToken.user_id);
+
+    if (!user) {
+      await deleteRefreshToken(refreshToken);
+      return res.status(403).json({ error: 'Invalid refresh token' });
+    }
+
+    const block = await getAccountBlock(user.id);
+
+    if (block) {
+      return res.status(403).json(block);
+    }
+
+    const payload: AccessTokenPayload = { id: user.id, username: user.username, role: user.role };
+    // Меняем старый refresh на новый в той же сессии
+    const newRefreshToken = generateRefreshToken();
+    const rotatedToken = await replaceRefreshToken(storedToken, newRefreshToken, getRefreshExpiresAt(), getSessionMeta(req));
+
+    if (!rotatedToken) {
+      // токен успели обменять между проверкой и ротацией — это тоже повторное предъявление
+      await handleRefreshTokenReuse(req, storedToken);
+      return res.status(403).json({ error: 'Refresh token reuse detected, session revoked' });
+    }
+
+    const newAccessToken = generateAccessToken({
+      ...payload,
+      sid: rotatedToken.family_id,
+      mfa: rotatedToken.two_factor_verified,
+    });
     return res.status(200).json({
       message: 'Tokens refreshed successfully',
       accessToken: newAccessToken,
@@ -119,7 +233,7 @@ async function refreshAccessToken(req: Request, res: Response): Promise<Response
   } catch (err) {
     console.error('refreshAccessToken error:', err);
 
-    return res.status(403).json({ error: 'Invalid or expired refresh token' });
+    return res.status(500).json({ error: 'Server error' });
   }
 }
 
@@ -129,7 +243,7 @@ async function refreshAccessToken(req: Request, res: Response): Promise<Response
  */
 function verifyAccessToken(token: string): JwtPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JwtPayload;
+    return verifyAccessTokenPayload(token);
   } catch (err) {
     // @ts-expect-error TS(2554): Expected 0-1 arguments, but got 2.
     throw new Error('Invalid or expired access token', err.message);
@@ -141,7 +255,7 @@ function verifyAccessToken(token: string): JwtPayload | null {
  *
  * @async
  * @function registerUser
- * @param {import('express').Request} req - Объект запроса, содержит body: { username, email, password, role }.
+ * @param {import('express').Request} req - Объект запроса, содержит body: { username, email, password }; role указывать нельзя.
  * @param {import('express').Response} res - Объект ответа.
  * @returns {Promise<void>} Отправляет JSON с данными нового пользователя.
  * @throws {Error} Если произошла ошибка при регистрации или пользователь уже существует.
@@ -155,6 +269,26 @@ async function registerUser(req: Request, res: Response): Promise<Response> {
       return res.status(400).json({ error: 'username, email and password are required' });
     }
 
+    // Самостоятельная регистрация идёт без назначающего, поэтому общее правило ролей
+    // разрешает здесь только роль по умолчанию
+    const assignment = resolveAssignableRole(role, undefined);
+
+    if (assignment.status !== 'ok') {
+      return res.status(403).json({ error: 'Role cannot be chosen during self-registration' });
+    }
+
+    const emailViolations = validateEmail(email);
+
+    if (emailViolations.length > 0) {
+      return res.status(400).json({ error: 'Invalid email', details: emailViolations });
+    }
+
+    const passwordViolations = validatePassword(password, { username, email });
+
+    if (passwordViolations.length > 0) {
+      return res.status(400).json({ error: 'Password does not meet the policy', details: passwordViolations });
+    }
+
     // Проверяем, есть ли уже пользователь с таким username
     const existsByName = await getOneByName(username);
 
@@ -163,18 +297,35 @@ async function registerUser(req: Request, res: Response): Promise<Response> {
     }
 
     // Генерируем безопасный хэш пароля
-    const password_hash = await bcrypt.hash(password, SALT_ROUNDS);
+    const password_hash = await bcrypt.hash(password, BCRYPT_SALT_ROUNDS);
+
+    const created = await create(username, email, password_hash, assignment.role);
+
+    if (created.status === 'username_taken') {
+      return res.status(400).json({ error: 'username already taken' });
+    }
+
+    if (created.status === 'email_taken') {
+      return res.status(409).json({ error: 'email already taken' });
+    }
 
-    // Создаём пользователя, role по умолчанию 'user'
-    const newUser = await create(username, email, password_hash, role || 'user');
+    const newUser = created.user;
+
+    // Аккаунт создаётся с неподтверждённым email; если письмо не ушло, его можно запросить повторно
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailErr) {
+      console.error('registerUser: failed to send verification email', mailErr);
+    }
 
     return res.status(201).json({
-      message: 'Регистрация успешна',
+      message: 'Регистрация успешна, подтвердите email по ссылке из письма',
       user: {
         id: newUser.id,
         username: newUser.username,
         email: newUser.email,
         role: newUser.role,
+        email_verified: false,
       },
     });
   } catch (err) {
@@ -183,8 +334,68 @@ async function registerUser(req: Request, res: Response): Promise<Response> {
   }
 }
 
+/**
+ * Отвечает 429 на попытку входа при действующей блокировке.
+ * @param res
+ * @param lock - блокировка (по username или по IP)
+ */
+function sendLoginLocked(res: Response, lock: LoginLock): Response {
+  res.set('Retry-After', String(lock.retryAfterSeconds));
+
+  return res.status(429).json({
+    error: 'Too many failed login attempts, try again later',
+    retryAfter: lock.retryAfterSeconds,
+  });
+}
+
+/**
+ * Завершает вход, когда пользователь уже подтвердил личность (паролем или у внешнего провайдера):
+ * заблокированной или деактивированной учётной записи отвечает 403,
+ * при включённой 2FA возвращает промежуточный challengeToken, иначе заводит сессию и выдаёт токены.
+ * @param req
+ * @param res
+ * @param user - пользователь ({ id, username, role })
+ */
+async function completeLogin(req: Request, res: Response, user: SessionUser): Promise<Response> {
+  const meta = getSessionMeta(req);
+  const logAttempt = (reason: LoginAttemptReason) =>
+    recordLoginAttempt({ username: user.username, userId: user.id, ip: meta.ip, userAgent: meta.userAgent, reason });
+
+  // статус сообщаем только после проверки личности, чтобы не раскрывать его по одному username
+  const block = await getAccountBlock(user.id);
+
+  if (block) {
+    await logAttempt('account_disabled');
+    return res.status(403).json(block);
+  }
+
+  const twoFactor = await getTwoFactor(user.id);
+
+  if (twoFactor?.confirmed_at) {
+    // Счётчик неудач не сбрасываем до ввода кода, иначе верный пароль давал бы бесконечные попытки подбора кода
+    await logAttempt('two_factor_pending');
+
+    return res.json({
+      message: 'Two-factor authentication code required',
+      twoFactorRequired: true,
+      challengeToken: signTwoFactorChallenge(user.id, TWO_FACTOR_CHALLENGE_TTL_SECONDS),
+      expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    });
+  }
+
+  await registerLoginSuccess(user.username);
+  await logAttempt('ok');
+
+  const tokens = await issueSessionTokens(req, user, false);
+
+  return res.json({ message: 'Вход успешен', ...tokens });
+}
+
 /**
  * Авторизует пользователя и выдает JWT-токен.
+ * После серии неудачных попыток вход по username или с IP временно блокируется (429 + Retry-After).
+ * Если у пользователя включена 2FA, токены не выдаются: вместо них возвращается
+ * промежуточный challengeToken, который вместе с кодом отправляется на POST /auth/login/2fa.
  *
  * @async
  * @function loginUser
@@ -206,28 +417,54 @@ async function loginUser(req: Request, res: Response): Promise<Response> {
     if (!username || !password) {
       return res.status(400).json({ error: 'username and password are required' });
     }
-    const user = await getOneByName(username);
-    if (!user || !user.password_hash) {
-      return res.status(400).json({ error: 'Invalid credentials' });
+
+    const meta = getSessionMeta(req);
+    const ip = meta.ip ?? 'unknown';
+    const logAttempt = (userId: number | null, reason: LoginAttemptReason) =>
+      recordLoginAttempt({ username, userId, ip: meta.ip, userAgent: meta.userAgent, reason });
+
+    // Пока действует блокировка, пароль даже не проверяем
+    const lock = await getLoginLock(username, ip);
+
+    if (lock) {
+      await logAttempt(null, 'locked');
+      return sendLoginLocked(res, lock);
+    }
+
+    // Каждая предыдущая неудача замедляет следующую проверку пароля
+    const delayMs = await getLoginDelayMs(username);
+
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
     }
+
+    const user = await getOneByName(username);
     // Проверяем пароль
-    const valid = await bcrypt.compare(password, user.password_hash);
+    const valid = !!user?.password_hash && (await bcrypt.compare(password, user.password_hash));
+
     if (!valid) {
+      const failure = await registerLoginFailure(username, ip);
+
+      await logAttempt(user?.id ?? null, 'invalid_credentials');
+
+      if (failure.lock) {
+        if (user && failure.lock.scope === 'user') {
+          await logSecurityEvent({
+            userId: user.id,
+            eventType: 'account_locked',
+            details: { retryAfterSeconds: failure.lock.retryAfterSeconds },
+            ip: meta.ip,
+            userAgent: meta.userAgent,
+          });
+        }
+
+        return sendLoginLocked(res, failure.lock);
+      }
+
       return res.status(400).json({ error: 'Invalid credentials' });
     }
 
-    // Формируем полезную нагрузку токена
-    const payload = { id: user.id, username: user.username, role: user.role };
-    // Генерируем токены
-    const accToken = jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
-    const refToken = jwt.sign(payload, JWT_REFRESH_SECRET, { expiresIn: REFRESH_TOKEN_TTL });
-    // Сохраняем refresh-токен в базу
-    // --- обрабатываем TTL ---
-    const expiresAt = new Date(Date.now() + ms(REFRESH_TOKEN_TTL));
-    await refreshToken(user.id, refToken, expiresAt.toISOString()); // PostgreSQL не понимает «объект Date». toISOString() - метод объекта Date, Берёт время внутри твоего Date.
-    // Конвертирует в универсальное UTC-время. Возвращает строку формата ISO-8601
-
-    return res.json({ message: 'Вход успешен', accToken, refToken, expiresIn: ACCESS_TOKEN_TTL });
+    return await completeLogin(req, res, user);
   } catch (err) {
     console.error('loginUser error', err);
     return res.status(500).json({ error: 'Server error' });
@@ -259,6 +496,7 @@ async function getProfile(req: AuthenticatedRequest, res: Response): Promise<Res
       username: user.username,
       email: user.email,
       role: user.role,
+      email_verified_at: user.email_verified_at,
       created_at: user.created_at,
       updated_at: user.updated_at,
     };
@@ -270,13 +508,187 @@ async function getProfile(req: AuthenticatedRequest, res: Response): Promise<Res
   }
 }
 
+/**
+ * Выход из текущей сессии: удаляет переданный refresh-токен.
+ *
+ * @async
+ * @function logoutUser
+ * @param {import('express').Request} req - Объект запроса, содержит body: { refreshToken }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с подтверждением выхода.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function logoutUser(req: Request, res: Response): Promise<Response> {
+  try {
+    const { refreshToken }: { refreshToken: string } = req.body ?? {};
+
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'refreshToken is required' });
+    }
+
+    // повторный выход с тем же токеном не считаем ошибкой
+    await deleteRefreshToken(refreshToken);
+
+    return res.json({ message: 'Logged out successfully' });
+  } catch (err) {
+    console.error('logoutUser error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Выход со всех устройств: удаляет все сессии текущего пользователя.
+ * Уже выданные access-токены остаются действительными до истечения срока.
+ *
+ * @async
+ * @function logoutAllSessions
+ * @param {import('express').Request} req - Объект запроса, содержит user.id (из middleware авторизации).
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с количеством закрытых сессий.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function logoutAllSessions(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const closedSessions = await deleteAllSessions(req.user!.id);
+
+    return res.json({ message: 'Logged out from all sessions', closedSessions });
+  } catch (err) {
+    console.error('logoutAllSessions error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Возвращает активные сессии текущего пользователя; текущая помечена флагом current.
+ *
+ * @async
+ * @function getSessions
+ * @param {import('express').Request} req - Объект запроса, содержит user.id и user.sid (из middleware авторизации).
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON со списком сессий.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getSessions(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const sessions = await getSessionsByUserId(req.user!.id);
+
+    return res.json(sessions.map((session) => ({ ...session, current: session.id === req.user!.sid })));
+  } catch (err) {
+    console.error('getSessions error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Завершает одну из сессий текущего пользователя (например, забытое устройство).
+ *
+ * @async
+ * @function revokeSession
+ * @param {import('express').Request} req - req.params.id содержит ID сессии.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с ID завершённой сессии.
+ * @throws {Error} Если сессия не найдена или произошла ошибка сервера.
+ */
+async function revokeSession(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const sessionId = req.params.id;
+
+  if (!UUID_PATTERN.test(sessionId)) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  try {
+    const revokedTokens = await deleteSession(sessionId, req.user!.id);
+
+    if (revokedTokens === 0) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    return res.json({ message: 'Session revoked successfully', sessionId });
+  } catch (err) {
+    console.error('revokeSession error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Меняет пароль текущего пользователя.
+ * Требует текущий пароль; после смены все остальные сессии пользователя завершаются,
+ * текущая (из которой пришёл запрос) остаётся.
+ *
+ * @async
+ * @function changePassword
+ * @param {import('express').Request} req - Объект запроса, содержит body: { currentPassword, newPassword }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с подтверждением и количеством закрытых сессий.
+ * @throws {Error} Если текущий пароль неверный, новый не проходит политику или произошла ошибка сервера.
+ */
+async function changePassword(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const { currentPassword, newPassword } = req.body ?? {};
+
+  if (!currentPassword || !newPassword) {
+    return res.status(400).json({ error: 'currentPassword and newPassword are required' });
+  }
+
+  try {
+    const user = await getOneById(req.user!.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const valid = await verifyPassword(currentPassword, user.password_hash);
+
+    if (!valid) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+
+    if (currentPassword === newPassword) {
+      return res.status(400).json({ error: 'New password must differ from the current one' });
+    }
+
+    const passwordViolations = validatePassword(newPassword, { username: user.username, email: user.email });
+
+    if (passwordViolations.length > 0) {
+      return res.status(400).json({ error: 'Password does not meet the policy', details: passwordViolations });
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, BCRYPT_SALT_ROUNDS);
+
+    await updatePassword(user.id, passwordHash);
+
+    const closedSessions = await deleteOtherSessions(user.id, req.user!.sid ?? null);
+
+    await logSecurityEvent({
+      userId: user.id,
+      eventType: 'password_changed',
+      details: { closedSessions },
+      ip: req.ip ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    return res.json({ message: 'Password changed successfully', closedSessions });
+  } catch (err) {
+    console.error('changePassword error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
 export {
   registerUser,
+  changePassword,
   loginUser,
+  logoutUser,
+  logoutAllSessions,
+  getSessions,
+  revokeSession,
   getProfile,
   generateAccessToken,
   generateRefreshToken,
   verifyPassword,
   refreshAccessToken,
   verifyAccessToken,
+  issueSessionTokens,
+  completeLogin,
+  getSessionMeta,
+  sendLoginLocked,
 };
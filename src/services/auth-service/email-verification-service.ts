@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+
+import { getOneById } from '../../models/user-model';
+import { createToken, verifyEmail as verifyEmailToken, getLastSentAt } from '../../models/email-verification-model';
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { sendMail } from '../mail-service/mail-transport';
+import { buildEmailVerificationMail } from '../mail-service/mail-templates';
+import { generateToken } from '../../utils/crypto-utils';
+import { EMAIL_VERIFICATION_TTL_HOURS, EMAIL_VERIFICATION_RESEND_SECONDS } from '../../config/auth-config';
+
+/**
+ * @module EmailVerificationService
+ * Сервисный модуль для подтверждения email.
+ *
+ * Содержит функции для:
+ * - отправки письма подтверждения (при регистрации и смене адреса),
+ * - подтверждения адреса по ссылке из письма,
+ * - повторной отправки письма с ограничением частоты.
+ */
+
+type VerificationRecipient = {
+  id: number;
+  username: string;
+  email: string;
+};
+
+/**
+ * Выпускает токен и отправляет письмо подтверждения на текущий адрес пользователя.
+ * Прежние ссылки подтверждения при этом перестают действовать.
+ * @param user - пользователь, чей адрес подтверждается
+ */
+async function sendVerificationEmail(user: VerificationRecipient): Promise<void> {
+  const token = generateToken();
+
+  await createToken(user.id, user.email, token, EMAIL_VERIFICATION_TTL_HOURS);
+  await sendMail(buildEmailVerificationMail(user.email, user.username, token, EMAIL_VERIFICATION_TTL_HOURS));
+}
+
+/**
+ * Подтверждает email по токену из письма.
+ *
+ * @async
+ * @function verifyEmail
+ * @param {import('express').Request} req - req.query.token содержит токен из письма.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с подтверждённым адресом.
+ * @throws {Error} Если токен недействителен или произошла ошибка сервера.
+ */
+async function verifyEmail(req: Request, res: Response): Promise<Response> {
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  if (!token) {
+    return res.status(400).json({ error: 'token is required' });
+  }
+
+  try {
+    const result = await verifyEmailToken(token);
+
+    switch (result.status) {
+      case 'invalid':
+        return res.status(400).json({ error: 'Invalid or expired verification token' });
+      case 'email_changed':
+        return res.status(400).json({ error: 'Email has been changed since this link was sent' });
+    }
+
+    return res.json({ message: 'Email verified successfully', email: result.email });
+  } catch (err) {
+    console.error('verifyEmail error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Повторно отправляет письмо подтверждения текущему пользователю.
+ * Не чаще одного раза в EMAIL_VERIFICATION_RESEND_SECONDS, иначе 429 с заголовком Retry-After.
+ *
+ * @async
+ * @function resendVerificationEmail
+ * @param {import('express').Request} req - Объект запроса, содержит user.id (из middleware авторизации).
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с подтверждением отправки.
+ * @throws {Error} Если email уже подтверждён, запросы слишком частые или произошла ошибка сервера.
+ */
+async function resendVerificationEmail(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const user = await getOneById(req.user!.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.email_verified_at) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    const lastSentAt = await getLastSentAt(user.id);
+
+    if (lastSentAt) {
+      const secondsSinceLast = (Date.now() - new Date(lastSentAt).getTime()) / 1000;
+      const retryAfter = Math.ceil(EMAIL_VERIFICATION_RESEND_SECONDS - secondsSinceLast);
+
+      if (retryAfter > 0) {
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({ error: 'Verification email was sent recently, try again later', retryAfter });
+      }
+    }
+
+    await sendVerificationEmail(user);
+
+    return res.json({ message: 'Verification email sent' });
+  } catch (err) {
+    console.error('resendVerificationEmail error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { sendVerificationEmail, verifyEmail, resendVerificationEmail };
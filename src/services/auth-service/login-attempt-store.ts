@@ -0,0 +1,102 @@
+import { LOGIN_ATTEMPT_STORE } from '../../config/auth-config';
+
+/**
+ * @module LoginAttemptStore
+ * Хранилище счётчиков неудачных попыток входа.
+ *
+ * Хранилище — объект с методами get/set/delete по ключу (`user:<username>`, `ip:<адрес>`);
+ * конкретная реализация выбирается переменной окружения LOGIN_ATTEMPT_STORE.
+ * Сейчас есть только `memory` — счётчики в памяти процесса, поэтому при нескольких
+ * экземплярах приложения лимиты считаются отдельно для каждого. Общее хранилище
+ * (например, Redis) подключается добавлением ещё одной фабрики в STORES.
+ */
+
+type AttemptState = {
+  failures: number;
+  // момент первой неудачи в текущем окне (мс)
+  windowStartedAt: number;
+  // до какого момента вход заблокирован (мс), null — не заблокирован
+  lockedUntil: number | null;
+};
+
+type AttemptStore = {
+  name: string;
+  get: (key: string) => Promise<AttemptState | null>;
+  set: (key: string, state: AttemptState, ttlMs: number) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+};
+
+// при таком числе записей при очередной записи выбрасываются устаревшие
+const MEMORY_PRUNE_THRESHOLD = 10000;
+
+/**
+ * Создаёт хранилище в памяти процесса. Записи живут не дольше переданного ttl.
+ */
+function createMemoryAttemptStore(): AttemptStore {
+  const entries = new Map<string, { state: AttemptState; expiresAt: number }>();
+
+  const prune = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+
+      if (!entry) {
+        return null;
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+
+      return { ...entry.state };
+    },
+    async set(key, state, ttlMs) {
+      const now = Date.now();
+
+      if (entries.size >= MEMORY_PRUNE_THRESHOLD) {
+        prune(now);
+      }
+
+      entries.set(key, { state: { ...state }, expiresAt: now + ttlMs });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+const STORES: Record<string, () => AttemptStore> = {
+  memory: () => createMemoryAttemptStore(),
+};
+
+let store: AttemptStore | null = null;
+
+/**
+ * Возвращает хранилище, выбранное в LOGIN_ATTEMPT_STORE (создаётся один раз).
+ * @throws {Error} Если указано неизвестное хранилище.
+ */
+function getAttemptStore(): AttemptStore {
+  if (!store) {
+    const factory = STORES[LOGIN_ATTEMPT_STORE];
+
+    if (!factory) {
+      throw new Error(`Unknown LOGIN_ATTEMPT_STORE "${LOGIN_ATTEMPT_STORE}"`);
+    }
+
+    store = factory();
+  }
+
+  return store;
+}
+
+export { getAttemptStore, createMemoryAttemptStore };
+export type { AttemptState, AttemptStore };
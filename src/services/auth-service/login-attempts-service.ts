@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+
+import { getAll } from '../../models/login-attempt-model';
+import { getOneById } from '../../models/user-model';
+import { logSecurityEvent } from '../../models/security-event-model';
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { unlockUsername } from './login-throttle';
+
+/**
+ * @module LoginAttemptsService
+ * Сервисный модуль для администрирования защиты входа.
+ *
+ * Содержит функции для:
+ * - просмотра журнала попыток входа,
+ * - разблокировки учётной записи.
+ */
+
+const DEFAULT_ATTEMPTS_LIMIT = 100;
+const MAX_ATTEMPTS_LIMIT = 1000;
+
+/**
+ * Получает журнал попыток входа с фильтрами.
+ *
+ * @async
+ * @function getLoginAttempts
+ * @param {import('express').Request} req - req.query: { username, ip, success, limit }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON со списком попыток (новые — первыми).
+ * @throws {Error} Если параметры некорректны или произошла ошибка сервера.
+ */
+async function getLoginAttempts(req: Request, res: Response): Promise<Response> {
+  const { username, ip, success, limit } = req.query;
+  const parsedLimit = limit === undefined ? DEFAULT_ATTEMPTS_LIMIT : Number(limit);
+
+  if (!Number.isInteger(parsedLimit) || parsedLimit <= 0 || parsedLimit > MAX_ATTEMPTS_LIMIT) {
+    return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_ATTEMPTS_LIMIT}` });
+  }
+
+  if (success !== undefined && success !== 'true' && success !== 'false') {
+    return res.status(400).json({ error: 'success must be true or false' });
+  }
+
+  try {
+    const attempts = await getAll({
+      username: typeof username === 'string' ? username : undefined,
+      ip: typeof ip === 'string' ? ip : undefined,
+      success: success === undefined ? undefined : success === 'true',
+      limit: parsedLimit,
+    });
+
+    return res.json(attempts);
+  } catch (err) {
+    console.error('getLoginAttempts error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Снимает блокировку входа с учётной записи и обнуляет счётчик неудачных попыток.
+ *
+ * @async
+ * @function unlockUser
+ * @param {import('express').Request} req - req.params.id содержит ID пользователя.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с результатом разблокировки.
+ * @throws {Error} Если пользователь не найден или произошла ошибка сервера.
+ */
+async function unlockUser(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const userId = Number(req.params.id);
+
+  try {
+    const user = await getOneById(userId);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const wasLocked = await unlockUsername(user.username);
+
+    await logSecurityEvent({
+      userId: user.id,
+      eventType: 'account_unlocked',
+      details: { unlockedBy: req.user!.id, wasLocked },
+      ip: req.ip ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    return res.json({ message: 'Account unlocked successfully', userId: user.id, wasLocked });
+  } catch (err) {
+    console.error('unlockUser error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { getLoginAttempts, unlockUser };
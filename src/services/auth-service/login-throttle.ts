@@ -0,0 +1,176 @@
+import { getAttemptStore, AttemptState } from './login-attempt-store';
+import {
+  LOGIN_MAX_FAILURES_PER_USER,
+  LOGIN_MAX_FAILURES_PER_IP,
+  LOGIN_FAILURE_WINDOW_MINUTES,
+  LOGIN_LOCKOUT_MINUTES,
+  LOGIN_DELAY_BASE_MS,
+  LOGIN_DELAY_MAX_MS,
+} from '../../config/auth-config';
+
+/**
+ * @module LoginThrottle
+ * Защита входа от перебора паролей.
+ *
+ * Неудачные попытки считаются отдельно по username и по IP в скользящем окне
+ * LOGIN_FAILURE_WINDOW_MINUTES. Каждая неудача увеличивает задержку перед следующей
+ * проверкой пароля, а после превышения лимита вход по этому ключу блокируется
+ * на LOGIN_LOCKOUT_MINUTES. Успешный вход сбрасывает счётчик username.
+ */
+
+type LoginLock = {
+  scope: 'user' | 'ip';
+  retryAfterSeconds: number;
+};
+
+type LoginFailureResult = {
+  // блокировка, наступившая из-за этой неудачи
+  lock: LoginLock | null;
+};
+
+const WINDOW_MS = LOGIN_FAILURE_WINDOW_MINUTES * 60 * 1000;
+const LOCKOUT_MS = LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+
+/**
+ * Ключ счётчика для username (без учёта регистра).
+ * @param username - введённый username
+ */
+function userKey(username: string): string {
+  return `user:${username.toLowerCase()}`;
+}
+
+/**
+ * Ключ счётчика для IP.
+ * @param ip - IP клиента
+ */
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+/**
+ * Возвращает оставшееся время блокировки в секундах или 0, если блокировки нет.
+ * @param state - состояние счётчика
+ * @param now - текущий момент (мс)
+ */
+function getRetryAfterSeconds(state: AttemptState | null, now: number): number {
+  if (!state?.lockedUntil || state.lockedUntil <= now) {
+    return 0;
+  }
+
+  return Math.ceil((state.lockedUntil - now) / 1000);
+}
+
+/**
+ * Проверяет, заблокирован ли сейчас вход для username или IP.
+ * @param username - введённый username
+ * @param ip - IP клиента
+ * @returns {Promise<LoginLock|null>} Действующая блокировка или null.
+ */
+async function getLoginLock(username: string, ip: string): Promise<LoginLock | null> {
+  const store = getAttemptStore();
+  const now = Date.now();
+
+  const userRetryAfter = getRetryAfterSeconds(await store.get(userKey(username)), now);
+
+  if (userRetryAfter > 0) {
+    return { scope: 'user', retryAfterSeconds: userRetryAfter };
+  }
+
+  const ipRetryAfter = getRetryAfterSeconds(await store.get(ipKey(ip)), now);
+
+  if (ipRetryAfter > 0) {
+    return { scope: 'ip', retryAfterSeconds: ipRetryAfter };
+  }
+
+  return null;
+}
+
+/**
+ * Задержка перед проверкой пароля: растёт вдвое с каждой неудачей по username.
+ * @param username - введённый username
+ * @returns {Promise<number>} Задержка в миллисекундах.
+ */
+async function getLoginDelayMs(username: string): Promise<number> {
+  const state = await getAttemptStore().get(userKey(username));
+
+  if (!state || state.failures === 0) {
+    return 0;
+  }
+
+  return Math.min(LOGIN_DELAY_BASE_MS * 2 ** (state.failures - 1), LOGIN_DELAY_MAX_MS);
+}
+
+/**
+ * Учитывает неудачу по одному ключу и при превышении лимита ставит блокировку.
+ * @param key - ключ счётчика
+ * @param maxFailures - лимит неудач за окно
+ * @param now - текущий момент (мс)
+ * @returns {Promise<number>} Срок наступившей блокировки в секундах или 0.
+ */
+async function recordFailure(key: string, maxFailures: number, now: number): Promise<number> {
+  const store = getAttemptStore();
+  const current = await store.get(key);
+  // окно истекло или прошлая блокировка закончилась — считаем заново
+  const expired =
+    !current ||
+    now - current.windowStartedAt > WINDOW_MS ||
+    (current.lockedUntil !== null && current.lockedUntil <= now);
+  const state: AttemptState = expired ? { failures: 0, windowStartedAt: now, lockedUntil: null } : current;
+
+  state.failures += 1;
+
+  if (state.failures >= maxFailures) {
+    state.lockedUntil = now + LOCKOUT_MS;
+  }
+
+  await store.set(key, state, Math.max(WINDOW_MS, LOCKOUT_MS));
+
+  return getRetryAfterSeconds(state, now);
+}
+
+/**
+ * Учитывает неудачную попытку входа по username и по IP.
+ * @param username - введённый username
+ * @param ip - IP клиента
+ */
+async function registerLoginFailure(username: string, ip: string): Promise<LoginFailureResult> {
+  const now = Date.now();
+  const userRetryAfter = await recordFailure(userKey(username), LOGIN_MAX_FAILURES_PER_USER, now);
+  const ipRetryAfter = await recordFailure(ipKey(ip), LOGIN_MAX_FAILURES_PER_IP, now);
+
+  if (userRetryAfter > 0) {
+    return { lock: { scope: 'user', retryAfterSeconds: userRetryAfter } };
+  }
+
+  if (ipRetryAfter > 0) {
+    return { lock: { scope: 'ip', retryAfterSeconds: ipRetryAfter } };
+  }
+
+  return { lock: null };
+}
+
+/**
+ * Сбрасывает счётчик username после успешного входа.
+ * Счётчик IP не сбрасываем: с одного адреса могут подбирать пароли к разным учётным записям.
+ * @param username - username пользователя
+ */
+async function registerLoginSuccess(username: string): Promise<void> {
+  await getAttemptStore().delete(userKey(username));
+}
+
+/**
+ * Снимает блокировку и обнуляет счётчик неудач для username (разблокировка администратором).
+ * @param username - username пользователя
+ * @returns {Promise<boolean>} true, если учётная запись была заблокирована.
+ */
+async function unlockUsername(username: string): Promise<boolean> {
+  const store = getAttemptStore();
+  const state = await store.get(userKey(username));
+
+  await store.delete(userKey(username));
+
+  return getRetryAfterSeconds(state, Date.now()) > 0;
+}
+
+export { getLoginLock, getLoginDelayMs, registerLoginFailure, registerLoginSuccess, unlockUsername };
+export type { LoginLock };
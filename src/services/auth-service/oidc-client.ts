@@ -0,0 +1,239 @@
+import crypto, { KeyObject } from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+
+import {
+  OIDC_ISSUER,
+  OIDC_CLIENT_ID,
+  OIDC_CLIENT_SECRET,
+  OIDC_REDIRECT_URI,
+  OIDC_SCOPES,
+} from '../../config/oidc-config';
+
+/**
+ * @module OidcClient
+ * Клиент OpenID Connect для входа по authorization code с PKCE (RFC 7636).
+ *
+ * Метаданные провайдера и его ключи (JWKS) загружаются при первом обращении и кэшируются;
+ * ключи перечитываются, если ID-токен подписан неизвестным kid (провайдер сменил ключ).
+ */
+
+type ProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+type IdTokenClaims = JwtPayload & {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  name?: string;
+};
+
+type AuthorizationParams = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+};
+
+type CompleteAuthorizationResult =
+  | { status: 'ok'; claims: IdTokenClaims }
+  | { status: 'provider_error'; message: string }
+  | { status: 'invalid_id_token'; message: string };
+
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+let metadataPromise: Promise<ProviderMetadata> | null = null;
+let providerKeys: Map<string, KeyObject> | null = null;
+
+/**
+ * Проверяет, настроен ли вход через OIDC.
+ */
+function isOidcEnabled(): boolean {
+  return OIDC_ISSUER !== '';
+}
+
+/**
+ * Загружает JSON с провайдера.
+ * @param url - адрес
+ * @param init - параметры запроса
+ */
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw new Error(`${url} responded with ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Возвращает метаданные провайдера из `/.well-known/openid-configuration`.
+ */
+function getProviderMetadata(): Promise<ProviderMetadata> {
+  if (!metadataPromise) {
+    const url = `${OIDC_ISSUER.replace(/\/$/, '')}/.well-known/openid-configuration`;
+
+    metadataPromise = fetchJson<ProviderMetadata>(url).then((metadata) => {
+      if (metadata.issuer !== OIDC_ISSUER) {
+        throw new Error(`OIDC issuer mismatch: expected "${OIDC_ISSUER}", got "${metadata.issuer}"`);
+      }
+
+      return metadata;
+    });
+    // неудачную загрузку не кэшируем, чтобы следующий вход попробовал снова
+    metadataPromise.catch(() => {
+      metadataPromise = null;
+    });
+  }
+
+  return metadataPromise;
+}
+
+/**
+ * Загружает ключи провайдера.
+ */
+async function loadProviderKeys(): Promise<Map<string, KeyObject>> {
+  const { jwks_uri: jwksUri } = await getProviderMetadata();
+  const { keys } = await fetchJson<{ keys: (crypto.JsonWebKey & { kid?: string })[] }>(jwksUri);
+
+  providerKeys = new Map(
+    keys
+      .filter((jwk) => jwk.kid && (jwk.use === undefined || jwk.use === 'sig'))
+      .map((jwk) => [jwk.kid as string, crypto.createPublicKey({ key: jwk, format: 'jwk' })]),
+  );
+
+  return providerKeys;
+}
+
+/**
+ * Возвращает ключ провайдера по kid; при промахе один раз перечитывает JWKS.
+ * @param kid - ID ключа из заголовка ID-токена
+ */
+async function getProviderKey(kid: string): Promise<KeyObject | undefined> {
+  const cached = providerKeys?.get(kid);
+
+  if (cached) {
+    return cached;
+  }
+
+  return (await loadProviderKeys()).get(kid);
+}
+
+/**
+ * Считает PKCE code_challenge (S256) для code_verifier.
+ * @param codeVerifier
+ */
+function getCodeChallenge(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Собирает адрес страницы входа провайдера.
+ * @param {AuthorizationParams} params - state, nonce и PKCE code_verifier
+ * @returns {Promise<string>} URL для перенаправления пользователя.
+ */
+async function buildAuthorizationUrl(params: AuthorizationParams): Promise<string> {
+  const { authorization_endpoint: authorizationEndpoint } = await getProviderMetadata();
+  const url = new URL(authorizationEndpoint);
+
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: OIDC_CLIENT_ID,
+    redirect_uri: OIDC_REDIRECT_URI,
+    scope: OIDC_SCOPES,
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: getCodeChallenge(params.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return url.toString();
+}
+
+/**
+ * Проверяет ID-токен: подпись ключом провайдера, iss, aud, срок и nonce.
+ * @param idToken - ID-токен
+ * @param nonce - nonce, отправленный при начале входа
+ * @throws {Error} Если токен недействителен.
+ */
+async function verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  const key = decoded?.header.kid ? await getProviderKey(decoded.header.kid) : undefined;
+
+  if (!key) {
+    throw new Error('ID token is signed with an unknown key');
+  }
+
+  const claims = jwt.verify(idToken, key, {
+    algorithms: SUPPORTED_ALGORITHMS,
+    issuer: OIDC_ISSUER,
+    audience: OIDC_CLIENT_ID,
+  }) as IdTokenClaims;
+
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return claims;
+}
+
+/**
+ * Обменивает authorization code на токены провайдера и проверяет ID-токен.
+ * @param code - authorization code из адреса возврата
+ * @param codeVerifier - PKCE code_verifier, сохранённый при начале входа
+ * @param nonce - nonce, сохранённый при начале входа
+ * @returns {Promise<CompleteAuthorizationResult>} Claims пользователя или причина отказа.
+ */
+async function completeAuthorization(
+  code: string,
+  codeVerifier: string,
+  nonce: string,
+): Promise<CompleteAuthorizationResult> {
+  let idToken: unknown;
+
+  try {
+    const { token_endpoint: tokenEndpoint } = await getProviderMetadata();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: OIDC_REDIRECT_URI,
+      client_id: OIDC_CLIENT_ID,
+      code_verifier: codeVerifier,
+    });
+
+    if (OIDC_CLIENT_SECRET) {
+      body.set('client_secret', OIDC_CLIENT_SECRET);
+    }
+
+    const tokens = await fetchJson<{ id_token?: string }>(tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body,
+    });
+
+    idToken = tokens.id_token;
+  } catch (err) {
+    return { status: 'provider_error', message: (err as Error).message };
+  }
+
+  if (typeof idToken !== 'string') {
+    return { status: 'provider_error', message: 'Token response has no id_token' };
+  }
+
+  try {
+    return { status: 'ok', claims: await verifyIdToken(idToken, nonce) };
+  } catch (err) {
+    return { status: 'invalid_id_token', message: (err as Error).message };
+  }
+}
+
+export { isOidcEnabled, buildAuthorizationUrl, completeAuthorization };
+export type { IdTokenClaims };
@@ -0,0 +1,189 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+
+import { getOneByEmail } from '../../models/user-model';
+import { create as createAuthRequest, consume as consumeAuthRequest } from '../../models/oidc-auth-request-model';
+import { getUserByIdentity, linkIdentity, createUserWithIdentity, IdentityUser } from '../../models/user-identity-model';
+import { isOidcEnabled, buildAuthorizationUrl, completeAuthorization, IdTokenClaims } from './oidc-client';
+import { completeLogin } from './auth-service';
+import { generateToken } from '../../utils/crypto-utils';
+import { BCRYPT_SALT_ROUNDS, USERNAME_MAX_LENGTH } from '../../config/auth-config';
+import { OIDC_PROVIDER, OIDC_STATE_TTL_MINUTES } from '../../config/oidc-config';
+
+/**
+ * @module OidcService
+ * Сервисный модуль для входа через внешний OpenID Connect провайдер.
+ *
+ * Содержит функции для:
+ * - перенаправления на страницу входа провайдера,
+ * - обработки возврата с провайдера: привязки внешней учётной записи к пользователю
+ *   (при первом входе пользователь создаётся) и выдачи обычных токенов, как при входе по паролю.
+ */
+
+type ResolveUserResult =
+  | { status: 'ok'; user: IdentityUser }
+  | { status: 'email_missing' }
+  | { status: 'email_conflict' };
+
+const MAX_USERNAME_ATTEMPTS = 5;
+
+/**
+ * Подбирает username для нового пользователя из claims провайдера.
+ * @param claims - claims ID-токена
+ * @param attempt - номер попытки; начиная со второй к имени добавляется случайный суффикс
+ */
+function buildUsername(claims: IdTokenClaims, attempt: number): string {
+  const source = claims.preferred_username || claims.email?.split('@')[0] || 'user';
+  const base = source.replace(/[^A-Za-z0-9._-]/g, '').slice(0, USERNAME_MAX_LENGTH - 5) || 'user';
+
+  return attempt === 0 ? base : `${base}-${crypto.randomBytes(2).toString('hex')}`;
+}
+
+/**
+ * Находит пользователя по внешней учётной записи, при необходимости привязывает её
+ * к пользователю с тем же email или создаёт нового пользователя.
+ * К существующему пользователю учётная запись привязывается, только если провайдер
+ * подтвердил email: иначе кто угодно мог бы войти в чужой аккаунт, указав его адрес.
+ * @param claims - claims проверенного ID-токена
+ */
+async function resolveUser(claims: IdTokenClaims): Promise<ResolveUserResult> {
+  const linked = await getUserByIdentity(OIDC_PROVIDER, claims.sub);
+
+  if (linked) {
+    return { status: 'ok', user: linked };
+  }
+
+  if (!claims.email) {
+    return { status: 'email_missing' };
+  }
+
+  const identity = { provider: OIDC_PROVIDER, subject: claims.sub, email: claims.email };
+  const emailVerified = claims.email_verified === true;
+  const existing = await getOneByEmail(claims.email);
+
+  if (existing) {
+    if (!emailVerified) {
+      return { status: 'email_conflict' };
+    }
+
+    await linkIdentity(existing.id, identity);
+    return { status: 'ok', user: existing };
+  }
+
+  // Локального пароля у такого пользователя нет: ставим случайный, задать свой можно через сброс пароля
+  const passwordHash = await bcrypt.hash(generateToken(), BCRYPT_SALT_ROUNDS);
+
+  for (let attempt = 0; attempt < MAX_USERNAME_ATTEMPTS; attempt += 1) {
+    const result = await createUserWithIdentity({
+      ...identity,
+      username: buildUsername(claims, attempt),
+      email: claims.email,
+      passwordHash,
+      emailVerified,
+    });
+
+    if (result.status === 'ok') {
+      return result;
+    }
+
+    if (result.status === 'email_taken') {
+      // пользователь с этим email появился параллельно — повторяем с привязкой к нему
+      return resolveUser(claims);
+    }
+  }
+
+  throw new Error('Could not pick a free username for the OIDC user');
+}
+
+/**
+ * Начинает вход через OIDC: сохраняет state, nonce и PKCE code_verifier
+ * и перенаправляет пользователя на страницу входа провайдера.
+ *
+ * @async
+ * @function startOidcLogin
+ * @param {import('express').Request} req - Объект запроса.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Перенаправляет (302) на провайдера.
+ * @throws {Error} Если вход через OIDC не настроен или провайдер недоступен.
+ */
+async function startOidcLogin(req: Request, res: Response): Promise<Response | void> {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ error: 'OIDC login is not configured' });
+  }
+
+  try {
+    const state = generateToken();
+    const nonce = generateToken();
+    const codeVerifier = generateToken();
+
+    await createAuthRequest(state, codeVerifier, nonce, OIDC_STATE_TTL_MINUTES);
+
+    return res.redirect(await buildAuthorizationUrl({ state, nonce, codeVerifier }));
+  } catch (err) {
+    console.error('startOidcLogin error', err);
+    return res.status(502).json({ error: 'OIDC provider is unavailable' });
+  }
+}
+
+/**
+ * Обрабатывает возврат с провайдера: проверяет state, обменивает code на ID-токен,
+ * находит или создаёт пользователя и завершает вход так же, как loginUser.
+ *
+ * @async
+ * @function handleOidcCallback
+ * @param {import('express').Request} req - req.query: { code, state } или { error, error_description }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с JWT-токенами (или challengeToken при включённой 2FA).
+ * @throws {Error} Если state или ID-токен недействительны, провайдер вернул ошибку или произошла ошибка сервера.
+ */
+async function handleOidcCallback(req: Request, res: Response): Promise<Response> {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({ error: 'OIDC login is not configured' });
+  }
+
+  const { code, state, error, error_description: errorDescription } = req.query;
+
+  if (typeof error === 'string') {
+    return res.status(400).json({ error: 'OIDC login failed', reason: error, details: errorDescription ?? null });
+  }
+
+  if (typeof code !== 'string' || typeof state !== 'string' || !code || !state) {
+    return res.status(400).json({ error: 'code and state are required' });
+  }
+
+  try {
+    const authRequest = await consumeAuthRequest(state);
+
+    if (!authRequest) {
+      return res.status(400).json({ error: 'Invalid or expired OIDC state' });
+    }
+
+    const authorization = await completeAuthorization(code, authRequest.code_verifier, authRequest.nonce);
+
+    switch (authorization.status) {
+      case 'provider_error':
+        console.error('handleOidcCallback provider error', authorization.message);
+        return res.status(502).json({ error: 'OIDC provider error' });
+      case 'invalid_id_token':
+        console.error('handleOidcCallback invalid id_token', authorization.message);
+        return res.status(401).json({ error: 'Invalid ID token' });
+    }
+
+    const resolved = await resolveUser(authorization.claims);
+
+    switch (resolved.status) {
+      case 'email_missing':
+        return res.status(400).json({ error: 'Identity provider did not return an email address' });
+      case 'email_conflict':
+        return res.status(409).json({ error: 'An account with this email already exists' });
+    }
+
+    return await completeLogin(req, res, resolved.user);
+  } catch (err) {
+    console.error('handleOidcCallback error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { startOidcLogin, handleOidcCallback };
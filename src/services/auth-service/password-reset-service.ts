@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+
+import { getOneByEmail } from '../../models/user-model';
+import { createToken, getUserByToken, resetPassword as resetPasswordWithToken } from '../../models/password-reset-model';
+import { deleteAllSessions } from '../../models/auth-models';
+import { logSecurityEvent } from '../../models/security-event-model';
+import { sendMail } from '../mail-service/mail-transport';
+import { buildPasswordResetMail } from '../mail-service/mail-templates';
+import { generateToken } from '../../utils/crypto-utils';
+import { validatePassword } from '../../utils/password-policy';
+import { BCRYPT_SALT_ROUNDS, PASSWORD_RESET_TTL_MINUTES } from '../../config/auth-config';
+
+/**
+ * @module PasswordResetService
+ * Сервисный модуль для восстановления доступа по email.
+ *
+ * Содержит функции для:
+ * - запроса ссылки для сброса пароля,
+ * - установки нового пароля по токену из письма.
+ */
+
+type ForgotPasswordRequestDto = {
+  email: string;
+};
+
+type ResetPasswordRequestDto = {
+  token: string;
+  password: string;
+};
+
+/**
+ * Отправляет на email письмо со ссылкой для сброса пароля.
+ * Ответ всегда одинаковый, чтобы по нему нельзя было узнать, зарегистрирован ли email.
+ *
+ * @async
+ * @function forgotPassword
+ * @param {import('express').Request} req - Объект запроса, содержит body: { email }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с подтверждением.
+ * @throws {Error} Если произошла ошибка сервера или отправки письма.
+ */
+async function forgotPassword(req: Request, res: Response): Promise<Response> {
+  const { email } = (req.body ?? {}) as ForgotPasswordRequestDto;
+
+  if (!email) {
+    return res.status(400).json({ error: 'email is required' });
+  }
+
+  try {
+    const user = await getOneByEmail(email);
+
+    if (user) {
+      const token = generateToken();
+
+      await createToken(user.id, token, PASSWORD_RESET_TTL_MINUTES);
+      await sendMail(buildPasswordResetMail(user.email, user.username, token, PASSWORD_RESET_TTL_MINUTES));
+    }
+
+    return res.json({ message: 'If this email is registered, a password reset link has been sent' });
+  } catch (err) {
+    console.error('forgotPassword error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Устанавливает новый пароль по токену из письма.
+ * Токен одноразовый; после смены пароля все сессии пользователя завершаются.
+ *
+ * @async
+ * @function resetPassword
+ * @param {import('express').Request} req - Объект запроса, содержит body: { token, password }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с подтверждением смены пароля.
+ * @throws {Error} Если токен недействителен или произошла ошибка сервера.
+ */
+async function resetPassword(req: Request, res: Response): Promise<Response> {
+  const { token, password } = (req.body ?? {}) as ResetPasswordRequestDto;
+
+  if (!token || !password) {
+    return res.status(400).json({ error: 'token and password are required' });
+  }
+
+  try {
+    const user = await getUserByToken(token);
+
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    const passwordViolations = validatePassword(password, { username: user.username, email: user.email });
+
+    if (passwordViolations.length > 0) {
+      return res.status(400).json({ error: 'Password does not meet the policy', details: passwordViolations });
+    }
+
+    const passwordHash = await bcrypt.hash(password, BCRYPT_SALT_ROUNDS);
+    // токен гасится атомарно: если его успели использовать параллельно, получим null
+    const userId = await resetPasswordWithToken(token, passwordHash);
+
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+
+    // старый пароль мог быть скомпрометирован — выходим со всех устройств
+    const closedSessions = await deleteAllSessions(userId);
+
+    await logSecurityEvent({
+      userId,
+      eventType: 'password_reset',
+      details: { closedSessions },
+      ip: req.ip ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    return res.json({ message: 'Password has been reset, please log in again' });
+  } catch (err) {
+    console.error('resetPassword error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { forgotPassword, resetPassword };
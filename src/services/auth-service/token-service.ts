@@ -0,0 +1,262 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+import crypto, { KeyObject } from 'crypto';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
+
+import { JWT_KEYS_DIR, JWT_ACTIVE_KID, JWT_ISSUER, JWT_AUDIENCE } from '../../config/jwt-config';
+
+/**
+ * @module TokenService
+ * Единый модуль подписи и проверки JWT.
+ *
+ * Ключи загружаются из JWT_KEYS_DIR при первом обращении (см. JwtConfig).
+ * Каждый токен несёт в заголовке kid ключа, которым подписан, поэтому при ротации
+ * старые токены продолжают проверяться, пока их ключ лежит в каталоге.
+ * Публичные части ключей отдаются по GET /.well-known/jwks.json.
+ *
+ * Если каталог пуст, вне production создаётся временный ключ в памяти:
+ * после перезапуска выданные им токены перестают приниматься.
+ */
+
+type SigningAlgorithm = 'RS256' | 'ES256';
+
+type VerificationKey = {
+  kid: string;
+  alg: SigningAlgorithm;
+  publicKey: KeyObject;
+  privateKey: KeyObject | null;
+};
+
+type KeyRing = {
+  active: VerificationKey & { privateKey: KeyObject };
+  keys: Map<string, VerificationKey>;
+};
+
+type AccessTokenPayload = {
+  id: number;
+  username: string;
+  role: string;
+  // ID сессии (family_id семейства refresh-токенов)
+  sid?: string;
+  // вход в этой сессии подтверждён вторым фактором
+  mfa?: boolean;
+};
+
+// Промежуточный токен входа с 2FA подписывается тем же ключом, но с другой аудиторией,
+// поэтому как access-токен он не принимается
+const TWO_FACTOR_CHALLENGE_AUDIENCE = `${JWT_AUDIENCE}:2fa-challenge`;
+
+let keyRing: KeyRing | null = null;
+
+/**
+ * Определяет алгоритм подписи по типу ключа.
+ * @param kid - ID ключа (для сообщения об ошибке)
+ * @param key - публичный ключ
+ */
+function detectAlgorithm(kid: string, key: KeyObject): SigningAlgorithm {
+  if (key.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  throw new Error(`JWT key "${kid}" must be an RSA or P-256 EC key`);
+}
+
+/**
+ * Разбирает PEM-файл: приватный ключ годится и для подписи, и для проверки, публичный — только для проверки.
+ * @param kid - ID ключа
+ * @param pem - содержимое файла
+ */
+function parseKey(kid: string, pem: string): VerificationKey {
+  let privateKey: KeyObject | null = null;
+
+  try {
+    privateKey = crypto.createPrivateKey(pem);
+  } catch {
+    // не приватный ключ — пробуем как публичный ниже
+  }
+
+  const publicKey = privateKey ? crypto.createPublicKey(privateKey) : crypto.createPublicKey(pem);
+
+  return { kid, alg: detectAlgorithm(kid, publicKey), publicKey, privateKey };
+}
+
+/**
+ * Читает все ключи из JWT_KEYS_DIR.
+ */
+function readKeysDir(): VerificationKey[] {
+  if (!fs.existsSync(JWT_KEYS_DIR)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(JWT_KEYS_DIR)
+    .filter((fileName) => fileName.endsWith('.pem'))
+    .sort()
+    .map((fileName) =>
+      parseKey(path.basename(fileName, '.pem'), fs.readFileSync(path.join(JWT_KEYS_DIR, fileName), 'utf8')),
+    );
+}
+
+/**
+ * Создаёт временный ключ для разработки.
+ */
+function createEphemeralKey(): VerificationKey & { privateKey: KeyObject } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return { kid: `ephemeral-${crypto.randomUUID()}`, alg: 'RS256', publicKey, privateKey };
+}
+
+/**
+ * Загружает ключи и выбирает ключ для подписи.
+ */
+function loadKeyRing(): KeyRing {
+  const loaded = readKeysDir();
+
+  if (loaded.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`No JWT signing keys found in "${JWT_KEYS_DIR}"`);
+    }
+
+    console.warn(`No JWT signing keys found in "${JWT_KEYS_DIR}", using an ephemeral key`);
+    const ephemeral = createEphemeralKey();
+
+    return { active: ephemeral, keys: new Map([[ephemeral.kid, ephemeral]]) };
+  }
+
+  const keys = new Map(loaded.map((key) => [key.kid, key]));
+  const privateKeys = loaded.filter((key) => key.privateKey);
+  const active = JWT_ACTIVE_KID ? keys.get(JWT_ACTIVE_KID) : privateKeys.length === 1 ? privateKeys[0] : undefined;
+
+  if (!active?.privateKey) {
+    throw new Error(
+      JWT_ACTIVE_KID
+        ? `JWT_ACTIVE_KID "${JWT_ACTIVE_KID}" must name a private key in "${JWT_KEYS_DIR}"`
+        : `Set JWT_ACTIVE_KID to choose one of the private keys in "${JWT_KEYS_DIR}"`,
+    );
+  }
+
+  return { active: { ...active, privateKey: active.privateKey }, keys };
+}
+
+/**
+ * Возвращает загруженные ключи (загружает при первом обращении).
+ */
+function getKeyRing(): KeyRing {
+  if (!keyRing) {
+    keyRing = loadKeyRing();
+  }
+
+  return keyRing;
+}
+
+/**
+ * Подписывает токен активным ключом.
+ * @param claims - полезная нагрузка
+ * @param audience - аудитория токена
+ * @param expiresIn - срок жизни
+ */
+function signToken(claims: object, audience: string, expiresIn: SignOptions['expiresIn']): string {
+  const { active } = getKeyRing();
+
+  return jwt.sign(claims, active.privateKey, {
+    algorithm: active.alg,
+    keyid: active.kid,
+    issuer: JWT_ISSUER,
+    audience,
+    expiresIn,
+  });
+}
+
+/**
+ * Проверяет подпись, срок, издателя и аудиторию токена.
+ * @param token - токен
+ * @param audience - ожидаемая аудитория
+ * @throws {Error} Если токен недействителен.
+ */
+function verifyToken(token: string, audience: string): JwtPayload {
+  const decoded = jwt.decode(token, { complete: true });
+  const key = decoded?.header.kid ? getKeyRing().keys.get(decoded.header.kid) : undefined;
+
+  if (!key) {
+    throw new Error('Unknown token signing key');
+  }
+
+  return jwt.verify(token, key.publicKey, { algorithms: [key.alg], issuer: JWT_ISSUER, audience }) as JwtPayload;
+}
+
+/**
+ * Создаёт access token
+ * @param payload - данные пользователя и сессии
+ * @param expiresIn - срок жизни
+ * @returns {string} access token
+ */
+function signAccessToken(payload: AccessTokenPayload, expiresIn: SignOptions['expiresIn']): string {
+  return signToken(payload, JWT_AUDIENCE, expiresIn);
+}
+
+/**
+ * Проверяет access-токен
+ * @param token
+ * @returns {JwtPayload} Полезная нагрузка токена.
+ * @throws {Error} Если токен недействителен или истёк.
+ */
+function verifyAccessToken(token: string): JwtPayload & AccessTokenPayload {
+  return verifyToken(token, JWT_AUDIENCE) as JwtPayload & AccessTokenPayload;
+}
+
+/**
+ * Создаёт промежуточный токен входа: пароль уже проверен, осталось ввести код 2FA
+ * @param userId - ID пользователя
+ * @param ttlSeconds - срок жизни в секундах
+ * @returns {string} challenge token
+ */
+function signTwoFactorChallenge(userId: number, ttlSeconds: number): string {
+  return signToken({ id: userId }, TWO_FACTOR_CHALLENGE_AUDIENCE, ttlSeconds);
+}
+
+/**
+ * Проверяет промежуточный токен входа
+ * @param challengeToken
+ * @returns {number|null} ID пользователя или null, если токен недействителен или истёк
+ */
+function verifyTwoFactorChallenge(challengeToken: string): number | null {
+  try {
+    const payload = verifyToken(challengeToken, TWO_FACTOR_CHALLENGE_AUDIENCE);
+    return typeof payload.id === 'number' ? payload.id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Отдаёт публичные ключи проверки подписи в формате JWKS (RFC 7517).
+ *
+ * @function getJwks
+ * @param {import('express').Request} req - Объект запроса.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {void} Отправляет JSON: { keys }.
+ */
+function getJwks(req: Request, res: Response): Response {
+  try {
+    const keys = [...getKeyRing().keys.values()].map((key) => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.alg,
+      use: 'sig',
+    }));
+
+    res.set('Cache-Control', 'public, max-age=300');
+    return res.json({ keys });
+  } catch (err) {
+    console.error('getJwks error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { signAccessToken, verifyAccessToken, signTwoFactorChallenge, verifyTwoFactorChallenge, getJwks };
+export type { AccessTokenPayload };
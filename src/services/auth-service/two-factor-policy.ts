@@ -0,0 +1,59 @@
+import { getSetting, setSetting } from '../../models/settings-model';
+import { Role } from '../../config/roles';
+
+/**
+ * @module TwoFactorPolicy
+ * Политика обязательной двухфакторной аутентификации по ролям.
+ *
+ * Список ролей хранится в `app_settings` и проверяется на каждый запрос к защищённым
+ * маршрутам, поэтому держим его в памяти и перечитываем не чаще раза в CACHE_TTL_MS.
+ * На этом экземпляре изменение применяется сразу, на остальных — в пределах CACHE_TTL_MS.
+ */
+
+const REQUIRED_ROLES_KEY = 'two_factor_required_roles';
+const CACHE_TTL_MS = 30 * 1000;
+
+let cache: { roles: Role[]; loadedAt: number } | null = null;
+
+/**
+ * Возвращает роли, для которых 2FA обязательна.
+ */
+async function getTwoFactorRequiredRoles(): Promise<Role[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.roles;
+  }
+
+  const setting = await getSetting<Role[]>(REQUIRED_ROLES_KEY);
+  const roles = setting?.value ?? [];
+
+  cache = { roles, loadedAt: Date.now() };
+  return roles;
+}
+
+/**
+ * Задаёт роли, для которых 2FA обязательна.
+ * @param roles - список ролей
+ * @param updatedBy - ID администратора
+ */
+async function setTwoFactorRequiredRoles(roles: Role[], updatedBy: number): Promise<Role[]> {
+  const unique = [...new Set(roles)];
+  const setting = await setSetting(REQUIRED_ROLES_KEY, unique, updatedBy);
+
+  cache = { roles: setting.value, loadedAt: Date.now() };
+  return setting.value;
+}
+
+/**
+ * Проверяет, обязательна ли 2FA для роли.
+ * @param role - роль пользователя
+ */
+async function isTwoFactorRequired(role: string | undefined): Promise<boolean> {
+  if (!role) {
+    return false;
+  }
+
+  const roles: string[] = await getTwoFactorRequiredRoles();
+  return roles.includes(role);
+}
+
+export { getTwoFactorRequiredRoles, setTwoFactorRequiredRoles, isTwoFactorRequired };
@@ -0,0 +1,455 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+
+import { getOneById } from '../../models/user-model';
+import {
+  getByUserId as getTwoFactor,
+  startEnrollment,
+  markStepUsed,
+  confirm,
+  replaceRecoveryCodes,
+  consumeRecoveryCode,
+  countRemainingRecoveryCodes,
+  disable,
+  TwoFactor,
+} from '../../models/two-factor-model';
+import { markSessionTwoFactorVerified } from '../../models/auth-models';
+import { logSecurityEvent } from '../../models/security-event-model';
+import { create as recordLoginAttempt, LoginAttemptReason } from '../../models/login-attempt-model';
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { issueSessionTokens, verifyPassword, getSessionMeta, sendLoginLocked } from './auth-service';
+import { verifyTwoFactorChallenge } from './token-service';
+import { getAccountBlock } from './account-status';
+import { getLoginLock, registerLoginFailure, registerLoginSuccess } from './login-throttle';
+import { getTwoFactorRequiredRoles, setTwoFactorRequiredRoles, isTwoFactorRequired } from './two-factor-policy';
+import { generateTotpSecret, verifyTotpCode, buildOtpauthUri, base32Encode } from '../../utils/totp';
+import { TWO_FACTOR_ISSUER, TWO_FACTOR_RECOVERY_CODES } from '../../config/auth-config';
+import { ROLES, Role } from '../../config/roles';
+
+/**
+ * @module TwoFactorService
+ * Сервисный модуль для двухфакторной аутентификации (TOTP, RFC 6238).
+ *
+ * Содержит функции для:
+ * - подключения 2FA (секрет + otpauth:// URI) и его подтверждения кодом,
+ * - второго шага входа по коду из приложения или коду восстановления,
+ * - выпуска новых кодов восстановления и отключения 2FA,
+ * - настройки ролей, для которых 2FA обязательна.
+ */
+
+type SecondFactorDto = {
+  code?: string;
+  recoveryCode?: string;
+};
+
+type SecondFactorMethod = 'totp' | 'recovery_code';
+
+/**
+ * Генерирует набор одноразовых кодов восстановления вида XXXXX-XXXXX.
+ */
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: TWO_FACTOR_RECOVERY_CODES }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Проверяет код из приложения; принятый код повторно не принимается.
+ * @param twoFactor - настройки 2FA пользователя
+ * @param code - введённый код
+ * @returns {Promise<boolean>} true, если код верный и ещё не использовался.
+ */
+async function checkTotpCode(twoFactor: TwoFactor, code: unknown): Promise<boolean> {
+  if (typeof code !== 'string') {
+    return false;
+  }
+
+  const step = verifyTotpCode(twoFactor.secret, code);
+
+  return step !== null && (await markStepUsed(twoFactor.user_id, step));
+}
+
+/**
+ * Проверяет второй фактор: код из приложения или (вместо него) код восстановления.
+ * @param twoFactor - настройки 2FA пользователя
+ * @param dto - { code } или { recoveryCode }
+ * @returns {Promise<SecondFactorMethod|null>} Чем подтверждён вход или null, если код неверный.
+ */
+async function checkSecondFactor(twoFactor: TwoFactor, dto: SecondFactorDto): Promise<SecondFactorMethod | null> {
+  if (typeof dto.recoveryCode === 'string' && dto.recoveryCode) {
+    return (await consumeRecoveryCode(twoFactor.user_id, dto.recoveryCode)) ? 'recovery_code' : null;
+  }
+
+  return (await checkTotpCode(twoFactor, dto.code)) ? 'totp' : null;
+}
+
+/**
+ * Возвращает состояние 2FA текущего пользователя.
+ *
+ * @async
+ * @function getTwoFactorStatus
+ * @param {import('express').Request} req - Объект запроса, содержит user (из middleware авторизации).
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON: { enabled, pending, required, recoveryCodesRemaining }.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getTwoFactorStatus(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const twoFactor = await getTwoFactor(req.user!.id);
+    const enabled = !!twoFactor?.confirmed_at;
+
+    return res.json({
+      enabled,
+      pending: !!twoFactor && !enabled,
+      required: await isTwoFactorRequired(req.user!.role),
+      recoveryCodesRemaining: enabled ? await countRemainingRecoveryCodes(req.user!.id) : 0,
+    });
+  } catch (err) {
+    console.error('getTwoFactorStatus error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Начинает подключение 2FA: генерирует секрет и возвращает otpauth:// URI для приложения-аутентификатора.
+ * 2FA включится только после подтверждения кодом (POST /auth/2fa/confirm).
+ *
+ * @async
+ * @function enrollTwoFactor
+ * @param {import('express').Request} req - Объект запроса, содержит user.id (из middleware авторизации).
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON: { secret, otpauthUri }.
+ * @throws {Error} Если 2FA уже включена или произошла ошибка сервера.
+ */
+async function enrollTwoFactor(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const user = await getOneById(req.user!.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const secret = generateTotpSecret();
+    const result = await startEnrollment(user.id, secret);
+
+    if (result.status === 'already_enabled') {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    return res.json({ secret, otpauthUri: buildOtpauthUri(TWO_FACTOR_ISSUER, user.username, secret) });
+  } catch (err) {
+    console.error('enrollTwoFactor error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Подтверждает подключение 2FA кодом из приложения и выдаёт коды восстановления.
+ * Коды показываются только один раз. Текущая сессия сразу считается подтверждённой вторым фактором.
+ *
+ * @async
+ * @function confirmTwoFactor
+ * @param {import('express').Request} req - Объект запроса, содержит body: { code }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с кодами восстановления.
+ * @throws {Error} Если подключение не начато, код неверный или произошла ошибка сервера.
+ */
+async function confirmTwoFactor(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const { code } = req.body ?? {};
+
+  if (!code) {
+    return res.status(400).json({ error: 'code is required' });
+  }
+
+  try {
+    const userId = req.user!.id;
+    const twoFactor = await getTwoFactor(userId);
+
+    if (!twoFactor) {
+      return res.status(400).json({ error: 'Two-factor enrollment has not been started' });
+    }
+
+    if (twoFactor.confirmed_at) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    if (!(await checkTotpCode(twoFactor, code))) {
+      return res.status(400).json({ error: 'Invalid two-factor code' });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    if (!(await confirm(userId, recoveryCodes))) {
+      // параллельный запрос успел подтвердить раньше
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    if (req.user!.sid) {
+      await markSessionTwoFactorVerified(req.user!.sid, userId);
+    }
+
+    await logSecurityEvent({
+      userId,
+      eventType: 'two_factor_enabled',
+      ip: req.ip ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    return res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (err) {
+    console.error('confirmTwoFactor error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Отключает 2FA. Требует пароль и код из приложения (или код восстановления).
+ * Нельзя отключить, если 2FA обязательна для роли пользователя.
+ *
+ * @async
+ * @function disableTwoFactor
+ * @param {import('express').Request} req - Объект запроса, содержит body: { password, code } или { password, recoveryCode }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с подтверждением.
+ * @throws {Error} Если 2FA не включена, обязательна для роли, данные неверны или произошла ошибка сервера.
+ */
+async function disableTwoFactor(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const { password, code, recoveryCode } = req.body ?? {};
+
+  if (!password || (!code && !recoveryCode)) {
+    return res.status(400).json({ error: 'password and code (or recoveryCode) are required' });
+  }
+
+  try {
+    const user = await getOneById(req.user!.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const twoFactor = await getTwoFactor(user.id);
+
+    if (!twoFactor?.confirmed_at) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    if (await isTwoFactorRequired(user.role)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    }
+
+    if (!(await verifyPassword(password, user.password_hash))) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+
+    if (!(await checkSecondFactor(twoFactor, { code, recoveryCode }))) {
+      return res.status(400).json({ error: 'Invalid two-factor code' });
+    }
+
+    await disable(user.id);
+
+    await logSecurityEvent({
+      userId: user.id,
+      eventType: 'two_factor_disabled',
+      ip: req.ip ?? null,
+      userAgent: req.get('user-agent') ?? null,
+    });
+
+    return res.json({ message: 'Two-factor authentication disabled' });
+  } catch (err) {
+    console.error('disableTwoFactor error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Выпускает новый набор кодов восстановления; прежние перестают действовать.
+ *
+ * @async
+ * @function regenerateRecoveryCodes
+ * @param {import('express').Request} req - Объект запроса, содержит body: { code }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с новыми кодами восстановления.
+ * @throws {Error} Если 2FA не включена, код неверный или произошла ошибка сервера.
+ */
+async function regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const { code } = req.body ?? {};
+
+  if (!code) {
+    return res.status(400).json({ error: 'code is required' });
+  }
+
+  try {
+    const twoFactor = await getTwoFactor(req.user!.id);
+
+    if (!twoFactor?.confirmed_at) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    if (!(await checkTotpCode(twoFactor, code))) {
+      return res.status(400).json({ error: 'Invalid two-factor code' });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await replaceRecoveryCodes(twoFactor.user_id, recoveryCodes);
+
+    return res.json({ message: 'Recovery codes regenerated', recoveryCodes });
+  } catch (err) {
+    console.error('regenerateRecoveryCodes error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Второй шаг входа: проверяет код 2FA по промежуточному токену из POST /auth/login
+ * и только после этого выдаёт access- и refresh-токены.
+ * Неверные коды учитываются вместе с неверными паролями и приводят к той же блокировке.
+ *
+ * @async
+ * @function verifyLoginTwoFactor
+ * @param {import('express').Request} req - Объект запроса, содержит body: { challengeToken, code } или { challengeToken, recoveryCode }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с JWT-токенами.
+ * @throws {Error} Если токен или код неверные, вход заблокирован или произошла ошибка сервера.
+ */
+async function verifyLoginTwoFactor(req: Request, res: Response): Promise<Response> {
+  const { challengeToken, code, recoveryCode } = req.body ?? {};
+
+  if (!challengeToken || (!code && !recoveryCode)) {
+    return res.status(400).json({ error: 'challengeToken and code (or recoveryCode) are required' });
+  }
+
+  try {
+    const userId = typeof challengeToken === 'string' ? verifyTwoFactorChallenge(challengeToken) : null;
+    const user = userId ? await getOneById(userId) : null;
+    const twoFactor = user ? await getTwoFactor(user.id) : null;
+
+    if (!user || !twoFactor?.confirmed_at) {
+      return res.status(401).json({ error: 'Invalid or expired challenge token' });
+    }
+
+    const meta = getSessionMeta(req);
+    const ip = meta.ip ?? 'unknown';
+    const logAttempt = (reason: LoginAttemptReason) =>
+      recordLoginAttempt({ username: user.username, userId: user.id, ip: meta.ip, userAgent: meta.userAgent, reason });
+
+    const lock = await getLoginLock(user.username, ip);
+
+    if (lock) {
+      await logAttempt('locked');
+      return sendLoginLocked(res, lock);
+    }
+
+    const method = await checkSecondFactor(twoFactor, { code, recoveryCode });
+
+    if (!method) {
+      const failure = await registerLoginFailure(user.username, ip);
+
+      await logAttempt('invalid_two_factor');
+
+      if (failure.lock) {
+        if (failure.lock.scope === 'user') {
+          await logSecurityEvent({
+            userId: user.id,
+            eventType: 'account_locked',
+            details: { retryAfterSeconds: failure.lock.retryAfterSeconds },
+            ip: meta.ip,
+            userAgent: meta.userAgent,
+          });
+        }
+
+        return sendLoginLocked(res, failure.lock);
+      }
+
+      return res.status(400).json({ error: 'Invalid two-factor code' });
+    }
+
+    // учётную запись могли заблокировать, пока пользователь вводил код
+    const block = await getAccountBlock(user.id);
+
+    if (block) {
+      await logAttempt('account_disabled');
+      return res.status(403).json(block);
+    }
+
+    await registerLoginSuccess(user.username);
+    await logAttempt('ok');
+
+    if (method === 'recovery_code') {
+      await logSecurityEvent({
+        userId: user.id,
+        eventType: 'recovery_code_used',
+        details: { remaining: await countRemainingRecoveryCodes(user.id) },
+        ip: meta.ip,
+        userAgent: meta.userAgent,
+      });
+    }
+
+    const tokens = await issueSessionTokens(req, user, true);
+
+    return res.json({ message: 'Вход успешен', ...tokens });
+  } catch (err) {
+    console.error('verifyLoginTwoFactor error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Возвращает роли, для которых 2FA обязательна.
+ *
+ * @async
+ * @function getRequiredRoles
+ * @param {import('express').Request} req - Объект запроса.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON: { roles }.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getRequiredRoles(req: Request, res: Response): Promise<Response> {
+  try {
+    return res.json({ roles: await getTwoFactorRequiredRoles() });
+  } catch (err) {
+    console.error('getRequiredRoles error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Задаёт роли, для которых 2FA обязательна.
+ * Пользователи этих ролей без подтверждённого вторым фактором входа получают 403
+ * на маршрутах, требующих прав, пока не подключат 2FA и не войдут заново.
+ *
+ * @async
+ * @function updateRequiredRoles
+ * @param {import('express').Request} req - Объект запроса, содержит body: { roles }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с новым списком ролей.
+ * @throws {Error} Если список ролей некорректен или произошла ошибка сервера.
+ */
+async function updateRequiredRoles(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const { roles } = req.body ?? {};
+
+  if (!Array.isArray(roles) || roles.some((role) => !(ROLES as readonly unknown[]).includes(role))) {
+    return res.status(400).json({ error: `roles must be an array of: ${ROLES.join(', ')}` });
+  }
+
+  try {
+    const updated = await setTwoFactorRequiredRoles(roles as Role[], req.user!.id);
+
+    return res.json({ message: 'Two-factor policy updated', roles: updated });
+  } catch (err) {
+    console.error('updateRequiredRoles error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export {
+  getTwoFactorStatus,
+  enrollTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyLoginTwoFactor,
+  getRequiredRoles,
+  updateRequiredRoles,
+};
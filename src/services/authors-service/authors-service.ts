@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { getAll, getOneById, create, remove } from '../../models/authors-model';
+import { getAll, getOneById, create, remove, restore } from '../../models/authors-model';
 
 /**
  * @module AuthorsService
@@ -9,7 +9,8 @@ import { getAll, getOneById, create, remove } from '../../models/authors-model';
  * - получения всех авторов,
  * - получения одного автора по ID,
  * - создания нового автора,
- * - удаления автора по ID.
+ * - удаления автора по ID,
+ * - восстановления удалённого автора.
  */
 
 type CreateAuthorRequestDto = {
@@ -118,4 +119,32 @@ async function deleteAuthor(req: Request, res: Response): Promise<void> {
   }
 }
 
-export { getAllAuthors, getAuthor, createAuthor, deleteAuthor };
+/**
+ * Восстанавливает удалённого автора.
+ *
+ * @async
+ * @function restoreAuthor
+ * @param {Object} req - HTTP-запрос.
+ * @param {Object} req.params - Параметры запроса.
+ * @param {number} req.params.id - ID автора.
+ * @param {Object} res - HTTP-ответ.
+ * @returns {Promise<void>}
+ * @throws {Error} Если произошла ошибка при восстановлении автора.
+ */
+async function restoreAuthor(req: Request, res: Response): Promise<void> {
+  const authorId = Number(req.params.id);
+
+  try {
+    const restoredAuthor = await restore(authorId);
+
+    if (restoredAuthor) {
+      res.json({ message: 'Author restored successfully', author: restoredAuthor });
+    } else {
+      res.status(404).json({ message: 'Deleted author not found' });
+    }
+  } catch (error: any) {
+    res.status(500).json({ message: 'Error restoring author', error: error.message });
+  }
+}
+
+export { getAllAuthors, getAuthor, createAuthor, deleteAuthor, restoreAuthor };
@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { getAllByBookId, create, remove, BookCopyCreateDto } from '../../models/book-copies-model';
+import { getOneById } from '../../models/book-model';
+import { promote } from '../../models/holds-model';
+import { HOLD_PICKUP_DAYS } from '../../config/circulation-config';
+
+/**
+ * @module BookCopiesService
+ * Сервисный модуль для работы с физическими экземплярами книг.
+ *
+ * Содержит функции для:
+ * - получения всех экземпляров книги,
+ * - добавления экземпляра книги,
+ * - удаления экземпляра.
+ */
+
+/**
+ * Получает все экземпляры книги со статусом доступности.
+ *
+ * @async
+ * @function getBookCopies
+ * @param {import('express').Request} req - req.params.id содержит ID книги.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с массивом экземпляров.
+ * @throws {Error} Если произошла ошибка при получении экземпляров.
+ */
+async function getBookCopies(req: Request, res: Response) {
+  const bookId = Number(req.params.id);
+
+  try {
+    const book = await getOneById(bookId);
+
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const copies = await getAllByBookId(bookId);
+
+    res.json(copies);
+  } catch (error: any) {
+    res.status(500).json({ message: 'Error getting copies', error: error.message });
+  }
+}
+
+/**
+ * Добавляет новый экземпляр книги. Если на книгу есть очередь броней,
+ * новый экземпляр сразу откладывается для первого в очереди.
+ *
+ * @async
+ * @function createBookCopy
+ * @param {import('express').Request} req - req.params.id содержит ID книги, req.body — { barcode, condition, shelfLocation, acquiredAt }.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с созданным экземпляром.
+ * @throws {Error} Если произошла ошибка при создании экземпляра.
+ */
+async function createBookCopy(req: Request, res: Response) {
+  const bookId = Number(req.params.id);
+  const copy: BookCopyCreateDto = {
+    barcode: req.body.barcode,
+    condition: req.body.condition,
+    shelfLocation: req.body.shelfLocation,
+    acquiredAt: req.body.acquiredAt,
+  };
+
+  if (!copy.barcode) {
+    return res.status(400).json({ error: 'barcode is required' });
+  }
+
+  try {
+    const book = await getOneById(bookId);
+
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    const newCopy = await create(bookId, copy);
+
+    await promote(bookId, HOLD_PICKUP_DAYS);
+
+    res.status(201).json({ message: 'Copy created successfully', copy: newCopy });
+  } catch (error: any) {
+    // 23505 — нарушение уникальности штрихкода
+    if (error.code === '23505') {
+      return res.status(400).json({ error: 'Copy with this barcode already exists' });
+    }
+
+    res.status(500).json({ message: 'Error creating copy', error: error.message });
+  }
+}
+
+/**
+ * Удаляет экземпляр книги по ID.
+ *
+ * @async
+ * @function deleteBookCopy
+ * @param {import('express').Request} req - req.params.copyId содержит ID экземпляра.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с удалённым экземпляром.
+ * @throws {Error} Если произошла ошибка при удалении экземпляра.
+ */
+async function deleteBookCopy(req: Request, res: Response) {
+  const copyId = Number(req.params.copyId);
+
+  try {
+    const deletedCopy = await remove(copyId);
+
+    if (!deletedCopy) {
+      return res.status(404).json({ message: 'Copy not found or currently on loan' });
+    }
+
+    res.json({ message: 'Copy deleted successfully', copy: deletedCopy });
+  } catch (error: any) {
+    res.status(500).json({ message: 'Error deleting copy', error: error.message });
+  }
+}
+
+export { getBookCopies, createBookCopy, deleteBookCopy };
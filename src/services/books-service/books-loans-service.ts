@@ -2,9 +2,29 @@ import { Request, Response } from "express";
 import {
   getOneLoanById,
   createLoan,
+  createLoanByBarcode,
   closeLoan, 
-  getAll
+  renewLoan as renewLoanById,
+  getAll,
+  CheckoutResult,
+  LoanPolicy
 } from '../../models/book-loans-model';
+import { expireReady, countActiveForOthers } from '../../models/holds-model';
+import { getOutstandingBalance } from '../../models/fines-model';
+import { getOneByBarcode } from '../../models/book-copies-model';
+import { getOneById as getUserById } from '../../models/user-model';
+import {
+  getLoanPeriodDays,
+  getMaxOpenLoans,
+  MAX_RENEWALS,
+  HOLD_PICKUP_DAYS,
+  FINE_DAILY_RATE,
+  FINE_MAX_AMOUNT,
+  FINE_BLOCK_THRESHOLD,
+} from '../../config/circulation-config';
+import { principalHasPermission } from '../../config/roles';
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { getAccountBlock } from '../auth-service/account-status';
 
 import { getOneById, 
 } from '../../models/book-model';
@@ -17,8 +37,10 @@ import { getOneById,
  * Содержит функции для:
  * - получения всех займов,
  * - получения одного займа по ID,
- * - выдачи книги пользователю (checkout),
- * - возврата книги пользователем.
+ * - выдачи книги текущему пользователю (checkout) — любого свободного экземпляра или конкретного по штрихкоду,
+ * - возврата книги текущим пользователем,
+ * - выдачи и возврата книг сотрудником библиотеки от имени читателя,
+ * - продления займа.
  */
 
 /**
@@ -52,12 +74,22 @@ async function getAllLoans(req: Request, res: Response): Promise<void> {
  * @returns {Promise<void>} Отправляет JSON с объектом займа.
  * @throws {Error} Если произошла ошибка при получении займа.
  */
-async function getLoan(req: Request, res: Response): Promise<void> {
+async function getLoan(req: AuthenticatedRequest, res: Response): Promise<void> {
   const loanId = Number (req.params.id);
 
   try {
     const loan = await getOneLoanById(loanId);
 
+    if (!loan) {
+      res.status(404).json({ error: 'Loan not found' });
+      return;
+    }
+
+    if (loan.user_id !== req.user?.id && !principalHasPermission(req.user, 'loans:read')) {
+      res.status(403).json({ error: 'You can only view your own loans' });
+      return;
+    }
+
     res.json(loan);
   } catch (error: any) {
     res.status(500).json({ message: 'Error creating loan', error: error.message });
@@ -65,12 +97,171 @@ async function getLoan(req: Request, res: Response): Promise<void> {
 };
 
 
+type CheckoutBlock = {
+  error: string;
+  [details: string]: unknown;
+};
+
+type CheckoutBorrower = {
+  id: number;
+  email_verified_at: Date | null;
+};
+
 /**
- * Выдает книгу пользователю (checkout) тем самым создавая займ.
+ * Проверяет, может ли пользователь сейчас брать книги.
+ * @param borrower - заёмщик
+ * @returns {Promise<CheckoutBlock|null>} Причина запрета или null, если выдача разрешена.
+ */
+async function findCheckoutBlock(borrower: CheckoutBorrower): Promise<CheckoutBlock | null> {
+  const accountBlock = await getAccountBlock(borrower.id);
+
+  if (accountBlock) {
+    return accountBlock;
+  }
+
+  if (!borrower.email_verified_at) {
+    return { error: 'Email is not verified, confirm it before borrowing books' };
+  }
+
+  const outstandingBalance = await getOutstandingBalance(borrower.id);
+
+  if (outstandingBalance > FINE_BLOCK_THRESHOLD) {
+    return {
+      error: `Outstanding fines (${outstandingBalance}) exceed the allowed limit (${FINE_BLOCK_THRESHOLD})`,
+      outstandingBalance,
+      threshold: FINE_BLOCK_THRESHOLD,
+    };
+  }
+
+  return null;
+}
+
+
+/**
+ * Правила выдачи для роли заёмщика.
+ * @param role - роль заёмщика
+ */
+function getLoanPolicy(role: string): LoanPolicy {
+  return {
+    loanDays: getLoanPeriodDays(role),
+    maxOpenLoans: getMaxOpenLoans(role),
+  };
+}
+
+
+/**
+ * Отправляет ответ с причиной, по которой книгу не удалось выдать.
+ * @param res - Объект ответа Express.
+ * @param result - результат попытки выдачи
+ * @param unavailableMessage - текст ошибки для случая, когда свободного экземпляра нет
+ */
+function sendCheckoutRefusal(res: Response, result: Exclude<CheckoutResult, { status: 'ok' }>, unavailableMessage: string) {
+  if (result.status === 'reserved') {
+    return res.status(400).json({ error: 'All free copies are reserved for readers with holds' });
+  }
+
+  if (result.status === 'limit') {
+    return res.status(400).json({
+      error: `Borrowing limit reached: ${result.count} of ${result.limit} books already on loan`,
+      limit: result.limit,
+      current: result.count,
+    });
+  }
+
+  return res.status(400).json({ error: unavailableMessage });
+}
+
+
+type CheckoutTarget = { bookId: number } | { barcode: string };
+
+/**
+ * Оформляет выдачу книги читателю и отправляет ответ.
+ * Срок возврата (due_at) и лимит одновременных займов зависят от роли заёмщика.
+ * Пока экземпляр отложен по брони, выдать его может только владелец брони.
+ * Заблокированному или деактивированному пользователю, пользователю с неподтверждённым email
+ * или задолженностью по штрафам выше порога книги не выдаются.
+ *
+ * @param res - Объект ответа Express.
+ * @param target - книга (любой свободный экземпляр) или штрихкод конкретного экземпляра
+ * @param borrowerId - ID читателя, которому выдаётся книга
+ * @param staffId - ID сотрудника, оформляющего выдачу за читателя (null — читатель сам)
+ */
+async function performCheckout(res: Response, target: CheckoutTarget, borrowerId: number, staffId: number | null) {
+  if ('barcode' in target) {
+    const copy = await getOneByBarcode(target.barcode);
+
+    if (!copy) {
+      return res.status(404).json({ error: 'Copy not found' });
+    }
+  }
+
+  const borrower = await getUserById(borrowerId);
+
+  if (!borrower) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+
+  const block = await findCheckoutBlock(borrower);
+
+  if (block) {
+    return res.status(403).json(block);
+  }
+
+  await expireReady(HOLD_PICKUP_DAYS);
+
+  const policy = getLoanPolicy(borrower.role);
+
+  if ('barcode' in target) {
+    const result = await createLoanByBarcode(target.barcode, borrowerId, policy, staffId);
+
+    if (result.status !== 'ok') {
+      return sendCheckoutRefusal(res, result, 'This copy is already borrowed');
+    }
+
+    return res.status(201).json({
+      message: 'Copy checked out successfully',
+      loan: result.loan,
+    });
+  }
+
+  const result = await createLoan(target.bookId, borrowerId, policy, staffId);
+
+  if (result.status !== 'ok') {
+    return sendCheckoutRefusal(res, result, 'No free copies of this book are available, you can place a hold');
+  }
+
+  return res.status(201).json({
+    message: 'Book checked out successfully',
+    loan: result.loan,
+  });
+}
+
+
+/**
+ * Определяет читателя для операции «от имени читателя» по req.body.user_id.
+ * Право сотрудника (`loans:manage`) проверяется на маршруте.
+ * @param req - Объект запроса Express.
+ * @param res - Объект ответа Express.
+ * @returns {number|null} ID читателя или null, если ответ с ошибкой уже отправлен.
+ */
+function resolvePatronForStaff(req: AuthenticatedRequest, res: Response): number | null {
+  const patronId = Number(req.body.user_id);
+
+  if (!Number.isInteger(patronId) || patronId <= 0) {
+    res.status(400).json({ error: 'user_id of the patron is required' });
+    return null;
+  }
+
+  return patronId;
+}
+
+
+/**
+ * Выдает книгу текущему пользователю (checkout) тем самым создавая займ.
  *
  * @async
  * @function checkoutBook
- * @param {import('express').Request} req - req.params.id содержит ID книги.
+ * @param {import('express').Request} req - req.params.id содержит ID книги, req.user — текущий пользователь.
  * @param {import('express').Response} res - Объект ответа Express.
  * @returns {Promise<void>} Отправляет JSON с объектом займа.
  * @throws {Error} Если книга недоступна или произошла ошибка сервера.
@@ -109,37 +300,132 @@ async function getLoan(req: Request, res: Response): Promise<void> {
 // };
 
 //new
-async function checkoutBook(req: Request, res: Response) {
+async function checkoutBook(req: AuthenticatedRequest, res: Response) {
   const bookId = Number(req.params.id);
-  const userId = Number(req.body.user_id);
 
   try {
-    const loan = await createLoan(bookId, userId);
+    await performCheckout(res, { bookId }, req.user!.id, null);
+  } catch (error) {
+    console.error('checkoutBook error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+};
 
-    if (!loan) {
-      return res.status(400).json({
-        error: 'Book is already borrowed',
-      });
-    }
 
-    res.status(201).json({
-      message: 'Book checked out successfully',
-      loan,
-    });
+/**
+ * Выдает текущему пользователю конкретный экземпляр книги по штрихкоду.
+ *
+ * @async
+ * @function checkoutCopy
+ * @param {import('express').Request} req - req.params.barcode содержит штрихкод экземпляра, req.user — текущий пользователь.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с объектом займа.
+ * @throws {Error} Если экземпляр не найден, уже выдан или произошла ошибка сервера.
+ */
+async function checkoutCopy(req: AuthenticatedRequest, res: Response) {
+  const { barcode } = req.params;
 
+  try {
+    await performCheckout(res, { barcode }, req.user!.id, null);
   } catch (error) {
-    console.error('checkoutBook error:', error);
+    console.error('checkoutCopy error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+};
+
+
+/**
+ * Выдает книгу читателю от имени сотрудника библиотеки (librarian/admin).
+ * Сотрудник сохраняется в займе как checked_out_by.
+ *
+ * @async
+ * @function checkoutBookOnBehalf
+ * @param {import('express').Request} req - req.params.id содержит ID книги, req.body.user_id — ID читателя.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с объектом займа.
+ * @throws {Error} Если книга недоступна или произошла ошибка сервера.
+ */
+async function checkoutBookOnBehalf(req: AuthenticatedRequest, res: Response) {
+  const bookId = Number(req.params.id);
+  const patronId = resolvePatronForStaff(req, res);
+
+  if (patronId === null) {
+    return;
+  }
+
+  try {
+    await performCheckout(res, { bookId }, patronId, req.user!.id);
+  } catch (error) {
+    console.error('checkoutBookOnBehalf error:', error);
     res.status(500).json({ error: 'Server error' });
   }
 };
 
 
 /**
- * Возвращает книгу пользователем.
+ * Выдает читателю конкретный экземпляр по штрихкоду от имени сотрудника библиотеки.
+ *
+ * @async
+ * @function checkoutCopyOnBehalf
+ * @param {import('express').Request} req - req.params.barcode содержит штрихкод экземпляра, req.body.user_id — ID читателя.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с объектом займа.
+ * @throws {Error} Если экземпляр не найден, уже выдан или произошла ошибка сервера.
+ */
+async function checkoutCopyOnBehalf(req: AuthenticatedRequest, res: Response) {
+  const { barcode } = req.params;
+  const patronId = resolvePatronForStaff(req, res);
+
+  if (patronId === null) {
+    return;
+  }
+
+  try {
+    await performCheckout(res, { barcode }, patronId, req.user!.id);
+  } catch (error) {
+    console.error('checkoutCopyOnBehalf error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+};
+
+
+/**
+ * Оформляет возврат книги и отправляет ответ.
+ * За возврат после срока начисляется штраф; если на книгу есть очередь броней,
+ * вернувшийся экземпляр откладывается для первого в очереди.
+ *
+ * @param res - Объект ответа Express.
+ * @param bookId - ID книги
+ * @param borrowerId - ID читателя, который возвращает книгу
+ * @param staffId - ID сотрудника, принимающего возврат за читателя (null — читатель сам)
+ */
+async function performReturn(res: Response, bookId: number, borrowerId: number, staffId: number | null) {
+  const result = await closeLoan(bookId, borrowerId, staffId, {
+    fineDailyRate: FINE_DAILY_RATE,
+    fineMaxAmount: FINE_MAX_AMOUNT,
+    holdPickupDays: HOLD_PICKUP_DAYS,
+  });
+
+  if (!result) {
+    return res.status(400).json({
+      error: 'No active loan found for this user/book',
+    });
+  }
+
+  return res.json({
+    message: 'Book returned successfully',
+    loan: result.loan,
+    fine: result.fine,
+  });
+}
+
+
+/**
+ * Возвращает книгу текущим пользователем.
  *
  * @async
  * @function returnBook
- * @param {import('express').Request} req - req.params.id содержит ID книги, req.body.user_id содержит ID пользователя.
+ * @param {import('express').Request} req - req.params.id содержит ID книги, req.user — текущий пользователь.
  * @param {import('express').Response} res - Объект ответа Express.
  * @returns {Promise<void>} Отправляет JSON с объектом возврата займа.
  * @throws {Error} Если не найден активный заем или произошла ошибка сервера.
@@ -177,29 +463,117 @@ async function checkoutBook(req: Request, res: Response) {
 // };
 
 //new
-async function returnBook(req: Request, res: Response) {
+async function returnBook(req: AuthenticatedRequest, res: Response) {
   const bookId = Number(req.params.id);
-  const userId = Number(req.body.user_id);
 
   try {
-    const loan = await closeLoan(bookId, userId);
+    await performReturn(res, bookId, req.user!.id, null);
+  } catch (error) {
+    console.error('returnBook error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+};
+
+
+/**
+ * Принимает возврат книги за читателя от имени сотрудника библиотеки (librarian/admin).
+ * Сотрудник сохраняется в займе как returned_by.
+ *
+ * @async
+ * @function returnBookOnBehalf
+ * @param {import('express').Request} req - req.params.id содержит ID книги, req.body.user_id — ID читателя.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с объектом возврата займа.
+ * @throws {Error} Если не найден активный заем или произошла ошибка сервера.
+ */
+async function returnBookOnBehalf(req: AuthenticatedRequest, res: Response) {
+  const bookId = Number(req.params.id);
+  const patronId = resolvePatronForStaff(req, res);
+
+  if (patronId === null) {
+    return;
+  }
+
+  try {
+    await performReturn(res, bookId, patronId, req.user!.id);
+  } catch (error) {
+    console.error('returnBookOnBehalf error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+};
+
+
+
+/**
+ * Продлевает займ: сдвигает срок возврата на срок займа роли заёмщика.
+ * Продлить займ может сам заёмщик или пользователь с правом `loans:manage`; если на книгу стоят брони
+ * других читателей, продление запрещено.
+ *
+ * @async
+ * @function renewLoan
+ * @param {import('express').Request} req - req.params.id содержит ID займа.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с продлённым займом.
+ * @throws {Error} Если займ не найден, закрыт, лимит продлений исчерпан или произошла ошибка сервера.
+ */
+async function renewLoan(req: AuthenticatedRequest, res: Response) {
+  const loanId = Number(req.params.id);
+
+  try {
+    const loan = await getOneLoanById(loanId);
 
     if (!loan) {
+      return res.status(404).json({ error: 'Loan not found' });
+    }
+
+    if (loan.user_id !== req.user?.id && !principalHasPermission(req.user, 'loans:manage')) {
+      return res.status(403).json({ error: 'You can only renew your own loans' });
+    }
+
+    // у отвязанного политикой хранения займа нет читателя, но он всегда закрыт
+    if (loan.returned_at || loan.user_id === null) {
+      return res.status(400).json({ error: 'Loan is already closed' });
+    }
+
+    if (loan.renewals_count >= MAX_RENEWALS) {
       return res.status(400).json({
-        error: 'No active loan found for this user/book',
+        error: `Renewal limit reached (${MAX_RENEWALS})`,
+        maxRenewals: MAX_RENEWALS,
       });
     }
 
+    if ((await countActiveForOthers(loan.book_id, loan.user_id)) > 0) {
+      return res.status(400).json({ error: 'Book has holds from other readers and cannot be renewed' });
+    }
+
+    const borrower = await getUserById(loan.user_id);
+    const renewedLoan = await renewLoanById(loanId, getLoanPeriodDays(borrower?.role ?? 'user'), MAX_RENEWALS);
+
+    // займ могли закрыть или продлить параллельно между проверкой и обновлением
+    if (!renewedLoan) {
+      return res.status(409).json({ error: 'Loan was changed concurrently, try again' });
+    }
+
     res.json({
-      message: 'Book returned successfully',
-      loan,
+      message: 'Loan renewed successfully',
+      loan: renewedLoan,
     });
 
   } catch (error) {
-    console.error('returnBook error:', error);
+    console.error('renewLoan error:', error);
     res.status(500).json({ error: 'Server error' });
   }
 };
 
 
-export { getAllLoans, getLoan, checkoutBook, returnBook };
+export {
+  getAllLoans,
+  getLoan,
+  checkoutBook,
+  checkoutCopy,
+  checkoutBookOnBehalf,
+  checkoutCopyOnBehalf,
+  returnBook,
+  returnBookOnBehalf,
+  renewLoan,
+};
@@ -4,7 +4,8 @@ import { getAllBooksWithStatus,
   getOneById,
   getOneWithAuthorById,
   create,
-  remove } from '../../models/book-model'
+  remove,
+  restore } from '../../models/book-model'
 
 /**
  * @module BookService
@@ -16,7 +17,8 @@ import { getAllBooksWithStatus,
  * - получения книги по ID,
  * - получения книги с автором по ID,
  * - создания книги,
- * - удаления книги по ID,
+ * - удаления книги по ID (мягкого, с сохранением истории выдач),
+ * - восстановления удалённой книги,
  * - обновления статуса доступности книги.
  */
 
@@ -154,7 +156,8 @@ async function createBook(req: Request, res: Response) {
 
 
 /**
- * Удаляет книгу по ID.
+ * Удаляет книгу по ID. Книга скрывается из каталога, история выдач сохраняется.
+ * Пока экземпляры книги выданы, удалить её нельзя.
  *
  * @async
  * @function deleteBook
@@ -165,12 +168,48 @@ async function createBook(req: Request, res: Response) {
 async function deleteBook(req: Request, res: Response) {
   const bookId: number = Number(req.params.id);
 
-  const deletedBook = await remove(bookId);
+  try {
+    const result = await remove(bookId);
+
+    switch (result.status) {
+      case 'not_found':
+        return res.status(404).json({ message: 'Book not found' });
+      case 'has_open_loans':
+        return res.status(409).json({ error: 'Book has copies on loan, it can be deleted after they are returned' });
+    }
+
+    res.json({ message: 'Book deleted successfully', book: result.book });
+  } catch (error) {
+    console.error('deleteBook error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+
+/**
+ * Восстанавливает удалённую книгу вместе с экземплярами, удалёнными вместе с ней.
+ *
+ * @async
+ * @function restoreBook
+ * @param {import('express').Request} req - req.params.id содержит ID книги.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с восстановленной книгой.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function restoreBook(req: Request, res: Response) {
+  const bookId: number = Number(req.params.id);
+
+  try {
+    const book = await restore(bookId);
+
+    if (!book) {
+      return res.status(404).json({ message: 'Deleted book not found' });
+    }
 
-  if (deletedBook) {
-    res.json({ message: 'Book deleted successfully', book: deletedBook });
-  } else {
-    res.status(404).json({ message: 'Book not found' });
+    res.json({ message: 'Book restored successfully', book });
+  } catch (error) {
+    console.error('restoreBook error:', error);
+    res.status(500).json({ error: 'Server error' });
   }
 }
 
@@ -218,4 +257,5 @@ export {
   getBookWithAuthor,
   createBook,
   deleteBook,
+  restoreBook,
 };
@@ -0,0 +1,126 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { getAllByUserId, addPayment, waive, getOutstandingBalance } from '../../models/fines-model';
+import { principalHasPermission } from '../../config/roles';
+
+/**
+ * @module FinesService
+ * Сервисный модуль для работы со штрафами за просрочку.
+ *
+ * Содержит функции для:
+ * - получения штрафов пользователя,
+ * - внесения оплаты по штрафу,
+ * - списания штрафа администратором.
+ */
+
+type FinePaymentRequestDto = {
+  amount: number;
+};
+
+type FineWaiveRequestDto = {
+  reason?: string;
+};
+
+/**
+ * Получает штрафы пользователя и общую задолженность.
+ * Смотреть штрафы может сам пользователь или пользователь с правом `fines:manage`.
+ *
+ * @async
+ * @function getUserFines
+ * @param {import('express').Request} req - req.params.id содержит ID пользователя.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON со списком штрафов и задолженностью.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getUserFines(req: AuthenticatedRequest, res: Response) {
+  const userId = Number(req.params.id);
+
+  if (userId !== req.user?.id && !principalHasPermission(req.user, 'fines:manage')) {
+    return res.status(403).json({ error: 'You can only view your own fines' });
+  }
+
+  try {
+    const fines = await getAllByUserId(userId);
+    const outstandingBalance = await getOutstandingBalance(userId);
+
+    res.json({ fines, outstandingBalance });
+  } catch (error) {
+    console.error('getUserFines error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Регистрирует оплату штрафа, принятую сотрудником (разрешены частичные платежи).
+ * Доступ проверяется на маршруте (право `fines:manage`): сам читатель закрыть свой штраф не может,
+ * иначе он обошёл бы блокировку выдачи без реальной оплаты. Сотрудник записывается в received_by.
+ *
+ * @async
+ * @function payFine
+ * @param {import('express').Request} req - req.params.id содержит ID штрафа, req.body — { amount }.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с обновлённым штрафом и платежом.
+ * @throws {Error} Если штраф не найден, закрыт, сумма некорректна или произошла ошибка сервера.
+ */
+async function payFine(req: AuthenticatedRequest, res: Response) {
+  const fineId = Number(req.params.id);
+  const { amount } = req.body as FinePaymentRequestDto;
+  // суммы храним с точностью до копеек
+  const paymentAmount = Math.round(Number(amount) * 100) / 100;
+
+  if (!Number.isFinite(paymentAmount) || paymentAmount <= 0) {
+    return res.status(400).json({ error: 'amount must be a positive number' });
+  }
+
+  try {
+    const result = await addPayment(fineId, paymentAmount, req.user!.id);
+
+    switch (result.status) {
+      case 'not_found':
+        return res.status(404).json({ error: 'Fine not found' });
+      case 'closed':
+        return res.status(400).json({ error: 'Fine is already paid or waived' });
+      case 'overpayment':
+        return res.status(400).json({ error: `Payment exceeds the outstanding balance (${result.balance})` });
+    }
+
+    res.status(201).json({
+      message: 'Payment recorded successfully',
+      fine: result.fine,
+      payment: result.payment,
+    });
+  } catch (error) {
+    console.error('payFine error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Списывает штраф. Доступ проверяется на маршруте (право `fines:waive`).
+ *
+ * @async
+ * @function waiveFine
+ * @param {import('express').Request} req - req.params.id содержит ID штрафа, req.body — { reason }.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON со списанным штрафом.
+ * @throws {Error} Если штраф не найден, уже закрыт или произошла ошибка сервера.
+ */
+async function waiveFine(req: AuthenticatedRequest, res: Response) {
+  const fineId = Number(req.params.id);
+  const { reason } = req.body as FineWaiveRequestDto;
+
+  try {
+    const fine = await waive(fineId, req.user!.id, reason ?? null);
+
+    if (!fine) {
+      return res.status(404).json({ error: 'Fine not found or already closed' });
+    }
+
+    res.json({ message: 'Fine waived successfully', fine });
+  } catch (error) {
+    console.error('waiveFine error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { getUserFines, payFine, waiveFine };
@@ -0,0 +1,174 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { getOneById as getBookById } from '../../models/book-model';
+import { getOneById, getAllByUserId, create, cancel, promote, expireReady } from '../../models/holds-model';
+import { HOLD_PICKUP_DAYS, HOLD_EXPIRY_INTERVAL_MINUTES } from '../../config/circulation-config';
+import { principalHasPermission } from '../../config/roles';
+
+/**
+ * @module HoldsService
+ * Сервисный модуль для работы с бронями (очередью на выданные книги).
+ *
+ * Содержит функции для:
+ * - постановки в очередь на книгу,
+ * - отмены брони,
+ * - получения броней текущего пользователя,
+ * - фоновой задачи, закрывающей просроченные отложенные брони.
+ */
+
+// не запускаем задачу повторно, пока не закончился предыдущий прогон
+let expiryJobRunning = false;
+
+/**
+ * Ставит текущего пользователя в очередь на книгу.
+ *
+ * @async
+ * @function placeHold
+ * @param {import('express').Request} req - req.params.id содержит ID книги.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с созданной бронью.
+ * @throws {Error} Если книга не найдена, доступна для выдачи или произошла ошибка сервера.
+ */
+async function placeHold(req: AuthenticatedRequest, res: Response) {
+  const bookId = Number(req.params.id);
+  const userId = req.user!.id;
+
+  try {
+    const book = await getBookById(bookId);
+
+    if (!book) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+
+    // сначала освобождаем экземпляры по просроченным броням, иначе можно встать в лишнюю очередь
+    await expireReady(HOLD_PICKUP_DAYS);
+
+    const result = await create(bookId, userId);
+
+    switch (result.status) {
+      case 'available':
+        return res.status(400).json({ error: 'Book is available, check it out instead of placing a hold' });
+      case 'already_borrowed':
+        return res.status(400).json({ error: 'You already have this book on loan' });
+      case 'duplicate':
+        return res.status(400).json({ error: 'You already have an active hold on this book' });
+    }
+
+    res.status(201).json({
+      message: 'Hold placed successfully',
+      hold: result.hold,
+    });
+  } catch (error) {
+    console.error('placeHold error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Отменяет бронь. Отменить бронь может её владелец или пользователь с правом `holds:manage`.
+ * Если бронь держала отложенный экземпляр, он переходит следующему в очереди.
+ *
+ * @async
+ * @function cancelHold
+ * @param {import('express').Request} req - req.params.id содержит ID брони.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с отменённой бронью.
+ * @throws {Error} Если бронь не найдена, уже закрыта или произошла ошибка сервера.
+ */
+async function cancelHold(req: AuthenticatedRequest, res: Response) {
+  const holdId = Number(req.params.id);
+
+  try {
+    const hold = await getOneById(holdId);
+
+    if (!hold) {
+      return res.status(404).json({ error: 'Hold not found' });
+    }
+
+    if (hold.user_id !== req.user?.id && !principalHasPermission(req.user, 'holds:manage')) {
+      return res.status(403).json({ error: 'You can only cancel your own holds' });
+    }
+
+    const cancelledHold = await cancel(holdId);
+
+    if (!cancelledHold) {
+      return res.status(400).json({ error: 'Hold is already closed' });
+    }
+
+    await promote(cancelledHold.book_id, HOLD_PICKUP_DAYS);
+
+    res.json({
+      message: 'Hold cancelled successfully',
+      hold: cancelledHold,
+    });
+  } catch (error) {
+    console.error('cancelHold error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Получает брони текущего пользователя с позицией в очереди.
+ *
+ * @async
+ * @function getMyHolds
+ * @param {import('express').Request} req - req.user содержит текущего пользователя.
+ * @param {import('express').Response} res - Объект ответа Express.
+ * @returns {Promise<void>} Отправляет JSON с массивом броней.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getMyHolds(req: AuthenticatedRequest, res: Response) {
+  try {
+    await expireReady(HOLD_PICKUP_DAYS);
+
+    const holds = await getAllByUserId(req.user!.id);
+
+    res.json(holds);
+  } catch (error) {
+    console.error('getMyHolds error:', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Один прогон фоновой задачи: закрывает брони, не выкупленные за HOLD_PICKUP_DAYS дней,
+ * и передаёт экземпляры следующим в очереди. Ошибки только логируются,
+ * чтобы задача продолжала работать по расписанию.
+ */
+async function runHoldExpiryJob(): Promise<void> {
+  if (expiryJobRunning) {
+    return;
+  }
+
+  expiryJobRunning = true;
+
+  try {
+    const expired = await expireReady(HOLD_PICKUP_DAYS);
+
+    if (expired.length > 0) {
+      console.log(`Hold expiry: expired ${expired.length} hold(s)`);
+    }
+  } catch (err) {
+    console.error('Hold expiry job error', err);
+  } finally {
+    expiryJobRunning = false;
+  }
+}
+
+/**
+ * Запускает фоновую задачу истечения отложенных броней: сразу и затем раз в
+ * HOLD_EXPIRY_INTERVAL_MINUTES минут. Без неё бронь истекала бы только при следующей
+ * выдаче или запросе броней, и следующий в очереди ждал бы этого.
+ */
+function startHoldExpiryJob(): void {
+  if (HOLD_EXPIRY_INTERVAL_MINUTES <= 0) {
+    return;
+  }
+
+  void runHoldExpiryJob();
+
+  // таймер не должен держать процесс, если сервер уже остановлен
+  setInterval(runHoldExpiryJob, HOLD_EXPIRY_INTERVAL_MINUTES * 60 * 1000).unref();
+}
+
+export { placeHold, cancelHold, getMyHolds, startHoldExpiryJob };
@@ -0,0 +1,59 @@
+import { APP_URL } from '../../config/mail-config';
+import { MailMessage } from './mail-transport';
+
+/**
+ * @module MailTemplates
+ * Тексты писем, которые отправляет библиотека.
+ */
+
+/**
+ * Письмо со ссылкой для сброса пароля.
+ * @param to - адрес получателя
+ * @param username - имя пользователя
+ * @param token - токен сброса
+ * @param ttlMinutes - сколько минут действует ссылка
+ */
+function buildPasswordResetMail(to: string, username: string, token: string, ttlMinutes: number): MailMessage {
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Сброс пароля',
+    text: [
+      `Здравствуйте, ${username}!`,
+      '',
+      'Мы получили запрос на сброс пароля для вашей учётной записи в библиотеке.',
+      `Чтобы задать новый пароль, перейдите по ссылке (она действует ${ttlMinutes} мин.):`,
+      link,
+      '',
+      'Если вы не запрашивали сброс, просто проигнорируйте это письмо.',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Письмо со ссылкой для подтверждения email.
+ * @param to - подтверждаемый адрес
+ * @param username - имя пользователя
+ * @param token - токен подтверждения
+ * @param ttlHours - сколько часов действует ссылка
+ */
+function buildEmailVerificationMail(to: string, username: string, token: string, ttlHours: number): MailMessage {
+  const link = `${APP_URL}/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Подтверждение email',
+    text: [
+      `Здравствуйте, ${username}!`,
+      '',
+      'Подтвердите, пожалуйста, адрес электронной почты для учётной записи в библиотеке.',
+      `Для этого перейдите по ссылке (она действует ${ttlHours} ч.):`,
+      link,
+      '',
+      'Пока адрес не подтверждён, выдача книг недоступна.',
+    ].join('\n'),
+  };
+}
+
+export { buildPasswordResetMail, buildEmailVerificationMail };
@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { create as createOutboxMail } from '../../models/mail-outbox-model';
+import { MAIL_TRANSPORT, MAIL_OUTBOX_DIR, MAIL_FROM } from '../../config/mail-config';
+
+/**
+ * @module MailTransport
+ * Отправка писем через подключаемый транспорт.
+ *
+ * Транспорт — объект с методом `send`; конкретная реализация выбирается
+ * переменной окружения MAIL_TRANSPORT. Сейчас есть два «outbox»-транспорта,
+ * которые никуда не отправляют письма, а сохраняют их локально:
+ * - `file` — JSON-файл на каждое письмо в каталоге MAIL_OUTBOX_DIR;
+ * - `db` — строка в таблице `mail_outbox`.
+ * Настоящий SMTP-транспорт подключается добавлением ещё одной фабрики в TRANSPORTS.
+ */
+
+type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+type MailTransport = {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+};
+
+/**
+ * Создаёт транспорт, складывающий письма JSON-файлами в каталог.
+ * @param dir - каталог outbox (создаётся при первой отправке)
+ */
+function createFileOutboxTransport(dir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+
+      const createdAt = new Date();
+      // имя файла сортируется по времени, а UUID не даёт затереть письмо, отправленное в ту же миллисекунду
+      const fileName = `${createdAt.getTime()}-${crypto.randomUUID()}.json`;
+      const mail = { from: MAIL_FROM, ...message, createdAt: createdAt.toISOString() };
+
+      await fs.writeFile(path.join(dir, fileName), JSON.stringify(mail, null, 2), 'utf8');
+    },
+  };
+}
+
+/**
+ * Создаёт транспорт, записывающий письма в таблицу `mail_outbox`.
+ */
+function createDbOutboxTransport(): MailTransport {
+  return {
+    name: 'db',
+    async send(message) {
+      await createOutboxMail(MAIL_FROM, message.to, message.subject, message.text);
+    },
+  };
+}
+
+const TRANSPORTS: Record<string, () => MailTransport> = {
+  file: () => createFileOutboxTransport(MAIL_OUTBOX_DIR),
+  db: () => createDbOutboxTransport(),
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Возвращает транспорт, выбранный в MAIL_TRANSPORT (создаётся один раз).
+ * @throws {Error} Если указан неизвестный транспорт.
+ */
+function getMailTransport(): MailTransport {
+  if (!transport) {
+    const factory = TRANSPORTS[MAIL_TRANSPORT];
+
+    if (!factory) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${MAIL_TRANSPORT}"`);
+    }
+
+    transport = factory();
+  }
+
+  return transport;
+}
+
+/**
+ * Отправляет письмо через текущий транспорт.
+ * @param message - письмо
+ */
+async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+export { sendMail, getMailTransport, createFileOutboxTransport, createDbOutboxTransport };
+export type { MailMessage, MailTransport };
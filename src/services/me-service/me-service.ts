@@ -0,0 +1,229 @@
+import { Response } from 'express';
+
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { getOneById, remove, User } from '../../models/user-model';
+import { getAllByUserId as getLoansByUserId } from '../../models/book-loans-model';
+import { getAllByUserId as getFinesByUserId, getOutstandingBalance } from '../../models/fines-model';
+import { logSecurityEvent } from '../../models/security-event-model';
+import { getAllByUserId as getIdentitiesByUserId } from '../../models/user-identity-model';
+import { getSessionStartedAt } from '../../models/auth-models';
+import { REAUTH_MAX_AGE_MINUTES } from '../../config/auth-config';
+import { verifyPassword, getSessionMeta } from '../auth-service/auth-service';
+import { applyUserUpdate, sendUserUpdateError, OWNER_UPDATABLE_FIELDS } from '../user-service/user-service';
+
+/**
+ * @module MeService
+ * Сервисный модуль для самообслуживания текущего пользователя (`/me`).
+ *
+ * Содержит функции для:
+ * - получения и изменения своего профиля,
+ * - получения своих займов (текущих и прошлых) и штрафов,
+ * - удаления своей учётной записи.
+ */
+
+/**
+ * Собирает публичное представление профиля (без хэша пароля и служебных полей).
+ * @param user - запись пользователя
+ */
+function toProfile(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    email_verified_at: user.email_verified_at,
+    keep_loan_history: user.keep_loan_history,
+    created_at: user.created_at,
+    updated_at: user.updated_at,
+  };
+}
+
+/**
+ * Получает профиль текущего пользователя.
+ *
+ * @async
+ * @function getMe
+ * @param {import('express').Request} req - req.user содержит текущего пользователя.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с профилем.
+ * @throws {Error} Если пользователь не найден или произошла ошибка сервера.
+ */
+async function getMe(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const user = await getOneById(req.user!.id);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    return res.json(toProfile(user));
+  } catch (err) {
+    console.error('getMe error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Изменяет профиль текущего пользователя. Можно менять username, email и согласие
+ * на бессрочное хранение истории займов (keepLoanHistory);
+ * после смены email адрес снова считается неподтверждённым и на него уходит письмо подтверждения.
+ *
+ * @async
+ * @function updateMe
+ * @param {import('express').Request} req - req.body: { username?, email?, keepLoanHistory? }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с обновлённым профилем.
+ * @throws {Error} Если данные некорректны, username или email заняты, или произошла ошибка сервера.
+ */
+async function updateMe(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const result = await applyUserUpdate(req.user!.id, req.body, OWNER_UPDATABLE_FIELDS);
+
+    if (result.status !== 'ok') {
+      return sendUserUpdateError(res, result);
+    }
+
+    return res.json(toProfile(result.user));
+  } catch (err) {
+    console.error('updateMe error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Получает займы текущего пользователя: текущие (книга на руках) и прошлые.
+ *
+ * @async
+ * @function getMyLoans
+ * @param {import('express').Request} req - req.user содержит текущего пользователя.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON: { current, past }.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getMyLoans(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const loans = await getLoansByUserId(req.user!.id);
+
+    return res.json({
+      current: loans.filter((loan) => loan.returned_at === null),
+      past: loans.filter((loan) => loan.returned_at !== null),
+    });
+  } catch (err) {
+    console.error('getMyLoans error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Получает штрафы текущего пользователя и общую задолженность.
+ *
+ * @async
+ * @function getMyFines
+ * @param {import('express').Request} req - req.user содержит текущего пользователя.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON: { fines, outstandingBalance }.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getMyFines(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    const userId = req.user!.id;
+    const [fines, outstandingBalance] = await Promise.all([getFinesByUserId(userId), getOutstandingBalance(userId)]);
+
+    return res.json({ fines, outstandingBalance });
+  } catch (err) {
+    console.error('getMyFines error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Проверяет, что текущая сессия начата входом не раньше REAUTH_MAX_AGE_MINUTES минут назад.
+ * @param req - запрос с req.user.sid
+ */
+async function hasRecentLogin(req: AuthenticatedRequest): Promise<boolean> {
+  if (!req.user?.sid) {
+    return false;
+  }
+
+  const startedAt = await getSessionStartedAt(req.user.sid, req.user.id);
+
+  return startedAt !== null && Date.now() - new Date(startedAt).getTime() <= REAUTH_MAX_AGE_MINUTES * 60 * 1000;
+}
+
+/**
+ * Удаляет учётную запись текущего пользователя. Требует текущий пароль.
+ * Пользователь с внешней учётной записью (вход через OIDC) пароля не знает, поэтому
+ * вместо пароля ему достаточно свежего входа: сессия не старше REAUTH_MAX_AGE_MINUTES минут.
+ * Нельзя удалить аккаунт, пока на руках есть книги или не погашены штрафы,
+ * а также аккаунт последнего администратора.
+ *
+ * @async
+ * @function deleteMe
+ * @param {import('express').Request} req - req.body: { password? }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с подтверждением удаления.
+ * @throws {Error} Если пароль неверен, вход не свежий, удаление запрещено или произошла ошибка сервера.
+ */
+async function deleteMe(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const { password } = req.body ?? {};
+
+  try {
+    const userId = req.user!.id;
+    const user = await getOneById(userId);
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (password) {
+      if (!(await verifyPassword(password, user.password_hash))) {
+        return res.status(401).json({ error: 'Invalid password' });
+      }
+    } else {
+      const identities = await getIdentitiesByUserId(userId);
+
+      if (identities.length === 0) {
+        return res.status(400).json({ error: 'password is required' });
+      }
+
+      if (!(await hasRecentLogin(req))) {
+        return res.status(401).json({
+          error: `Sign in through your identity provider again (within ${REAUTH_MAX_AGE_MINUTES} minutes) or enter your password to delete the account`,
+          reauthenticationRequired: true,
+        });
+      }
+    }
+
+    if ((await getOutstandingBalance(userId)) > 0) {
+      return res.status(409).json({ error: 'Pay outstanding fines before deleting the account' });
+    }
+
+    const result = await remove(userId);
+
+    switch (result.status) {
+      case 'not_found':
+        return res.status(404).json({ error: 'User not found' });
+      case 'has_open_loans':
+        return res.status(409).json({ error: 'Return all borrowed books before deleting the account' });
+      case 'last_admin':
+        return res.status(409).json({ error: 'The last admin account cannot be deleted' });
+    }
+
+    const { ip, userAgent } = getSessionMeta(req);
+
+    await logSecurityEvent({
+      userId,
+      eventType: 'account_deleted',
+      details: { userId, username: user.username },
+      ip,
+      userAgent,
+    });
+
+    return res.json({ message: 'Account deleted' });
+  } catch (err) {
+    console.error('deleteMe error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { getMe, updateMe, getMyLoans, getMyFines, deleteMe };
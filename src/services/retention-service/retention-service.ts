@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+
+import { countRetentionCandidates, unlinkRetentionCandidates, RetentionSummary } from '../../models/book-loans-model';
+import {
+  LOAN_RETENTION_MONTHS,
+  LOAN_RETENTION_INTERVAL_MINUTES,
+  LOAN_RETENTION_DRY_RUN,
+} from '../../config/retention-config';
+
+/**
+ * @module RetentionService
+ * Политика хранения истории займов.
+ *
+ * Возвращённые займы старше LOAN_RETENTION_MONTHS месяцев отвязываются от читателей:
+ * запись о займе (книга, экземпляр, даты) остаётся, а связь с читателем заменяется
+ * счётчиком users.unlinked_loans_count. Займы читателей, включивших keep_loan_history,
+ * и займы с открытыми штрафами не трогаются.
+ *
+ * Содержит функции для:
+ * - применения политики (или пробного прогона),
+ * - запуска фоновой задачи внутри процесса,
+ * - просмотра и запуска политики администратором.
+ */
+
+/**
+ * пользовательский тип, описывающий отчёт о применении политики хранения.
+ *
+ * @typedef {Object} RetentionReport
+ * @property {boolean} dryRun - Пробный прогон: данные не изменены.
+ * @property {number} retentionMonths - Срок хранения в месяцах.
+ * @property {number} loans - Сколько займов отвязано (или было бы отвязано).
+ * @property {number} users - У скольких читателей.
+ */
+type RetentionReport = RetentionSummary & {
+  dryRun: boolean;
+  retentionMonths: number;
+};
+
+// не запускаем задачу повторно, пока не закончился предыдущий прогон
+let jobRunning = false;
+
+/**
+ * Применяет политику хранения или только считает, что она изменила бы.
+ * @param retentionMonths - срок хранения в месяцах
+ * @param dryRun - пробный прогон
+ */
+async function applyLoanRetention(retentionMonths: number, dryRun: boolean): Promise<RetentionReport> {
+  const summary = dryRun
+    ? await countRetentionCandidates(retentionMonths)
+    : await unlinkRetentionCandidates(retentionMonths);
+
+  return { dryRun, retentionMonths, ...summary };
+}
+
+/**
+ * Один прогон фоновой задачи: применяет политику и пишет итог в лог.
+ * Ошибки только логируются, чтобы задача продолжала работать по расписанию.
+ */
+async function runLoanRetentionJob(): Promise<void> {
+  if (jobRunning) {
+    return;
+  }
+
+  jobRunning = true;
+
+  try {
+    const report = await applyLoanRetention(LOAN_RETENTION_MONTHS, LOAN_RETENTION_DRY_RUN);
+    const verb = report.dryRun ? 'would unlink' : 'unlinked';
+
+    console.log(`Loan retention: ${verb} ${report.loans} loan(s) of ${report.users} user(s)`);
+  } catch (err) {
+    console.error('Loan retention job error', err);
+  } finally {
+    jobRunning = false;
+  }
+}
+
+/**
+ * Запускает фоновую задачу политики хранения: сразу и затем раз в LOAN_RETENTION_INTERVAL_MINUTES минут.
+ * При LOAN_RETENTION_MONTHS=0 задача не запускается.
+ */
+function startLoanRetentionJob(): void {
+  if (LOAN_RETENTION_MONTHS <= 0 || LOAN_RETENTION_INTERVAL_MINUTES <= 0) {
+    return;
+  }
+
+  void runLoanRetentionJob();
+
+  // таймер не должен держать процесс, если сервер уже остановлен
+  setInterval(runLoanRetentionJob, LOAN_RETENTION_INTERVAL_MINUTES * 60 * 1000).unref();
+}
+
+/**
+ * Показывает, сколько займов политика хранения отвязала бы сейчас (ничего не меняя).
+ * Срок можно переопределить параметром months, чтобы подобрать значение до включения политики.
+ *
+ * @async
+ * @function previewLoanRetention
+ * @param {import('express').Request} req - req.query: { months? }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с отчётом пробного прогона.
+ * @throws {Error} Если срок не задан или произошла ошибка сервера.
+ */
+async function previewLoanRetention(req: Request, res: Response): Promise<Response> {
+  const months = req.query.months === undefined ? LOAN_RETENTION_MONTHS : Number(req.query.months);
+
+  if (!Number.isInteger(months) || months <= 0) {
+    return res.status(400).json({ error: 'months must be a positive integer (LOAN_RETENTION_MONTHS is not set)' });
+  }
+
+  try {
+    return res.json(await applyLoanRetention(months, true));
+  } catch (err) {
+    console.error('previewLoanRetention error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Применяет политику хранения сразу, не дожидаясь фоновой задачи.
+ * Использует настроенный срок и пробный режим (LOAN_RETENTION_DRY_RUN).
+ *
+ * @async
+ * @function runLoanRetention
+ * @param {import('express').Request} req - Объект запроса.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с отчётом.
+ * @throws {Error} Если политика выключена или произошла ошибка сервера.
+ */
+async function runLoanRetention(req: Request, res: Response): Promise<Response> {
+  if (LOAN_RETENTION_MONTHS <= 0) {
+    return res.status(409).json({ error: 'Loan retention policy is disabled' });
+  }
+
+  try {
+    return res.json(await applyLoanRetention(LOAN_RETENTION_MONTHS, LOAN_RETENTION_DRY_RUN));
+  } catch (err) {
+    console.error('runLoanRetention error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { startLoanRetentionJob, previewLoanRetention, runLoanRetention };
+export type { RetentionReport };
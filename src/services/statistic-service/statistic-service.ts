@@ -11,7 +11,7 @@ import {
  * Сервисный модуль для работы со статистикой.
  * 
  * Содержит функции для:
- * - получение должников у которых есть не сданные книги с названиями книг и датой когда взял ,
+ * - получение должников у которых есть просроченные книги с названиями книг, датой когда взял и сроком возврата,
  * - получение одного должника по имени,
  * - получение не сданных книг с датой когдв взяли и кто взял, 
  * - получение всех доступных книг, 
@@ -24,6 +24,8 @@ type Debtor = {
     email: string;
     title: string;
     taken_at: Date;
+    due_at: Date;
+    days_overdue: number;
 };
     
 
@@ -32,7 +34,7 @@ async function getAllDebtors(req: Request, res: Response): Promise<void> {
       const debtors = await getAllDeb();
   
       res.json({
-        message: 'List of all debtors',
+        message: 'List of all debtors with overdue loans',
         data: debtors,
       });
   
@@ -53,7 +55,7 @@ async function getAllDebtors(req: Request, res: Response): Promise<void> {
   
       if (!debtor) {
         res.status(404).json({
-          message: 'User not found or no active loans',
+          message: 'User not found or no overdue loans',
         });
         return;
       }
@@ -113,7 +115,7 @@ async function getAllDebtors(req: Request, res: Response): Promise<void> {
       const topUsers = await getTop();
   
       res.json({
-        message: 'Top 5 active users',
+        message: 'Top 5 readers',
         data: topUsers,
       });
   
@@ -0,0 +1,182 @@
+import { Response } from 'express';
+
+import { AuthenticatedRequest } from '../../middleware/auth-middleware';
+import { getOneById, anonymize } from '../../models/user-model';
+import { getAllByUserId as getLoansByUserId } from '../../models/book-loans-model';
+import { getAllByUserId as getHoldsByUserId } from '../../models/holds-model';
+import { getAllByUserId as getFinesByUserId } from '../../models/fines-model';
+import { getSessionsByUserId } from '../../models/auth-models';
+import { getAllByUserId as getIdentitiesByUserId } from '../../models/user-identity-model';
+import { getAllByUserId as getRoleChangesByUserId } from '../../models/role-change-model';
+import { getAllByUserId as getStatusChangesByUserId } from '../../models/user-status-model';
+import { getAllByUserId as getSecurityEventsByUserId, logSecurityEvent } from '../../models/security-event-model';
+import { getAllByUserId as getLoginAttemptsByUserId } from '../../models/login-attempt-model';
+import { getByUserId as getTwoFactorByUserId } from '../../models/two-factor-model';
+import { getSessionMeta } from '../auth-service/auth-service';
+
+/**
+ * @module UserDataService
+ * Сервисный модуль для запросов субъектов персональных данных.
+ *
+ * Содержит функции для:
+ * - выгрузки всех данных о пользователе одним JSON-архивом,
+ * - анонимизации пользователя (займы остаются привязаны к псевдониму, статистика не меняется).
+ */
+
+/**
+ * Собирает все данные, которые хранятся о пользователе. Хэши пароля, токенов
+ * и секрет 2FA в выгрузку не попадают.
+ * @param userId - ID пользователя
+ * @returns Архив с данными или null, если пользователя нет.
+ */
+async function buildUserDataExport(userId: number) {
+  const user = await getOneById(userId);
+
+  if (!user) {
+    return null;
+  }
+
+  const [loans, holds, fines, sessions, identities, roleChanges, statusChanges, securityEvents, loginAttempts, twoFactor] =
+    await Promise.all([
+      getLoansByUserId(userId),
+      getHoldsByUserId(userId),
+      getFinesByUserId(userId),
+      getSessionsByUserId(userId),
+      getIdentitiesByUserId(userId),
+      getRoleChangesByUserId(userId),
+      getStatusChangesByUserId(userId),
+      getSecurityEventsByUserId(userId),
+      getLoginAttemptsByUserId(userId),
+      getTwoFactorByUserId(userId),
+    ]);
+
+  const { password_hash, ...profile } = user;
+
+  return {
+    exportedAt: new Date(),
+    profile: { ...profile, twoFactorEnabled: Boolean(twoFactor?.confirmed_at) },
+    loans,
+    holds,
+    fines,
+    sessions,
+    identities,
+    roleChanges,
+    statusChanges,
+    securityEvents,
+    loginAttempts,
+  };
+}
+
+/**
+ * Отправляет выгрузку данных пользователя JSON-файлом.
+ * @param res - объект ответа
+ * @param userId - ID пользователя
+ */
+async function sendUserDataExport(res: Response, userId: number): Promise<Response> {
+  const archive = await buildUserDataExport(userId);
+
+  if (!archive) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+
+  res.attachment(`user-${userId}-data.json`);
+  return res.json(archive);
+}
+
+/**
+ * Выгружает все данные пользователя: профиль, займы, брони, штрафы, сессии,
+ * внешние учётные записи и журналы. Пользователь может выгрузить свои данные,
+ * администратор — данные любого пользователя.
+ *
+ * @async
+ * @function exportUserData
+ * @param {import('express').Request} req - Объект запроса, содержит params.id.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON-файл с данными пользователя.
+ * @throws {Error} Если пользователь не найден или произошла ошибка сервера.
+ */
+async function exportUserData(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    return await sendUserDataExport(res, Number(req.params.id));
+  } catch (err) {
+    console.error('exportUserData error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Выгружает все данные текущего пользователя.
+ *
+ * @async
+ * @function exportMyData
+ * @param {import('express').Request} req - req.user содержит текущего пользователя.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON-файл с данными пользователя.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function exportMyData(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  try {
+    return await sendUserDataExport(res, req.user!.id);
+  } catch (err) {
+    console.error('exportMyData error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+/**
+ * Анонимизирует пользователя: стирает username, email, пароль, сессии и прочие персональные данные.
+ * Займы, брони и штрафы остаются привязаны к псевдониму, поэтому статистика не меняется.
+ * Операция необратима.
+ *
+ * @async
+ * @function anonymizeUser
+ * @param {import('express').Request} req - Объект запроса, содержит params.id.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с псевдонимом пользователя.
+ * @throws {Error} Если анонимизация запрещена или произошла ошибка сервера.
+ */
+async function anonymizeUser(req: AuthenticatedRequest, res: Response): Promise<Response> {
+  const userId = Number(req.params.id);
+
+  if (userId === req.user?.id) {
+    return res.status(400).json({ error: 'You cannot anonymize your own account' });
+  }
+
+  try {
+    const result = await anonymize(userId);
+
+    switch (result.status) {
+      case 'not_found':
+        return res.status(404).json({ error: 'User not found' });
+      case 'already_anonymized':
+        return res.status(409).json({ error: 'User is already anonymized' });
+      case 'has_open_loans':
+        return res.status(409).json({ error: 'User has books on loan, they must be returned before anonymization' });
+      case 'has_outstanding_fines':
+        return res.status(409).json({ error: 'User has outstanding fines, they must be paid or waived before anonymization' });
+      case 'last_admin':
+        return res.status(409).json({ error: 'Cannot anonymize the last admin' });
+    }
+
+    // журнал пользователя только что очищен, поэтому IP и User-Agent здесь — администратора
+    const { ip, userAgent } = getSessionMeta(req);
+
+    await logSecurityEvent({
+      userId,
+      eventType: 'account_anonymized',
+      details: { anonymizedBy: req.user!.id },
+      ip,
+      userAgent,
+    });
+
+    return res.json({
+      message: 'User anonymized successfully',
+      user: { id: result.user.id, username: result.user.username, anonymizedAt: result.user.anonymized_at },
+    });
+  } catch (err) {
+    console.error('anonymizeUser error', err);
+    return res.status(500).json({ error: 'Server error' });
+  }
+}
+
+export { buildUserDataExport, exportUserData, exportMyData, anonymizeUser };
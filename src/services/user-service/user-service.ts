@@ -1,6 +1,29 @@
 import { Request, Response } from 'express';
-import { updateMail, update, remove, getAll, create, getOneById, getOneByName } from '../../models/user-model';
+import {
+  update,
+  remove,
+  restore,
+  getAll,
+  create,
+  getOneById,
+  getOneByEmail,
+  UpdateUserResult,
+  UserUpdateDto,
+} from '../../models/user-model';
 import bcrypt from 'bcryptjs';
+import { sendVerificationEmail } from '../auth-service/email-verification-service';
+import { validatePassword } from '../../utils/password-policy';
+import { validateUsername, validateEmail } from '../../utils/user-validation';
+import { BCRYPT_SALT_ROUNDS } from '../../config/auth-config';
+import { resolveAssignableRole, principalHasPermission, DEFAULT_ROLE } from '../../config/roles';
+import { changeRole, recordInitialRole, getAllByUserId as getRoleChangesByUserId } from '../../models/role-change-model';
+import {
+  ACCOUNT_STATUSES,
+  AccountStatus,
+  changeStatus,
+  getAllByUserId as getStatusChangesByUserId,
+} from '../../models/user-status-model';
+import { deleteAllSessions } from '../../models/auth-models';
 
 /**
  * @module UserService
@@ -10,9 +33,11 @@ import bcrypt from 'bcryptjs';
  * - получение всех пользователей,
  * - получение одного пользователя по ID,
  * - создание нового пользователя,
- * - удаление пользователя по ID,
+ * - удаление пользователя по ID (мягкое) и восстановление,
  * - обновление информации пользователя,
- * - обновление электронной почты пользователя.
+ * - обновление электронной почты пользователя,
+ * - смена роли пользователя и история ролей,
+ * - блокировка и деактивация пользователя и история статусов.
  */
 
 type User = {
@@ -20,6 +45,7 @@ type User = {
   username: string;
   email: string;
   role: string;
+  status: string;
 };
 
 type UserCreateRequestDto = {
@@ -29,12 +55,163 @@ type UserCreateRequestDto = {
   role: string;
 };
 
-type UserUpdateRequestDto = Omit<UserCreateRequestDto, 'password' | 'role'>;
+type UserUpdateField = keyof UserUpdateDto;
+
+type UpdatedUser = Extract<UpdateUserResult, { status: 'ok' }>['user'];
+
+type ApplyUserUpdateResult =
+  | Exclude<UpdateUserResult, { status: 'ok' }>
+  | { status: 'ok'; user: UpdatedUser }
+  | { status: 'unknown_fields'; fields: string[] }
+  | { status: 'forbidden_fields'; fields: string[] }
+  | { status: 'invalid'; details: string[] };
 
 type UpdateUserMailRequestDto = {
   userId: number;
   newMail: string;
 };
+
+type UserRoleUpdateRequestDto = {
+  role: string;
+  reason?: string;
+};
+
+type UserStatusUpdateRequestDto = {
+  status: string;
+  reason?: string;
+  until?: string;
+};
+
+// Какие поля может менять сам владелец учётной записи, а какие — пользователь с правом users:manage.
+// Роль меняется отдельно (PUT /users/:id/role), пароль — через смену или сброс пароля.
+const OWNER_UPDATABLE_FIELDS: readonly UserUpdateField[] = ['username', 'email', 'keepLoanHistory'];
+const MANAGER_UPDATABLE_FIELDS: readonly UserUpdateField[] = ['username', 'email', 'emailVerified', 'keepLoanHistory'];
+const USER_UPDATE_FIELDS: readonly string[] = MANAGER_UPDATABLE_FIELDS;
+
+/**
+ * Проверяет и применяет частичное обновление пользователя.
+ * Поля вне белого списка отклоняются целиком; значения, совпадающие с текущими, пропускаются.
+ * При смене email на новый адрес уходит письмо подтверждения (если адрес не отмечен подтверждённым).
+ * @param userId - ID изменяемого пользователя
+ * @param body - тело запроса: { username?, email?, emailVerified?, keepLoanHistory? }
+ * @param allowedFields - поля, которые разрешено менять текущему пользователю
+ * @returns {Promise<ApplyUserUpdateResult>} Обновлённый пользователь или причина отказа.
+ */
+async function applyUserUpdate(
+  userId: number,
+  body: Record<string, unknown>,
+  allowedFields: readonly UserUpdateField[],
+): Promise<ApplyUserUpdateResult> {
+  const keys = Object.keys(body ?? {});
+  const unknownFields = keys.filter((key) => !USER_UPDATE_FIELDS.includes(key));
+
+  if (unknownFields.length > 0) {
+    return { status: 'unknown_fields', fields: unknownFields };
+  }
+
+  const forbiddenFields = keys.filter((key) => !allowedFields.includes(key as UserUpdateField));
+
+  if (forbiddenFields.length > 0) {
+    return { status: 'forbidden_fields', fields: forbiddenFields };
+  }
+
+  const { username, email, emailVerified, keepLoanHistory } = body;
+  const details: string[] = [];
+
+  if (username !== undefined) {
+    details.push(...validateUsername(username));
+  }
+
+  if (email !== undefined) {
+    details.push(...validateEmail(email));
+  }
+
+  if (emailVerified !== undefined && typeof emailVerified !== 'boolean') {
+    details.push('emailVerified must be a boolean');
+  }
+
+  if (keepLoanHistory !== undefined && typeof keepLoanHistory !== 'boolean') {
+    details.push('keepLoanHistory must be a boolean');
+  }
+
+  if (keys.length === 0) {
+    details.push('at least one of the fields is required: ' + allowedFields.join(', '));
+  }
+
+  if (details.length > 0) {
+    return { status: 'invalid', details };
+  }
+
+  const current = await getOneById(userId);
+
+  if (!current) {
+    return { status: 'not_found' };
+  }
+
+  const fields: UserUpdateDto = {};
+
+  if (username !== undefined && username !== current.username) {
+    fields.username = username as string;
+  }
+
+  if (email !== undefined && email !== current.email) {
+    // уникальность в базе учитывает регистр, а поиск по email — нет
+    const owner = await getOneByEmail(email as string);
+
+    if (owner && owner.id !== userId) {
+      return { status: 'email_taken' };
+    }
+
+    fields.email = email as string;
+  }
+
+  if (emailVerified !== undefined) {
+    fields.emailVerified = emailVerified as boolean;
+  }
+
+  if (keepLoanHistory !== undefined && keepLoanHistory !== current.keep_loan_history) {
+    fields.keepLoanHistory = keepLoanHistory as boolean;
+  }
+
+  if (Object.keys(fields).length === 0) {
+    return { status: 'ok', user: current };
+  }
+
+  const result = await update(userId, fields);
+
+  if (result.status === 'ok' && fields.email !== undefined && !fields.emailVerified) {
+    // если письмо не ушло, его можно запросить повторно
+    try {
+      await sendVerificationEmail(result.user);
+    } catch (mailErr) {
+      console.error('applyUserUpdate: failed to send verification email', mailErr);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Отправляет ответ с ошибкой для неудачного результата applyUserUpdate.
+ * @param res - объект ответа
+ * @param result - результат обновления (не `ok`)
+ */
+function sendUserUpdateError(res: Response, result: Exclude<ApplyUserUpdateResult, { status: 'ok' }>): Response {
+  switch (result.status) {
+    case 'unknown_fields':
+      return res.status(400).json({ error: 'Unknown fields', fields: result.fields });
+    case 'forbidden_fields':
+      return res.status(403).json({ error: 'You are not allowed to change these fields', fields: result.fields });
+    case 'invalid':
+      return res.status(400).json({ error: 'Invalid user data', details: result.details });
+    case 'not_found':
+      return res.status(404).json({ error: 'User not found' });
+    case 'username_taken':
+      return res.status(409).json({ error: 'username already taken' });
+    case 'email_taken':
+      return res.status(409).json({ error: 'email already taken' });
+  }
+}
 /**
  * Получает всех пользователей.
  *
@@ -57,6 +234,7 @@ async function getAllUsers(req: Request, res: Response): Promise<void> {
       name: user.username,
       mail: user.email,
       role: user.role,
+      status: user.status,
     }));
 
     res.json({
@@ -98,6 +276,11 @@ async function getOneUser(req: Request, res: Response): Promise<void> {
         name: user.username,
         mail: user.email,
         role: user.role,
+        status: user.status,
+        statusReason: user.status_reason,
+        suspendedUntil: user.suspended_until,
+        deletedAt: user.deleted_at,
+        anonymizedAt: user.anonymized_at,
       },
     });
   } catch (error: any) {
@@ -135,26 +318,69 @@ async function createUser(req: AuthenticatedRequest, res: Response): Promise<voi
       return;
     }
 
+    // те же проверки username и email, что и при изменении пользователя
+    const details = [...validateUsername(userName), ...validateEmail(email)];
+
+    if (details.length > 0) {
+      sendUserUpdateError(res, { status: 'invalid', details });
+      return;
+    }
+
+    const passwordViolations = validatePassword(password, { username: userName, email });
+
+    if (passwordViolations.length > 0) {
+      res.status(400).json({ message: 'Password does not meet the policy', details: passwordViolations });
+      return;
+    }
+
+    // уникальность в базе учитывает регистр, а поиск по email — нет
+    if (await getOneByEmail(email)) {
+      sendUserUpdateError(res, { status: 'email_taken' });
+      return;
+    }
+
     // число “раундов” соли (или “сложность” хэширования).
     // Соль — это случайная добавка к паролю перед хэшированием.
     // Она делает хэш уникальным.
-    const saltRounds = 10;
+    const saltRounds = BCRYPT_SALT_ROUNDS;
 
     // bcrypt генерирует соль (автоматически, исходя из saltRounds).
     // Затем смешивает соль с паролем и создаёт хэш
     const password_hash = await bcrypt.hash(password, saltRounds);
 
-    // Определяем роль (по умолчанию "user")
-    let userRole = 'user';
-    if (role === 'admin') {
-      if (req.user && req.user.role === 'admin') {
-        userRole = 'admin'; // админ может создать другого админа
-      } else {
-        res.status(403).json({ error: 'Only admins can assign the admin role' });
-        return;
-      }
+    // Определяем роль (по умолчанию "user") по общему правилу назначения ролей
+    const assignment = resolveAssignableRole(role, req.user);
+
+    if (assignment.status === 'invalid') {
+      res.status(400).json({ error: `Unknown role "${role}"` });
+      return;
+    }
+
+    if (assignment.status === 'forbidden') {
+      res.status(403).json({ error: 'Only admins can assign roles other than the default one' });
+      return;
+    }
+
+    const created = await create(userName, email, password_hash, assignment.role);
+
+    if (created.status !== 'ok') {
+      sendUserUpdateError(res, created);
+      return;
+    }
+
+    const newUser = created.user;
+
+    if (assignment.role !== DEFAULT_ROLE) {
+      await recordInitialRole(newUser.id, assignment.role, req.user?.id ?? null);
     }
-    const newUser = await create(userName, email, password_hash, userRole);
+
+    // Как и при регистрации, email не подтверждён; если письмо не ушло, его можно запросить повторно
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (mailErr) {
+      console.error('createUser: failed to send verification email', mailErr);
+    }
+
     res.status(201).json({
       message: 'User created successfully',
       user: {
@@ -162,11 +388,12 @@ async function createUser(req: AuthenticatedRequest, res: Response): Promise<voi
         name: newUser.username,
         mail: newUser.email,
         role: newUser.role,
+        emailVerified: false,
       },
     });
   } catch (error: any) {
     console.error('Error creating user:', error);
-    res.status(500).json({ message: 'Error creating user', error: error.message });
+    res.status(500).json({ message: 'Error creating user' });
   }
 }
 
@@ -183,60 +410,83 @@ async function createUser(req: AuthenticatedRequest, res: Response): Promise<voi
 async function deleteUser(req: Request, res: Response): Promise<void> {
   const userId: number = Number(req.params.id);
   try {
-    const deletedUser = await remove(userId);
-    if (deletedUser) {
-      res.json({ message: 'User deleted successfully', user: deletedUser });
-    } else {
-      res.status(404).json({ message: 'User not found' });
+    const result = await remove(userId);
+
+    switch (result.status) {
+      case 'not_found':
+        res.status(404).json({ message: 'User not found' });
+        return;
+      case 'has_open_loans':
+        res.status(409).json({ error: 'User has books on loan, they must be returned before deletion' });
+        return;
+      case 'last_admin':
+        res.status(409).json({ error: 'Cannot delete the last admin' });
+        return;
     }
+
+    const { password_hash, ...userData } = result.user;
+
+    res.json({ message: 'User deleted successfully', user: userData });
   } catch (error: any) {
     res.status(500).json({ message: 'Error deleting user', error: error.message });
   }
 }
 
 /**
- * Обновляет имя и/или email пользователя.
+ * Восстанавливает удалённого пользователя.
  *
  * @async
- * @function updateUser
- * @param {import('express').Request} req - Объект запроса, содержит body: { userId, userName, email }.
+ * @function restoreUser
+ * @param {import('express').Request} req - Объект запроса, содержит params.id.
  * @param {import('express').Response} res - Объект ответа.
- * @returns {Promise<void>} Отправляет JSON с обновленными данными пользователя.
- * @throws {Error} Если произошла ошибка при обновлении.
+ * @returns {Promise<void>} Отправляет JSON с данными восстановленного пользователя.
+ * @throws {Error} Если произошла ошибка при восстановлении пользователя.
  */
+async function restoreUser(req: Request, res: Response): Promise<void> {
+  const userId: number = Number(req.params.id);
 
-async function updateUser(req: Request, res: Response): Promise<void> {
   try {
-    const { userName, email } = req.body as UserUpdateRequestDto;
-    const userId = Number(req.params.id);
+    const restoredUser = await restore(userId);
 
-    console.log(req.params);
-    console.log({ userId, userName, email });
-
-    if (!userId) {
-      res.status(400).json({ message: 'userId is required' });
+    if (!restoredUser) {
+      res.status(404).json({ message: 'Deleted user not found' });
       return;
     }
 
-    // Создаем объект только с полями, которые пришли
-    const fieldsToUpdate: UserUpdateRequestDto = { userName: '', email: '' };
+    const { password_hash, ...userData } = restoredUser;
 
-    if (userName) {
-      fieldsToUpdate.userName = userName;
-    }
+    res.json({ message: 'User restored successfully', user: userData });
+  } catch (error: any) {
+    res.status(500).json({ message: 'Error restoring user', error: error.message });
+  }
+}
 
-    if (email) {
-      fieldsToUpdate.email = email;
-    }
+/**
+ * Частично обновляет пользователя (PATCH). Владелец может менять свои username, email
+ * и согласие на хранение истории займов, пользователь с правом `users:manage` — ещё и отметку
+ * о подтверждении email.
+ *
+ * @async
+ * @function updateUser
+ * @param {import('express').Request} req - req.params.id содержит ID пользователя, req.body — { username?, email?, emailVerified?, keepLoanHistory? }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с обновленными данными пользователя.
+ * @throws {Error} Если данные некорректны, поле нельзя менять, username или email заняты, или произошла ошибка сервера.
+ */
+async function updateUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const userId = Number(req.params.id);
+  const canManage = principalHasPermission(req.user, 'users:manage');
+  const allowedFields = canManage ? MANAGER_UPDATABLE_FIELDS : OWNER_UPDATABLE_FIELDS;
 
-    const updatedUser = await update(userId, fieldsToUpdate);
+  try {
+    const result = await applyUserUpdate(userId, req.body, allowedFields);
 
-    if (!updatedUser) {
-      res.status(404).json({ message: 'User not found or nothing to update' });
+    if (result.status !== 'ok') {
+      sendUserUpdateError(res, result);
       return;
     }
 
-    const { password_hash, created_at, updated_at, ...userData } = updatedUser;
+    const { password_hash, ...userData } = result.user;
 
     res.status(200).json({ message: 'User updated successfully', user: userData });
   } catch (error: any) {
@@ -246,7 +496,9 @@ async function updateUser(req: Request, res: Response): Promise<void> {
 }
 
 /**
- * Обновляет email пользователя.
+ * Обновляет email пользователя (устаревший вариант PATCH /users/:id с полем email).
+ * Проверки те же, что у updateUser: формат адреса, занятость (409), а новый адрес
+ * нужно подтвердить заново — на него уходит письмо со ссылкой.
  *
  * @async
  * @function updateUserMail
@@ -265,17 +517,221 @@ async function updateUserMail(req: Request, res: Response) {
   try {
     const body: UpdateUserMailRequestDto = req.body;
     const { userId, newMail } = body;
-    const result = await updateMail(newMail, userId);
 
-    if (result) {
-      res.status(200).json({ message: 'User email updated', user: result });
-    } else {
-      res.status(404).json({ message: 'User not found' });
+    if (!userId || !newMail) {
+      res.status(400).json({ message: 'userId and newMail are required' });
+      return;
+    }
+
+    const result = await applyUserUpdate(Number(userId), { email: newMail }, MANAGER_UPDATABLE_FIELDS);
+
+    if (result.status !== 'ok') {
+      sendUserUpdateError(res, result);
+      return;
+    }
+
+    const { password_hash, ...userData } = result.user;
+
+    res.status(200).json({ message: 'User email updated', user: userData });
+  } catch (error: any) {
+    console.error('Error updating user email:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+/**
+ * Меняет роль пользователя. Изменение записывается в журнал ролей, а сессии пользователя закрываются.
+ *
+ * @async
+ * @function updateUserRole
+ * @param {import('express').Request} req - req.params.id содержит ID пользователя, req.body — { role, reason }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с записью журнала об изменении.
+ * @throws {Error} Если роль некорректна, пользователь не найден или произошла ошибка сервера.
+ */
+async function updateUserRole(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const userId = Number(req.params.id);
+  const { role, reason } = (req.body ?? {}) as UserRoleUpdateRequestDto;
+
+  if (!role) {
+    res.status(400).json({ error: 'role is required' });
+    return;
+  }
+
+  const assignment = resolveAssignableRole(role, req.user);
+
+  if (assignment.status === 'invalid') {
+    res.status(400).json({ error: `Unknown role "${role}"` });
+    return;
+  }
+
+  if (assignment.status === 'forbidden') {
+    res.status(403).json({ error: 'Only admins can assign roles other than the default one' });
+    return;
+  }
+
+  try {
+    const result = await changeRole(userId, assignment.role, req.user!.id, reason ?? null);
+
+    switch (result.status) {
+      case 'not_found':
+        res.status(404).json({ error: 'User not found' });
+        return;
+      case 'unchanged':
+        res.status(400).json({ error: `User already has the role "${assignment.role}"` });
+        return;
+      case 'last_admin':
+        res.status(409).json({ error: 'Cannot change the role of the last admin' });
+        return;
+    }
+
+    // вход со старой ролью не должен продолжаться: пусть пользователь войдёт заново
+    await deleteAllSessions(userId);
+
+    res.json({ message: 'User role updated successfully', change: result.change });
+  } catch (error: any) {
+    console.error('Error updating user role:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+/**
+ * Получает историю ролей пользователя (кто, когда и как менял роль).
+ *
+ * @async
+ * @function getUserRoleChanges
+ * @param {import('express').Request} req - req.params.id содержит ID пользователя.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с массивом изменений роли.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getUserRoleChanges(req: Request, res: Response): Promise<void> {
+  const userId = Number(req.params.id);
+
+  try {
+    const changes = await getRoleChangesByUserId(userId);
+
+    res.json(changes);
+  } catch (error: any) {
+    console.error('Error getting role changes:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+/**
+ * Меняет статус учётной записи: блокирует до указанной даты (suspended), деактивирует
+ * или снова активирует пользователя. Изменение записывается в журнал статусов.
+ * При блокировке и деактивации все сессии пользователя закрываются.
+ *
+ * @async
+ * @function updateUserStatus
+ * @param {import('express').Request} req - req.params.id содержит ID пользователя, req.body — { status, reason, until }.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с записью журнала об изменении.
+ * @throws {Error} Если данные некорректны, пользователь не найден или произошла ошибка сервера.
+ */
+async function updateUserStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+  const userId = Number(req.params.id);
+  const { status, reason, until } = (req.body ?? {}) as UserStatusUpdateRequestDto;
+
+  if (!(ACCOUNT_STATUSES as readonly string[]).includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${ACCOUNT_STATUSES.join(', ')}` });
+    return;
+  }
+
+  if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+    res.status(400).json({ error: 'reason must be a string' });
+    return;
+  }
+
+  let suspendedUntil: Date | null = null;
+
+  if (status === 'suspended') {
+    suspendedUntil = typeof until === 'string' ? new Date(until) : null;
+
+    if (!reason) {
+      res.status(400).json({ error: 'reason is required to suspend a user' });
+      return;
+    }
+
+    if (!suspendedUntil || Number.isNaN(suspendedUntil.getTime()) || suspendedUntil <= new Date()) {
+      res.status(400).json({ error: 'until must be a future date to suspend a user' });
+      return;
     }
+  }
+
+  if (userId === req.user?.id) {
+    res.status(400).json({ error: 'You cannot change the status of your own account' });
+    return;
+  }
+
+  try {
+    const result = await changeStatus(
+      userId,
+      { status: status as AccountStatus, reason: reason ?? null, suspendedUntil },
+      req.user!.id,
+    );
+
+    switch (result.status) {
+      case 'not_found':
+        res.status(404).json({ error: 'User not found' });
+        return;
+      case 'unchanged':
+        res.status(400).json({ error: `User already has the status "${status}"` });
+        return;
+      case 'last_admin':
+        res.status(409).json({ error: 'Cannot suspend or deactivate the last active admin' });
+        return;
+    }
+
+    if (status !== 'active') {
+      // access-токены отклоняет authenticateToken, а refresh-токены просто удаляем
+      await deleteAllSessions(userId);
+    }
+
+    res.json({ message: 'User status updated successfully', change: result.change });
+  } catch (error: any) {
+    console.error('Error updating user status:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+/**
+ * Получает историю статусов пользователя (блокировки, деактивации, активации).
+ *
+ * @async
+ * @function getUserStatusChanges
+ * @param {import('express').Request} req - req.params.id содержит ID пользователя.
+ * @param {import('express').Response} res - Объект ответа.
+ * @returns {Promise<void>} Отправляет JSON с массивом изменений статуса.
+ * @throws {Error} Если произошла ошибка сервера.
+ */
+async function getUserStatusChanges(req: Request, res: Response): Promise<void> {
+  const userId = Number(req.params.id);
+
+  try {
+    const changes = await getStatusChangesByUserId(userId);
+
+    res.json(changes);
   } catch (error: any) {
-    console.error('Error updating user name:', error);
+    console.error('Error getting status changes:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 }
 
-export { getAllUsers, getOneUser, createUser, deleteUser, updateUser, updateUserMail };
+export {
+  applyUserUpdate,
+  sendUserUpdateError,
+  OWNER_UPDATABLE_FIELDS,
+  getAllUsers,
+  getOneUser,
+  createUser,
+  deleteUser,
+  restoreUser,
+  updateUser,
+  updateUserMail,
+  updateUserRole,
+  getUserRoleChanges,
+  updateUserStatus,
+  getUserStatusChanges,
+};
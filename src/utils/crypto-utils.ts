@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+
+/**
+ * @module CryptoUtils
+ * Вспомогательные функции для одноразовых секретов (refresh-токены, ссылки сброса пароля и т.п.).
+ * В базе такие секреты хранятся только в виде sha256-хэша.
+ */
+
+/**
+ * Генерирует случайный секрет, пригодный для передачи в URL.
+ * @param bytes - количество случайных байт
+ */
+function generateToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Считает sha256-хэш секрета для хранения и поиска в базе.
+ * @param token - сам секрет
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export { generateToken, hashToken };
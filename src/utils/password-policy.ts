@@ -0,0 +1,66 @@
+import { COMMON_PASSWORDS } from '../config/common-passwords';
+import { PASSWORD_MIN_LENGTH, PASSWORD_MAX_LENGTH, PASSWORD_MIN_CHAR_CLASSES } from '../config/auth-config';
+
+/**
+ * @module PasswordPolicy
+ * Проверка пароля на соответствие политике. Используется при регистрации,
+ * создании пользователя администратором, сбросе и смене пароля.
+ */
+
+type PasswordContext = {
+  username?: string;
+  email?: string;
+};
+
+const CHAR_CLASSES: RegExp[] = [/\p{Ll}/u, /\p{Lu}/u, /\p{Nd}/u, /[^\p{L}\p{Nd}]/u];
+
+// Слишком короткие имена (например, «al») встречаются в паролях случайно, их не проверяем
+const MIN_IDENTITY_LENGTH = 3;
+
+/**
+ * Проверяет пароль и возвращает список нарушений политики.
+ * @param password - проверяемый пароль
+ * @param context - данные пользователя, которые не должны входить в пароль
+ * @returns {string[]} Описания нарушений; пустой массив — пароль подходит.
+ */
+function validatePassword(password: string, context: PasswordContext = {}): string[] {
+  const violations: string[] = [];
+
+  if (typeof password !== 'string') {
+    return ['password must be a string'];
+  }
+
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    violations.push(`password must be at least ${PASSWORD_MIN_LENGTH} characters long`);
+  }
+
+  if (Buffer.byteLength(password, 'utf8') > PASSWORD_MAX_LENGTH) {
+    violations.push(`password must be at most ${PASSWORD_MAX_LENGTH} bytes long`);
+  }
+
+  const charClasses = CHAR_CLASSES.filter((pattern) => pattern.test(password)).length;
+
+  if (charClasses < PASSWORD_MIN_CHAR_CLASSES) {
+    violations.push(
+      `password must contain at least ${PASSWORD_MIN_CHAR_CLASSES} of: lowercase letters, uppercase letters, digits, symbols`,
+    );
+  }
+
+  const lowered = password.toLowerCase();
+  const identities = [context.username, context.email?.split('@')[0]].filter(
+    (value): value is string => !!value && value.length >= MIN_IDENTITY_LENGTH,
+  );
+
+  if (identities.some((identity) => lowered.includes(identity.toLowerCase()))) {
+    violations.push('password must not contain the username or email');
+  }
+
+  if (COMMON_PASSWORDS.has(lowered)) {
+    violations.push('password is too common');
+  }
+
+  return violations;
+}
+
+export { validatePassword };
+export type { PasswordContext };
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+
+/**
+ * @module Totp
+ * Одноразовые коды по времени (TOTP, RFC 6238) для двухфакторной аутентификации.
+ * Параметры совместимы с Google Authenticator и аналогами: HMAC-SHA1, 6 цифр, шаг 30 секунд.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+
+/**
+ * Кодирует байты в base32 (RFC 4648, без выравнивания '=').
+ * @param buffer - исходные байты
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Декодирует base32-строку в байты; пробелы, дефисы и '=' игнорируются.
+ * @param input - base32-строка
+ * @throws {Error} Если строка содержит недопустимые символы.
+ */
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Генерирует новый секрет TOTP (160 бит, как рекомендует RFC 4226) в base32.
+ */
+function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Номер временного шага для момента времени.
+ * @param timeMs - момент времени (мс)
+ */
+function getTotpStep(timeMs = Date.now()): number {
+  return Math.floor(timeMs / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Вычисляет код для временного шага (HOTP, RFC 4226).
+ * @param secret - секрет в base32
+ * @param step - номер временного шага
+ */
+function generateTotpCode(secret: string, step = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Проверяет код с допуском на рассинхронизацию часов.
+ * @param secret - секрет в base32
+ * @param code - введённый пользователем код
+ * @param window - сколько соседних шагов (в каждую сторону) тоже принимаются
+ * @returns {number|null} Номер шага, которому соответствует код, или null.
+ * Номер шага нужен, чтобы не принять один и тот же код дважды.
+ */
+function verifyTotpCode(secret: string, code: string, window = 1): number | null {
+  const normalized = String(code).replace(/\s/g, '');
+
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep();
+
+  for (let delta = -window; delta <= window; delta += 1) {
+    const expected = Buffer.from(generateTotpCode(secret, currentStep + delta));
+
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return currentStep + delta;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Собирает otpauth:// URI для добавления секрета в приложение-аутентификатор (обычно через QR-код).
+ * @param issuer - название сервиса
+ * @param accountName - имя учётной записи (username или email)
+ * @param secret - секрет в base32
+ */
+function buildOtpauthUri(issuer: string, accountName: string, secret: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export { generateTotpSecret, generateTotpCode, verifyTotpCode, buildOtpauthUri, base32Encode, base32Decode };
@@ -0,0 +1,54 @@
+import { USERNAME_MIN_LENGTH, USERNAME_MAX_LENGTH } from '../config/auth-config';
+
+/**
+ * @module UserValidation
+ * Проверка username и email при изменении профиля пользователя.
+ */
+
+// латиница, цифры, точка, дефис и подчёркивание — username попадает в ссылки и письма
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// ограничение колонки users.email
+const EMAIL_MAX_LENGTH = 255;
+
+/**
+ * Проверяет username и возвращает список нарушений.
+ * @param username - проверяемое значение
+ * @returns {string[]} Описания нарушений; пустой массив — username подходит.
+ */
+function validateUsername(username: unknown): string[] {
+  if (typeof username !== 'string') {
+    return ['username must be a string'];
+  }
+
+  const violations: string[] = [];
+
+  if (username.length < USERNAME_MIN_LENGTH || username.length > USERNAME_MAX_LENGTH) {
+    violations.push(`username must be ${USERNAME_MIN_LENGTH} to ${USERNAME_MAX_LENGTH} characters long`);
+  }
+
+  if (!USERNAME_PATTERN.test(username)) {
+    violations.push('username may contain only latin letters, digits, ".", "-" and "_"');
+  }
+
+  return violations;
+}
+
+/**
+ * Проверяет email и возвращает список нарушений.
+ * @param email - проверяемое значение
+ * @returns {string[]} Описания нарушений; пустой массив — email подходит.
+ */
+function validateEmail(email: unknown): string[] {
+  if (typeof email !== 'string') {
+    return ['email must be a string'];
+  }
+
+  if (email.length > EMAIL_MAX_LENGTH) {
+    return [`email must be at most ${EMAIL_MAX_LENGTH} characters long`];
+  }
+
+  return EMAIL_PATTERN.test(email) ? [] : ['email has an invalid format'];
+}
+
+export { validateUsername, validateEmail };
@@ -0,0 +1,239 @@
+import { spawn, ChildProcess } from 'child_process';
+import net from 'net';
+import path from 'path';
+import express from 'express';
+import request from 'supertest';
+
+/**
+ * Вход через OIDC (authorization code + PKCE) против scripts/mock-oidc-provider.js.
+ *
+ * Мок-провайдер запускается отдельным процессом на свободном порту; приложение
+ * обращается к нему по сети так же, как к настоящему провайдеру. Таблицы
+ * oidc_auth_requests, user_identities и users заменены хранилищами в памяти,
+ * а выдача токенов (completeLogin) — заглушкой, возвращающей пользователя.
+ */
+
+type MockUser = { id: number; username: string; email: string; role: string };
+
+const mockAuthRequests = new Map<string, { code_verifier: string; nonce: string }>();
+const mockUsers: MockUser[] = [];
+const mockIdentities: { userId: number; provider: string; subject: string }[] = [];
+
+const MOCK_PROVIDER_SCRIPT = path.resolve(__dirname, '../../scripts/mock-oidc-provider.js');
+const REDIRECT_URI = 'http://localhost:3000/auth/oidc/callback';
+
+jest.mock('../../db', () => ({
+  pool: { query: jest.fn() },
+  withTransaction: jest.fn(),
+}));
+
+jest.mock('../../src/models/oidc-auth-request-model', () => ({
+  create: jest.fn(async (state: string, codeVerifier: string, nonce: string) => {
+    mockAuthRequests.set(state, { code_verifier: codeVerifier, nonce });
+  }),
+  consume: jest.fn(async (state: string) => {
+    const authRequest = mockAuthRequests.get(state) ?? null;
+    mockAuthRequests.delete(state);
+    return authRequest;
+  }),
+}));
+
+jest.mock('../../src/models/user-model', () => ({
+  getOneByEmail: jest.fn(async (email: string) => mockUsers.find((user) => user.email === email) ?? null),
+}));
+
+jest.mock('../../src/models/user-identity-model', () => ({
+  getUserByIdentity: jest.fn(async (provider: string, subject: string) => {
+    const identity = mockIdentities.find((row) => row.provider === provider && row.subject === subject);
+    return identity ? mockUsers.find((user) => user.id === identity.userId) ?? null : null;
+  }),
+  linkIdentity: jest.fn(async (userId: number, identity: { provider: string; subject: string }) => {
+    mockIdentities.push({ userId, provider: identity.provider, subject: identity.subject });
+  }),
+  createUserWithIdentity: jest.fn(async (dto: { provider: string; subject: string; username: string; email: string }) => {
+    const user = { id: mockUsers.length + 1, username: dto.username, email: dto.email, role: 'user' };
+    mockUsers.push(user);
+    mockIdentities.push({ userId: user.id, provider: dto.provider, subject: dto.subject });
+    return { status: 'ok', user };
+  }),
+}));
+
+jest.mock('../../src/services/auth-service/auth-service', () => ({
+  completeLogin: jest.fn(async (req: express.Request, res: express.Response, user: MockUser) =>
+    res.status(200).json({ message: 'Login successful', user }),
+  ),
+}));
+
+let provider: ChildProcess;
+let app: express.Express;
+
+/**
+ * Находит свободный TCP-порт.
+ */
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Запускает мок-провайдер и ждёт, пока он начнёт принимать запросы.
+ * @param port - порт провайдера
+ */
+function startProvider(port: number): Promise<ChildProcess> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [MOCK_PROVIDER_SCRIPT], {
+      env: { ...process.env, MOCK_OIDC_PORT: String(port), OIDC_CLIENT_ID: 'library' },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    const timer = setTimeout(() => reject(new Error('Mock OIDC provider did not start')), 10000);
+
+    child.once('error', reject);
+    child.once('exit', (code) => reject(new Error(`Mock OIDC provider exited with code ${code}`)));
+    child.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('Mock OIDC provider is running')) {
+        clearTimeout(timer);
+        resolve(child);
+      }
+    });
+  });
+}
+
+/**
+ * Проходит вход на стороне провайдера: начинает вход в приложении, открывает
+ * страницу входа провайдера и возвращает параметры адреса возврата.
+ * @param loginHint - пользователь мок-провайдера
+ */
+async function authorizeAtProvider(loginHint?: string): Promise<{ code: string; state: string }> {
+  const start = await request(app).get('/auth/oidc/login');
+
+  expect(start.status).toBe(302);
+
+  const authorizeUrl = new URL(start.headers.location);
+
+  if (loginHint) {
+    authorizeUrl.searchParams.set('login_hint', loginHint);
+  }
+
+  const authorize = await fetch(authorizeUrl, { redirect: 'manual' });
+
+  expect(authorize.status).toBe(302);
+
+  const callbackUrl = new URL(authorize.headers.get('location')!);
+
+  expect(`${callbackUrl.origin}${callbackUrl.pathname}`).toBe(REDIRECT_URI);
+
+  return { code: callbackUrl.searchParams.get('code')!, state: callbackUrl.searchParams.get('state')! };
+}
+
+/**
+ * Возвращается в приложение с провайдера.
+ * @param params - code и state из адреса возврата
+ */
+function callback(params: { code: string; state: string }) {
+  return request(app).get('/auth/oidc/callback').query(params);
+}
+
+beforeAll(async () => {
+  const port = await getFreePort();
+  provider = await startProvider(port);
+
+  // настройки OIDC читаются при загрузке модуля, поэтому подключаем сервис после запуска провайдера
+  process.env.OIDC_ISSUER = `http://localhost:${port}`;
+  process.env.OIDC_CLIENT_ID = 'library';
+  process.env.OIDC_REDIRECT_URI = REDIRECT_URI;
+
+  const { startOidcLogin, handleOidcCallback } = await import('../../src/services/auth-service/oidc-service');
+
+  app = express();
+  app.get('/auth/oidc/login', startOidcLogin);
+  app.get('/auth/oidc/callback', handleOidcCallback);
+}, 20000);
+
+afterAll(() => {
+  provider?.removeAllListeners('exit');
+  provider?.kill();
+});
+
+beforeEach(() => {
+  mockAuthRequests.clear();
+  mockUsers.splice(0, mockUsers.length, { id: 1, username: 'guest-local', email: 'guest@campus.example', role: 'user' });
+  mockIdentities.length = 0;
+});
+
+describe('OIDC authorization code flow with PKCE', () => {
+  test('redirects to the provider with an S256 code challenge instead of the verifier', async () => {
+    const start = await request(app).get('/auth/oidc/login');
+    const authorizeUrl = new URL(start.headers.location);
+    const [[state, { code_verifier: codeVerifier }]] = [...mockAuthRequests];
+
+    expect(authorizeUrl.pathname).toBe('/authorize');
+    expect(authorizeUrl.searchParams.get('response_type')).toBe('code');
+    expect(authorizeUrl.searchParams.get('client_id')).toBe('library');
+    expect(authorizeUrl.searchParams.get('state')).toBe(state);
+    expect(authorizeUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(authorizeUrl.searchParams.get('code_challenge')).not.toBe(codeVerifier);
+    expect(authorizeUrl.toString()).not.toContain(codeVerifier);
+  });
+
+  test('creates a user and links the identity on the first login', async () => {
+    const response = await callback(await authorizeAtProvider('student1'));
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toMatchObject({ username: 'student1', email: 'student1@campus.example' });
+    expect(mockIdentities).toEqual([{ userId: response.body.user.id, provider: 'campus', subject: 'campus-0001' }]);
+  });
+
+  test('signs in the linked user on the next login', async () => {
+    const first = await callback(await authorizeAtProvider('student1'));
+    const second = await callback(await authorizeAtProvider('student1'));
+
+    expect(second.status).toBe(200);
+    expect(second.body.user.id).toBe(first.body.user.id);
+    expect(mockUsers).toHaveLength(2);
+  });
+
+  test('does not link an unverified email to an existing account', async () => {
+    const response = await callback(await authorizeAtProvider('guest'));
+
+    expect(response.status).toBe(409);
+    expect(mockIdentities).toHaveLength(0);
+  });
+
+  test('rejects a second callback with the same state', async () => {
+    const params = await authorizeAtProvider();
+
+    expect((await callback(params)).status).toBe(200);
+
+    const replay = await callback(params);
+
+    expect(replay.status).toBe(400);
+    expect(replay.body).toEqual({ error: 'Invalid or expired OIDC state' });
+  });
+
+  test('fails when the code verifier does not match the challenge', async () => {
+    const params = await authorizeAtProvider();
+    mockAuthRequests.get(params.state)!.code_verifier = 'a-different-verifier';
+
+    const response = await callback(params);
+
+    expect(response.status).toBe(502);
+    expect(response.body).toEqual({ error: 'OIDC provider error' });
+  });
+
+  test('rejects an ID token with a foreign nonce', async () => {
+    const params = await authorizeAtProvider();
+    mockAuthRequests.get(params.state)!.nonce = 'a-different-nonce';
+
+    const response = await callback(params);
+
+    expect(response.status).toBe(401);
+    expect(response.body).toEqual({ error: 'Invalid ID token' });
+  });
+});
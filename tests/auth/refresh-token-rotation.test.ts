@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import express, { Request } from 'express';
+import request from 'supertest';
+
+import { issueSessionTokens, refreshAccessToken } from '../../src/services/auth-service/auth-service';
+import { logSecurityEvent } from '../../src/models/security-event-model';
+
+/**
+ * Ротация refresh-токенов, обнаружение повторного предъявления и отзыв семейства.
+ *
+ * Таблица refresh_tokens заменена хранилищем в памяти с той же семантикой,
+ * что у AuthModel: ротированный токен остаётся в таблице с rotated_at,
+ * а replaceRefreshToken ротирует токен только один раз.
+ */
+
+type MockToken = {
+  id: number;
+  user_id: number;
+  family_id: string;
+  token: string;
+  user_agent: string | null;
+  ip: string | null;
+  expires_at: Date;
+  rotated_at: Date | null;
+  two_factor_verified: boolean;
+  created_at: Date;
+};
+
+const mockTokens: MockToken[] = [];
+let mockNextTokenId = 1;
+
+const USER = { id: 7, username: 'reader', role: 'user' };
+
+jest.mock('../../db', () => ({
+  pool: { query: jest.fn() },
+  withTransaction: jest.fn(),
+}));
+
+jest.mock('../../src/models/auth-models', () => {
+  const toStored = ({ token, ...stored }: MockToken) => ({ ...stored });
+  const insert = (
+    userId: number,
+    familyId: string,
+    token: string,
+    expiresAt: string,
+    meta: { userAgent: string | null; ip: string | null },
+    twoFactorVerified: boolean,
+  ) => {
+    const row: MockToken = {
+      id: mockNextTokenId++,
+      user_id: userId,
+      family_id: familyId,
+      token,
+      user_agent: meta.userAgent,
+      ip: meta.ip,
+      expires_at: new Date(expiresAt),
+      rotated_at: null,
+      two_factor_verified: twoFactorVerified,
+      created_at: new Date(),
+    };
+    mockTokens.push(row);
+    return toStored(row);
+  };
+  const removeWhere = (predicate: (row: MockToken) => boolean) => {
+    const before = mockTokens.length;
+    const kept = mockTokens.filter((row) => !predicate(row));
+    mockTokens.splice(0, mockTokens.length, ...kept);
+    return before - kept.length;
+  };
+
+  return {
+    createSession: jest.fn(async (userId, token, expiresAt, meta, twoFactorVerified = false) =>
+      insert(userId, crypto.randomUUID(), token, expiresAt, meta, twoFactorVerified),
+    ),
+    getRefreshToken: jest.fn(async (token: string) => {
+      const row = mockTokens.find((candidate) => candidate.token === token);
+      return row ? toStored(row) : undefined;
+    }),
+    deleteRefreshToken: jest.fn(async (token: string) => {
+      const row = mockTokens.find((candidate) => candidate.token === token);
+      return row ? removeWhere((candidate) => candidate.family_id === row.family_id) : 0;
+    }),
+    replaceRefreshToken: jest.fn(async (current, newToken, expiresAt, meta) => {
+      const row = mockTokens.find((candidate) => candidate.id === current.id && candidate.rotated_at === null);
+
+      if (!row) {
+        return undefined;
+      }
+
+      row.rotated_at = new Date();
+      return insert(current.user_id, current.family_id, newToken, expiresAt, meta, current.two_factor_verified);
+    }),
+    revokeFamily: jest.fn(async (familyId: string) => removeWhere((row) => row.family_id === familyId)),
+  };
+});
+
+jest.mock('../../src/models/user-model', () => ({
+  getOneById: jest.fn(async (userId: number) => (userId === 7 ? { id: 7, username: 'reader', role: 'user' } : null)),
+}));
+
+jest.mock('../../src/models/security-event-model', () => ({
+  logSecurityEvent: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../src/services/auth-service/account-status', () => ({
+  getAccountBlock: jest.fn(async () => null),
+}));
+
+const app = express();
+app.use(express.json());
+app.post('/auth/refresh', refreshAccessToken);
+
+/**
+ * Входит от имени USER и возвращает refresh-токен новой сессии.
+ */
+async function login(): Promise<string> {
+  const req = { get: () => 'jest', ip: '127.0.0.1' } as unknown as Request;
+  const { refToken } = await issueSessionTokens(req, USER, false);
+
+  return refToken;
+}
+
+/**
+ * Предъявляет refresh-токен.
+ * @param refreshToken
+ */
+function refresh(refreshToken: string) {
+  return request(app).post('/auth/refresh').send({ refreshToken });
+}
+
+/**
+ * Возвращает запись токена из хранилища.
+ * @param token
+ */
+function findToken(token: string): MockToken | undefined {
+  return mockTokens.find((row) => row.token === token);
+}
+
+beforeEach(() => {
+  mockTokens.length = 0;
+  jest.clearAllMocks();
+});
+
+describe('refresh token rotation', () => {
+  test('issues a new refresh token in the same session and retires the old one', async () => {
+    const first = await login();
+
+    const response = await refresh(first);
+
+    expect(response.status).toBe(200);
+    expect(response.body.accessToken).toEqual(expect.any(String));
+    expect(response.body.refreshToken).toEqual(expect.any(String));
+    expect(response.body.refreshToken).not.toBe(first);
+
+    const retired = findToken(first)!;
+    const current = findToken(response.body.refreshToken)!;
+
+    expect(retired.rotated_at).not.toBeNull();
+    expect(current.rotated_at).toBeNull();
+    expect(current.family_id).toBe(retired.family_id);
+  });
+
+  test('accepts each new refresh token exactly once along the chain', async () => {
+    let token = await login();
+
+    for (let i = 0; i < 3; i++) {
+      const response = await refresh(token);
+
+      expect(response.status).toBe(200);
+      token = response.body.refreshToken;
+    }
+
+    expect(mockTokens.filter((row) => row.rotated_at === null)).toHaveLength(1);
+    expect(logSecurityEvent).not.toHaveBeenCalled();
+  });
+
+  test('rejects an unknown refresh token', async () => {
+    const response = await refresh('not-a-token');
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ error: 'Invalid refresh token' });
+  });
+
+  test('rejects an expired refresh token and removes its session', async () => {
+    const token = await login();
+    findToken(token)!.expires_at = new Date(Date.now() - 1000);
+
+    const response = await refresh(token);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({ error: 'Refresh token expired' });
+    expect(mockTokens).toHaveLength(0);
+  });
+});
+
+describe('refresh token reuse', () => {
+  test('revokes the whole session when a rotated token is presented again', async () => {
+    const first = await login();
+    const rotated = await refresh(first);
+    const familyId = findToken(first)!.family_id;
+
+    const replay = await refresh(first);
+
+    expect(replay.status).toBe(403);
+    expect(replay.body).toEqual({ error: 'Refresh token reuse detected, session revoked' });
+    expect(mockTokens.filter((row) => row.family_id === familyId)).toHaveLength(0);
+    expect(logSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: USER.id,
+        eventType: 'refresh_token_reuse',
+        details: expect.objectContaining({ familyId, revokedTokens: 2 }),
+      }),
+    );
+
+    // новый токен той же сессии тоже больше не принимается
+    const afterRevoke = await refresh(rotated.body.refreshToken);
+
+    expect(afterRevoke.status).toBe(403);
+    expect(afterRevoke.body).toEqual({ error: 'Invalid refresh token' });
+  });
+
+  test('treats two concurrent refreshes with the same token as reuse', async () => {
+    const token = await login();
+
+    const responses = await Promise.all([refresh(token), refresh(token)]);
+    const statuses = responses.map((response) => response.status).sort();
+
+    expect(statuses).toEqual([200, 403]);
+    expect(mockTokens).toHaveLength(0);
+    expect(logSecurityEvent).toHaveBeenCalledTimes(1);
+    expect(logSecurityEvent).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'refresh_token_reuse' }));
+  });
+
+  test('revokes only the compromised session', async () => {
+    const compromised = await login();
+    const otherDevice = await login();
+
+    await refresh(compromised);
+    await refresh(compromised);
+
+    const response = await refresh(otherDevice);
+
+    expect(response.status).toBe(200);
+  });
+});
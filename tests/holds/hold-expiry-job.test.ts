@@ -0,0 +1,81 @@
+import { startHoldExpiryJob } from '../../src/services/holds-service/holds-service';
+import { expireReady } from '../../src/models/holds-model';
+
+/**
+ * Фоновая задача истечения отложенных броней: просроченная бронь закрывается
+ * по расписанию, а не только при следующей выдаче или запросе броней.
+ * Таблица holds не нужна — проверяется, когда и как задача вызывает expireReady.
+ */
+
+jest.mock('../../db', () => ({
+  pool: { query: jest.fn() },
+  withTransaction: jest.fn(),
+}));
+
+jest.mock('../../src/models/holds-model', () => ({
+  expireReady: jest.fn(async () => []),
+}));
+
+const mockedExpireReady = expireReady as jest.MockedFunction<typeof expireReady>;
+
+// значения по умолчанию из CirculationConfig
+const INTERVAL_MS = 15 * 60 * 1000;
+const HOLD_PICKUP_DAYS = 3;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  mockedExpireReady.mockReset();
+  mockedExpireReady.mockResolvedValue([]);
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+describe('hold expiry job', () => {
+  test('expires ready holds right away and then on every interval', async () => {
+    startHoldExpiryJob();
+
+    expect(mockedExpireReady).toHaveBeenCalledTimes(1);
+    expect(mockedExpireReady).toHaveBeenCalledWith(HOLD_PICKUP_DAYS);
+
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(mockedExpireReady).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(mockedExpireReady).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not start a run while the previous one is still in progress', async () => {
+    let finishRun: () => void = () => undefined;
+    mockedExpireReady.mockImplementationOnce(
+      () => new Promise((resolve) => {
+        finishRun = () => resolve([]);
+      }),
+    );
+
+    startHoldExpiryJob();
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(mockedExpireReady).toHaveBeenCalledTimes(1);
+
+    finishRun();
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(mockedExpireReady).toHaveBeenCalledTimes(2);
+  });
+
+  test('keeps running on schedule after a failed run', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockedExpireReady.mockRejectedValueOnce(new Error('connection lost'));
+
+    startHoldExpiryJob();
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(consoleError).toHaveBeenCalledWith('Hold expiry job error', expect.any(Error));
+    expect(mockedExpireReady).toHaveBeenCalledTimes(2);
+
+    consoleError.mockRestore();
+  });
+});
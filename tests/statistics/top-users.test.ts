@@ -0,0 +1,104 @@
+import { pool } from '../../db';
+import { getTop } from '../../src/models/statistic-model';
+import { remove } from '../../src/models/user-model';
+
+/**
+ * Рейтинг читателей (getTop) и мягкое удаление пользователей.
+ *
+ * Запросы выполняются в pg-mem — PostgreSQL в памяти — по упрощённой схеме
+ * из init-migrations.js (только таблицы и колонки, которые читают getTop и remove).
+ */
+
+jest.mock('../../db', () => {
+  const { newDb } = require('pg-mem');
+  const { Pool } = newDb().adapters.createPg();
+  const pool = new Pool();
+
+  return {
+    pool,
+    withTransaction: async (callback: (client: unknown) => Promise<unknown>) => {
+      const client = await pool.connect();
+
+      try {
+        await client.query('BEGIN');
+        const result = await callback(client);
+        await client.query('COMMIT');
+        return result;
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      } finally {
+        client.release();
+      }
+    },
+  };
+});
+
+type TopUser = { user_id: number; username: string; books_taken: number };
+
+/**
+ * Возвращает рейтинг в виде { username: books_taken }.
+ */
+async function topCounts(): Promise<Record<string, number>> {
+  const rows = (await getTop()) as TopUser[];
+
+  return Object.fromEntries(rows.map((row) => [row.username, Number(row.books_taken)]));
+}
+
+beforeAll(async () => {
+  await pool.query(`
+    CREATE TABLE users (
+      id SERIAL PRIMARY KEY,
+      username VARCHAR(255) UNIQUE NOT NULL,
+      role VARCHAR(50) DEFAULT 'user',
+      deleted_at TIMESTAMP,
+      unlinked_loans_count INT NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE book_loans (
+      id SERIAL PRIMARY KEY,
+      book_id INT NOT NULL,
+      user_id INT REFERENCES users(id),
+      returned_at TIMESTAMP
+    );
+    CREATE TABLE holds (
+      id SERIAL PRIMARY KEY,
+      user_id INT NOT NULL,
+      status VARCHAR(20) NOT NULL,
+      closed_at TIMESTAMP
+    );
+    CREATE TABLE refresh_tokens (
+      id SERIAL PRIMARY KEY,
+      user_id INT NOT NULL
+    );
+  `);
+});
+
+beforeEach(async () => {
+  await pool.query('DELETE FROM book_loans; DELETE FROM users;');
+  await pool.query(`
+    INSERT INTO users (id, username, role, unlinked_loans_count) VALUES
+      (1, 'admin', 'admin', 0),
+      (2, 'alice', 'user', 0),
+      (3, 'bob', 'user', 2);
+    INSERT INTO book_loans (book_id, user_id, returned_at) VALUES
+      (10, 2, NOW()), (11, 2, NOW()), (12, 2, NOW()),
+      (10, 3, NOW());
+  `);
+});
+
+describe('top readers statistic', () => {
+  test('counts linked loans together with loans unlinked by the retention policy', async () => {
+    expect(await topCounts()).toEqual({ alice: 3, bob: 3 });
+  });
+
+  test('keeps the circulation of a soft-deleted user under a masked name', async () => {
+    const before = await topCounts();
+
+    expect(await remove(2)).toMatchObject({ status: 'ok' });
+
+    const after = await topCounts();
+
+    expect(after).toEqual({ 'deleted user': before.alice, bob: before.bob });
+  });
+});